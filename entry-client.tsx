@@ -0,0 +1,14 @@
+import React from 'react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import { App } from './index';
+import { readStaticContent } from './lib/staticContent';
+
+const container = document.getElementById('root')!;
+const staticContent = readStaticContent();
+
+// Pre-rendered pages carry their content and already have the markup
+if (staticContent) {
+  hydrateRoot(container, <App staticContent={staticContent} />);
+} else {
+  createRoot(container).render(<App />);
+}
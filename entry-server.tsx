@@ -0,0 +1,26 @@
+import React from 'react';
+import { renderToString } from 'react-dom/server';
+import { App, buildPageHead } from './index';
+import { Route } from './lib/router';
+import { renderPageHead } from './lib/seo';
+import { readTheme, renderThemeStyle, themeFontsUrl } from './lib/theme';
+
+export { PAGE_PATHS } from './lib/router';
+export { readPageRegistry, customPageRoutes } from './lib/pages';
+export { parseContentFile } from './lib/contentImport';
+export { staticContentScript } from './lib/staticContent';
+export { SEO_SITE_URL_KEY, normalizeSiteUrl, buildSitemap, buildRobots, sitemapPaths } from './lib/seo';
+
+// Used by scripts/prerender.mjs; null renders the 404 page.
+export const render = (route: Route, content: Record<string, string>) =>
+  renderToString(<App staticContent={content} initialRoute={route} />);
+
+// <title>, meta tags and JSON-LD for the page's <head>.
+export const renderHead = (route: Route, content: Record<string, string>) =>
+  renderPageHead(buildPageHead(content, route));
+
+// Theme variables and font stylesheet, the same for every page.
+export const renderTheme = (content: Record<string, string>) => {
+  const theme = readTheme(content);
+  return { style: renderThemeStyle(theme), fontsUrl: themeFontsUrl(theme) };
+};
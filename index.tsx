@@ -1,13 +1,99 @@
 import React, { useState, useEffect, createContext, useContext, useRef } from 'react';
-import { createRoot } from 'react-dom/client';
+import { createPortal } from 'react-dom';
 import { 
   Menu, X, ChevronRight, MapPin, Building2, TrendingUp, 
   User, Phone, CheckCircle2, BarChart3, Quote, Calendar, 
-  ArrowRight, Star, Home, Pen, Save, RotateCcw, ImageIcon, XCircle, Upload, Download
+  ArrowRight, Star, Home, Pen, Save, RotateCcw, ImageIcon, XCircle, Upload, Download, FileUp,
+  Undo2, Redo2, Inbox, Search, Plus, Trash2, Calculator, Paperclip,
+  GripVertical, ExternalLink, Copy, ChevronUp, ChevronDown, ClipboardList,
+  Footprints, Crosshair, HardDrive, AlertTriangle, Crop, Bold, Italic, Highlighter, Link2,
+  Globe, Languages, Lock, LogOut, ShieldCheck, History, Send, Eye, Camera, FileSearch, Columns2, LayoutGrid,
+  ChevronLeft, CalendarClock, CalendarPlus, Palette, Layers, EyeOff, Files
 } from 'lucide-react';
+import { parseContentFile, diffContent, ContentImportError, ImportMode, ContentDiff } from './lib/contentImport';
+import { createHistory, commitHistory, undoHistory, redoHistory, HistoryState } from './lib/history';
+import { getLeadsAdapter, filterLeads, leadsToCsv, Lead, LeadStatus, LEAD_STATUSES } from './lib/leads';
+import {
+  validateContactForm, normalizePhone, parseBusinessHours, formatBusinessHours, ContactFormData, ContactFormErrors
+} from './lib/contactValidation';
+import {
+  BookingSettings, Slot, Reservation, BOOKING_SETTINGS_KEY, SLOT_LENGTHS, FIXED_PUBLIC_HOLIDAYS, SlotTakenError,
+  readBookingSettings, dayStatus, slotsForDay, findSlot, startOfDay, startOfWeek, addDays, slotKey, dateKey,
+  parseSlotKey, dayOfMonth, dayOfWeek, isSeoulTime, SEOUL_TIME_ZONE, formatSlot, formatSlotTime, isHolidayEntry, buildIcs, reservationUid, getReservationStore
+} from './lib/booking';
+import {
+  SectionInstance, SectionType, LayoutPage, SECTION_TYPES, DEFAULT_LAYOUTS, layoutKey, isLayoutPage, isPageLayout,
+  sectionSetting, sectionScope, isPrimarySection, createSection, duplicateSection, removeSection
+} from './lib/sections';
+import {
+  PageEntry, PAGE_REGISTRY_KEY, PAGE_TEMPLATES, readPageRegistry, customPageRoutes, findPageEntry, slugError,
+  createCustomPage, pageContentKeys
+} from './lib/pages';
+import {
+  Theme, ContrastLevel, THEME_KEY, DEFAULT_THEME, SANS_FONTS, SERIF_FONTS, RADIUS_OPTIONS, ThemeImportError,
+  readTheme, applyTheme, themeContrastChecks, serializeTheme, parseThemeFile
+} from './lib/theme';
+import {
+  PageId, CustomPageId, Route, CustomPageRoute, pathForPage, pathForRoute, pageForPath, isCustomPageId, createEntryKey, readEntryKey
+} from './lib/router';
+import { readContentJson, writeContentJson } from './lib/contentJson';
+import {
+  PricePoint, PRICE_SERIES_KEY, DEFAULT_PRICE_SERIES, isPriceSeries, niceMax, formatPrice, changeRate
+} from './lib/priceSeries';
+import {
+  InvestmentInput, calculateInvestment, estimateAcquisitionTaxRate, formatManwon, summarizeScenario
+} from './lib/investmentCalculator';
+import { saveContactHandoff, loadContactHandoff, clearContactHandoff } from './lib/contactHandoff';
+import { moveItem } from './lib/reorder';
+import {
+  CONTENT_LISTS, ListKey, ListDefinition, listContentKey, itemContentKeys, createListItemId, isItemIdList
+} from './lib/contentLists';
+import {
+  ProjectFacts, UnitMixEntry, PROJECT_FACTS_KEY, FACT_FIELDS, FACT_ROWS, readProjectFacts
+} from './lib/projectFacts';
+import {
+  LocationMapData, PointOfInterest, LOCATION_MAP_KEY, DEFAULT_LOCATION_MAP, isLocationMapData, createPoi,
+  createProjection, distanceMeters, walkingMinutes, formatDistance
+} from './lib/locationMap';
+import {
+  isAssetRef, putAsset, peekAssetUrl, resolveAssetUrl, migrateDataUrls, inlineAssets, normalizeAssetValues, removeUnusedAssets,
+  estimateAssetStorage, localStorageUsage, projectedLocalStorageUsage, formatBytes, LOCAL_STORAGE_BUDGET, AssetStorageEstimate
+} from './lib/assets';
+import {
+  FocalPoint, ImageSlot, OutputFormat, ASPECT_PRESETS, OUTPUT_FORMATS, DEFAULT_FOCAL_POINT, imageSlot, aspectRatio,
+  focalPointKey, parseFocalPoint, formatFocalPoint, focalPosition, cropAroundFocus, focusWithinCrop, cropOutputSize,
+  supportsWebpEncoding
+} from './lib/imageCrop';
+import {
+  Locale, LOCALES, DEFAULT_LOCALE, LOCALE_STORAGE_KEY, UiStringKey, detectLocale, localizedKey, readTranslation, translate
+} from './lib/i18n';
+import {
+  AuthSession, Permission, ROLES, SESSION_STORAGE_KEY, hasPermission, isSessionExpired, getAuthAdapter, loadSession, saveSession
+} from './lib/auth';
+import {
+  Snapshot, getSnapshotsAdapter, isContentEqual, publishSnapshotName, PUBLISHED_STORAGE_KEY, DRAFT_STORAGE_KEY
+} from './lib/snapshots';
+import {
+  SeoPage, SeoField, PageHead, SEO_PAGES, SEO_KEYS, SEO_SITE_URL_KEY, DEFAULT_PAGE_SEO, TITLE_LIMIT, DESCRIPTION_LIMIT, SITE_NAME,
+  seoKey, resolvePageMeta, pageHead, applyPageHead, projectStructuredData, consultantStructuredData, normalizeSiteUrl,
+  publicImageUrl, isSitePath
+} from './lib/seo';
+import {
+  AnalyticsEvent, getAnalyticsSink, trackCtaClick, trackPageVisit, trackFormEvent, summarizeAnalytics, eventsSince,
+  ANALYTICS_RETENTION_DAYS, ANALYTICS_EVENT_LIMIT,
+  ctaSourceLabel, conversionRate, formatDuration, DIRECT_ENTRY
+} from './lib/analytics';
+import {
+  UnitPlan, BalconyOption, UNIT_CATALOG_KEY, DEFAULT_UNIT_CATALOG, UNIT_FIELDS, COMPARE_ROWS, MAX_COMPARED_UNITS,
+  isUnitCatalog, floorPlanImageKey, buildUnitPlans, toUnitDetails, bestColumn
+} from './lib/unitCatalog';
+import { RichNode, parseRichText, stripRichText, toggleWrap, insertLink, isSafeHref, TextEdit } from './lib/richText';
+import {
+  TimelineEvent, MilestoneStatus, MILESTONE_STATUSES, TIMELINE_KEY, isTimeline, legacyTimeline, orderTimeline,
+  effectiveStatus, formatMilestoneDate, createTimelineEvent, isValidMilestoneDate, isValidSourceUrl
+} from './lib/timeline';
 
 // --- Types ---
-type Page = 'main' | 'analysis' | 'investment' | 'profile' | 'contact';
 type EditType = 'text' | 'image';
 
 // --- Edit Context ---
@@ -16,8 +102,14 @@ interface EditContextType {
   toggleEditMode: () => void;
   content: Record<string, string>;
   updateContent: (key: string, value: string) => void;
+  replaceContent: (next: Record<string, string>) => void;
   resetContent: () => void;
-  openEditor: (id: string, initialValue: string, type: EditType) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  // sourceText: the Korean original shown next to a translation being edited
+  openEditor: (id: string, initialValue: string, type: EditType, defaultValue?: string, sourceText?: string) => void;
 }
 
 const EditContext = createContext<EditContextType>({
@@ -25,19 +117,527 @@ const EditContext = createContext<EditContextType>({
   toggleEditMode: () => {},
   content: {},
   updateContent: () => {},
+  replaceContent: () => {},
   resetContent: () => {},
+  undo: () => {},
+  redo: () => {},
+  canUndo: false,
+  canRedo: false,
   openEditor: () => {},
 });
 
 const useEdit = () => useContext(EditContext);
 
+// --- Locale Context ---
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  showMissingTranslations: boolean;
+  setShowMissingTranslations: (show: boolean) => void;
+}
+
+const LocaleContext = createContext<LocaleContextType>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  showMissingTranslations: false,
+  setShowMissingTranslations: () => {},
+});
+
+// --- Auth Context ---
+interface AuthContextType {
+  session: AuthSession | null;
+  can: (permission: Permission) => boolean;
+  signIn: (passcode: string) => Promise<boolean>;
+  signOut: () => void;
+  // False on the pre-rendered static site, which has no editing at all
+  editable: boolean;
+}
+
+const AuthContext = createContext<AuthContextType>({
+  session: null,
+  can: () => false,
+  signIn: async () => false,
+  signOut: () => {},
+  editable: true,
+});
+
+const useAuth = () => useContext(AuthContext);
+
+// --- Version Context ---
+// Edit mode works on the draft; visitors only ever see the published content.
+interface VersionContextType {
+  draft: Record<string, string>;
+  published: Record<string, string>;
+  publish: () => Promise<void>;
+  discardDraft: () => void;
+  preview: Snapshot | null;
+  setPreview: (snapshot: Snapshot | null) => void;
+  restoreSnapshot: (snapshot: Snapshot) => void;
+}
+
+const VersionContext = createContext<VersionContextType>({
+  draft: {},
+  published: {},
+  publish: async () => {},
+  discardDraft: () => {},
+  preview: null,
+  setPreview: () => {},
+  restoreSnapshot: () => {},
+});
+
+const useVersions = () => useContext(VersionContext);
+
+const useLocale = () => {
+  const context = useContext(LocaleContext);
+  const t = (key: UiStringKey, params?: Record<string, string | number>) => translate(context.locale, key, params);
+  return { ...context, t };
+};
+
+// Resolves "asset:" references to object URLs; other values are used as-is.
+const useAssetSrc = (src: string) => {
+  const [resolved, setResolved] = useState(() => isAssetRef(src) ? peekAssetUrl(src) ?? '' : src);
+
+  useEffect(() => {
+    if (!isAssetRef(src)) {
+      setResolved(src);
+      return;
+    }
+    let cancelled = false;
+    resolveAssetUrl(src)
+      .then(url => !cancelled && setResolved(url))
+      .catch(() => !cancelled && setResolved(''));
+    return () => { cancelled = true; };
+  }, [src]);
+
+  return resolved;
+};
+
+const useProjectFacts = (): [ProjectFacts, (next: ProjectFacts) => void] => {
+  const { content, updateContent } = useEdit();
+  return [readProjectFacts(content), (next: ProjectFacts) => updateContent(PROJECT_FACTS_KEY, writeContentJson(next))];
+};
+
+// The unit mix types with their floor plan details (lib/unitCatalog.ts).
+const useUnitPlans = () => {
+  const { content } = useEdit();
+  const facts = readProjectFacts(content);
+  return buildUnitPlans(facts.unitMix, readContentJson(content, UNIT_CATALOG_KEY, DEFAULT_UNIT_CATALOG, isUnitCatalog));
+};
+
+const useContentJson = <T,>(
+  key: string,
+  fallback: T,
+  validate: (value: unknown) => value is T
+): [T, (next: T) => void] => {
+  const { content, updateContent } = useEdit();
+  return [
+    readContentJson(content, key, fallback, validate),
+    (next: T) => updateContent(key, writeContentJson(next)),
+  ];
+};
+
+// --- Router Context ---
+interface RouterContextType {
+  route: Route;
+  // `path` is only needed for a page that was just added to the registry
+  navigate: (page: PageId, path?: string) => void;
+  // Swaps the address of the current history entry, e.g. when its page is renamed
+  replacePath: (path: string) => void;
+  pathFor: (page: PageId) => string | null; // null for a deleted custom page
+  routeForPath: (path: string) => Route;
+}
+
+const RouterContext = createContext<RouterContextType>({
+  route: 'main',
+  navigate: () => {},
+  replacePath: () => {},
+  pathFor: (page) => pathForRoute(page),
+  routeForPath: (path) => pageForPath(path),
+});
+
+const useRouter = () => useContext(RouterContext);
+
+// Keeps the active page in sync with the URL. Each history entry gets a key so
+// back/forward can restore the scroll position it was left at; new navigations start at the top.
+// `initialRoute` replaces the URL lookup when pre-rendering, where there is no window.
+// The route is derived from the path on every render, since custom page paths
+// come from the page registry and change while editing.
+const useHistoryRouter = (initialRoute: Route | undefined, customPages: CustomPageRoute[]): RouterContextType => {
+  const [location, setLocation] = useState(() => ({
+    path: initialRoute !== undefined ? null : window.location.pathname,
+    scrollY: 0,
+    id: 0,
+  }));
+  const entryKeyRef = useRef('');
+  const scrollPositions = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    window.history.scrollRestoration = 'manual';
+    entryKeyRef.current = readEntryKey(window.history.state) ?? createEntryKey();
+    window.history.replaceState({ key: entryKeyRef.current }, '');
+
+    const handlePopState = (e: PopStateEvent) => {
+      scrollPositions.current.set(entryKeyRef.current, window.scrollY);
+      const key = readEntryKey(e.state) ?? createEntryKey();
+      entryKeyRef.current = key;
+      setLocation(prev => ({
+        path: window.location.pathname,
+        scrollY: scrollPositions.current.get(key) ?? 0,
+        id: prev.id + 1,
+      }));
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => {
+    window.scrollTo(0, location.scrollY);
+  }, [location.id]);
+
+  const pathFor = (page: PageId) => pathForRoute(page, customPages);
+  const routeForPath = (path: string) => pageForPath(path, customPages);
+
+  const navigate = (page: PageId, path = pathFor(page)) => {
+    if (path === null) return;
+    if (window.location.pathname !== path) {
+      scrollPositions.current.set(entryKeyRef.current, window.scrollY);
+      entryKeyRef.current = createEntryKey();
+      window.history.pushState({ key: entryKeyRef.current }, '', path);
+    }
+    setLocation(prev => ({ path, scrollY: 0, id: prev.id + 1 }));
+  };
+
+  const replacePath = (path: string) => {
+    window.history.replaceState(window.history.state, '', path);
+    setLocation(prev => ({ ...prev, path }));
+  };
+
+  const route = location.path === null ? initialRoute ?? null : routeForPath(location.path);
+  return { route, navigate, replacePath, pathFor, routeForPath };
+};
+
+// Page id used in analytics events
+const analyticsPage = (route: Route) => route ?? '404';
+
+// Real anchors so links can be copied or opened in a new tab; plain clicks stay in-app.
+// Links with a `source` (the section they sit in) are counted as CTA clicks.
+const PageLink = ({ to, className = '', children, onClick, source }: { to: PageId, className?: string, children: React.ReactNode, onClick?: () => void, source?: string }) => {
+  const { route, navigate, pathFor } = useRouter();
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (e.defaultPrevented) return;
+    if (source) trackCtaClick(analyticsPage(route), source, to);
+    if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey || e.altKey) return;
+    e.preventDefault();
+    navigate(to);
+    onClick?.();
+  };
+
+  return (
+    <a href={pathFor(to) ?? undefined} onClick={handleClick} className={className}>
+      {children}
+    </a>
+  );
+};
+
+// Renders EditableText markup (see lib/richText.ts). With `inert` links are
+// shown but not followable, as in the editor preview and in edit mode.
+const RichText = ({ text, inert = false }: { text: string, inert?: boolean }) => {
+  const { routeForPath } = useRouter();
+  const linkClass = 'underline underline-offset-2 decoration-accent hover:text-accent transition-colors';
+
+  const renderNodes = (nodes: RichNode[]): React.ReactNode[] => nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'break':
+        return <br key={i} />;
+      case 'bold':
+        return <strong key={i} className="font-bold">{renderNodes(node.children)}</strong>;
+      case 'italic':
+        return <em key={i}>{renderNodes(node.children)}</em>;
+      case 'accent':
+        return <span key={i} className="text-accent">{renderNodes(node.children)}</span>;
+      case 'link': {
+        const page = node.href.startsWith('/') ? routeForPath(node.href) : null;
+        if (inert) return <span key={i} className={linkClass}>{renderNodes(node.children)}</span>;
+        if (page) {
+          return (
+            <PageLink key={i} to={page} className={linkClass}>{renderNodes(node.children)}</PageLink>
+          );
+        }
+        const external = /^https?:/i.test(node.href);
+        return (
+          <a key={i} href={node.href} className={linkClass} {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}>
+            {renderNodes(node.children)}
+          </a>
+        );
+      }
+    }
+  });
+
+  return <>{renderNodes(parseRichText(text))}</>;
+};
+
 // --- Assets (Defaults) ---
 const DEFAULT_IMAGES = {
   hero: "https://loremflickr.com/1600/900/architect,man",
   exterior: "https://loremflickr.com/1600/900/apartment,building",
   chart: "https://loremflickr.com/1600/900/chart,finance",
   profile: "https://loremflickr.com/1600/900/portrait,business",
-  consulting: "https://loremflickr.com/1600/900/meeting,consulting"
+  consulting: "https://loremflickr.com/1600/900/meeting,consulting",
+  floorPlan: "https://loremflickr.com/1200/900/floorplan,blueprint"
+};
+
+// Default for every editable image key, for places that read images by id (SEO)
+const DEFAULT_IMAGE_SRC: Record<string, string> = {
+  hero_img: DEFAULT_IMAGES.hero,
+  exterior_img: DEFAULT_IMAGES.exterior,
+  expert_thumb: DEFAULT_IMAGES.profile,
+  overview_img: DEFAULT_IMAGES.exterior,
+  chart_bg: DEFAULT_IMAGES.chart,
+  profile_img_main: DEFAULT_IMAGES.profile,
+  consulting_bg: DEFAULT_IMAGES.consulting,
+  block_image_img: DEFAULT_IMAGES.exterior,
+};
+
+// --- SEO ---
+
+// Title, meta tags and JSON-LD for a page. Also used by the static build to
+// fill the pre-rendered <head>, so it must not touch the DOM.
+export const buildPageHead = (content: Record<string, string>, route: Route, fallbackOrigin = ''): PageHead => {
+  const text = (id: string, fallback: string) => stripRichText(content[id] || fallback).trim();
+  const imageSrc = (id: string) => content[id] || DEFAULT_IMAGE_SRC[id] || '';
+  const meta = resolvePageMeta(content, route, imageSrc, fallbackOrigin);
+  const origin = normalizeSiteUrl(content[SEO_SITE_URL_KEY]) || fallbackOrigin;
+  const absolute = (url: string | null) => url && (isSitePath(url) ? origin + url : url);
+  const telephone = text('contact_tel', '053-247-9599');
+
+  const structuredData: object[] = [
+    projectStructuredData({
+      name: SITE_NAME,
+      description: DEFAULT_PAGE_SEO.main.description,
+      address: text('footer_addr', '대구광역시 동구 신천동 325-1'),
+      telephone,
+      image: absolute(publicImageUrl(imageSrc('exterior_img'))),
+      url: origin ? `${origin}/` : null,
+    }),
+  ];
+  if (route === 'profile') {
+    structuredData.push(consultantStructuredData({
+      name: text('profile_name', '정세동 부장'),
+      jobTitle: text('profile_role_en', '부동산 투자 컨설턴트'),
+      description: text('profile_intro_1', '안녕하세요. 동대구역 부동산 투자의 정석, 정세동 부장입니다.').replace(/^"|"$/g, '').replace(/\s+/g, ' '),
+      telephone,
+      email: text('footer_email', 'Email: nice7458@hanmail.net').match(/[\w.+-]+@[\w-]+(\.[\w-]+)+/)?.[0] ?? '',
+      image: absolute(publicImageUrl(imageSrc('profile_img_main'))),
+      url: meta.canonical,
+    }));
+  }
+  return pageHead(meta, structuredData);
+};
+
+const downloadFile = (fileName: string, data: string, type: string) => {
+  const blob = new Blob([data], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const StorageMeter = ({ pendingBytes = 0 }: { pendingBytes?: number }) => {
+  const { t } = useLocale();
+  const [assets, setAssets] = useState<AssetStorageEstimate | null>(null);
+  const textUsage = localStorageUsage();
+  const textRatio = Math.min(1, textUsage / LOCAL_STORAGE_BUDGET);
+
+  useEffect(() => {
+    estimateAssetStorage().then(setAssets).catch(() => setAssets(null));
+  }, [pendingBytes]);
+
+  const assetRatio = assets && assets.quota > 0 ? Math.min(1, (assets.usage + pendingBytes) / assets.quota) : 0;
+  const barColor = (ratio: number) => ratio > 0.9 ? 'bg-red-500' : ratio > 0.7 ? 'bg-orange-400' : 'bg-accent';
+
+  return (
+    <div className="space-y-2 text-xs text-gray-500">
+      <div>
+        <div className="flex justify-between mb-1">
+          <span className="flex items-center gap-1"><HardDrive size={12} /> {t('edit.storageText')}</span>
+          <span>{formatBytes(textUsage * 2)} / {formatBytes(LOCAL_STORAGE_BUDGET * 2)}</span>
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div className={`h-full ${barColor(textRatio)}`} style={{ width: `${textRatio * 100}%` }}></div>
+        </div>
+      </div>
+      {assets && (
+        <div>
+          <div className="flex justify-between mb-1">
+            <span className="flex items-center gap-1"><ImageIcon size={12} /> {t('edit.storageImages')}</span>
+            <span>{formatBytes(assets.usage + pendingBytes)} / {formatBytes(assets.quota)}</span>
+          </div>
+          <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+            <div className={`h-full ${barColor(assetRatio)}`} style={{ width: `${assetRatio * 100}%` }}></div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Percent position of a pointer event inside an element.
+const pointerPercent = (e: React.MouseEvent, element: HTMLElement): FocalPoint => {
+  const rect = element.getBoundingClientRect();
+  return {
+    x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+    y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100)),
+  };
+};
+
+// Crops around a focal point picked on the source and re-encodes the result.
+const ImageCropper = ({
+  src,
+  slot,
+  onCancel,
+  onApply
+}: {
+  src: string;
+  slot: ImageSlot;
+  onCancel: () => void;
+  onApply: (blob: Blob, focus: FocalPoint) => void;
+}) => {
+  const { t } = useLocale();
+  const [aspectId, setAspectId] = useState(slot.aspect);
+  const [zoom, setZoom] = useState(1);
+  const [focus, setFocus] = useState<FocalPoint>(DEFAULT_FOCAL_POINT);
+  const [format, setFormat] = useState<OutputFormat>(() => supportsWebpEncoding() ? 'image/webp' : 'image/jpeg');
+  const [quality, setQuality] = useState(0.8);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [isEncoding, setIsEncoding] = useState(false);
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  const crop = natural ? cropAroundFocus(natural.width, natural.height, aspectRatio(aspectId), focus, zoom) : null;
+  const output = natural && crop ? cropOutputSize(natural.width, natural.height, crop, slot.maxWidth) : null;
+
+  const handlePointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointermove' && e.buttons !== 1) return;
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    setFocus(pointerPercent(e, e.currentTarget));
+  };
+
+  const handleApply = () => {
+    const img = imgRef.current;
+    if (!img || !natural || !crop || !output) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = output.width;
+    canvas.height = output.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    setIsEncoding(true);
+    // JPEG has no alpha; flatten transparent PNGs onto white instead of black
+    if (format === 'image/jpeg') {
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, output.width, output.height);
+    }
+    ctx.drawImage(
+      img,
+      (crop.x / 100) * natural.width, (crop.y / 100) * natural.height,
+      (crop.width / 100) * natural.width, (crop.height / 100) * natural.height,
+      0, 0, output.width, output.height
+    );
+    canvas.toBlob((blob) => {
+      setIsEncoding(false);
+      if (blob) onApply(blob, focusWithinCrop(focus, crop));
+      else alert(t('edit.encodeFailed'));
+    }, format, quality);
+  };
+
+  const optionClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-bold border transition-colors ${active ? 'bg-primary text-white border-primary' : 'bg-white text-gray-600 border-gray-200 hover:border-accent'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-900 rounded-lg overflow-hidden flex justify-center">
+        <div
+          className="relative overflow-hidden cursor-crosshair touch-none select-none"
+          onPointerDown={handlePointer}
+          onPointerMove={handlePointer}
+        >
+          <img
+            ref={imgRef}
+            src={src}
+            alt={t('edit.cropSource')}
+            className="block max-h-64 w-auto"
+            draggable={false}
+            onLoad={(e) => {
+              const { naturalWidth, naturalHeight } = e.target as HTMLImageElement;
+              setNatural({ width: naturalWidth, height: naturalHeight });
+            }}
+          />
+          {crop && (
+            <div
+              className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none"
+              style={{ left: `${crop.x}%`, top: `${crop.y}%`, width: `${crop.width}%`, height: `${crop.height}%` }}
+            ></div>
+          )}
+          <div
+            className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-accent bg-white/30 pointer-events-none"
+            style={{ left: `${focus.x}%`, top: `${focus.y}%` }}
+          ></div>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 flex items-center gap-1"><Crosshair size={12} /> {t('edit.cropHint')}</p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-500 w-10">{t('edit.aspect')}</span>
+        {ASPECT_PRESETS.map(preset => (
+          <button key={preset.id} onClick={() => setAspectId(preset.id)} className={optionClass(aspectId === preset.id)}>
+            {preset.id === 'original' ? t('edit.aspectOriginal') : preset.label}
+            {preset.id === slot.aspect && preset.id !== 'original' ? ` ${t('edit.recommended')}` : ''}
+          </button>
+        ))}
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="font-bold w-10">{t('edit.zoom')}</span>
+        <input type="range" min={1} max={3} step={0.1} value={zoom} onChange={(e) => setZoom(Number(e.target.value))} className="flex-1 accent-accent" />
+        <span className="w-10 text-right">{zoom.toFixed(1)}x</span>
+      </label>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs font-bold text-gray-500 w-10">{t('edit.format')}</span>
+        {OUTPUT_FORMATS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setFormat(option.id)}
+            disabled={option.id === 'image/webp' && !supportsWebpEncoding()}
+            className={`${optionClass(format === option.id)} disabled:opacity-40`}
+          >
+            {option.label}
+          </button>
+        ))}
+        {output && <span className="ml-auto text-xs text-gray-400">{output.width}×{output.height}px</span>}
+      </div>
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="font-bold w-10">{t('edit.quality')}</span>
+        <input type="range" min={0.4} max={0.95} step={0.05} value={quality} onChange={(e) => setQuality(Number(e.target.value))} className="flex-1 accent-accent" />
+        <span className="w-10 text-right">{Math.round(quality * 100)}%</span>
+      </label>
+
+      <div className="flex gap-2 justify-end">
+        <button onClick={onCancel} className="px-4 py-2 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 text-sm font-medium">
+          {t('edit.cancel')}
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={!crop || isEncoding}
+          className="px-4 py-2 rounded-lg bg-accent text-white hover:bg-accent-dark text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+        >
+          <Crop size={16} /> {isEncoding ? t('edit.processing') : t('edit.cropApply')}
+        </button>
+      </div>
+    </div>
+  );
 };
 
 // --- Custom Modal Component ---
@@ -45,57 +645,107 @@ const EditModal = ({
   isOpen, 
   onClose, 
   onSave, 
+  onRevert,
   initialValue, 
+  initialFocus = null,
+  defaultValue,
+  sourceText,
+  isCustomized,
+  slot,
   type 
 }: { 
   isOpen: boolean; 
   onClose: () => void; 
-  onSave: (value: string) => void; 
+  onSave: (value: string, focus: FocalPoint | null) => void; 
+  onRevert: () => void;
   initialValue: string; 
+  initialFocus?: FocalPoint | null;
+  defaultValue?: string;
+  sourceText?: string;
+  isCustomized: boolean;
+  slot: ImageSlot;
   type: EditType;
 }) => {
+  const { locale, t } = useLocale();
   const [value, setValue] = useState(initialValue);
+  const [focus, setFocus] = useState<FocalPoint | null>(initialFocus);
+  // Object URLs created here for picked files are revoked; resolved asset URLs are shared
+  const [cropSource, setCropSource] = useState<{ url: string; owned: boolean } | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewSrc = useAssetSrc(value);
+  const previewRatio = aspectRatio(slot.aspect) ?? 16 / 9;
 
   useEffect(() => {
     setValue(initialValue);
+    setFocus(initialFocus);
+    setCropSource(null);
   }, [initialValue, isOpen]);
 
+  useEffect(() => () => {
+    if (cropSource?.owned) URL.revokeObjectURL(cropSource.url);
+  }, [cropSource]);
+
+  const applyTextEdit = (edit: TextEdit) => {
+    setValue(edit.value);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  const wrapSelection = (marker: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    applyTextEdit(toggleWrap(value, textarea.selectionStart, textarea.selectionEnd, marker));
+  };
+
+  const addLink = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const href = window.prompt(t('edit.linkPrompt'))?.trim();
+    if (!href) return;
+    if (!isSafeHref(href)) {
+      alert(t('edit.linkInvalid'));
+      return;
+    }
+    applyTextEdit(insertLink(value, selectionStart, selectionEnd, href));
+  };
+
+  const handleTextKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'b' || key === 'i') {
+      e.preventDefault();
+      wrapSelection(key === 'b' ? '**' : '*');
+    }
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      setIsProcessing(true);
-      const reader = new FileReader();
-      
-      reader.onload = (event) => {
-        const img = new Image();
-        img.onload = () => {
-          const canvas = document.createElement('canvas');
-          let width = img.width;
-          let height = img.height;
-          
-          // Resize logic: Max width 1200px to save storage
-          const MAX_WIDTH = 1200;
-          if (width > MAX_WIDTH) {
-            height = (height * MAX_WIDTH) / width;
-            width = MAX_WIDTH;
-          }
+    e.target.value = '';
+    if (file) setCropSource({ url: URL.createObjectURL(file), owned: true });
+  };
 
-          canvas.width = width;
-          canvas.height = height;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-             ctx.drawImage(img, 0, 0, width, height);
-             // Compress to JPEG 0.7 quality
-             const dataUrl = canvas.toDataURL('image/jpeg', 0.7);
-             setValue(dataUrl);
-             setIsProcessing(false);
-          }
-        };
-        img.src = event.target?.result as string;
-      };
-      reader.readAsDataURL(file);
+  const handleCropApply = async (blob: Blob, croppedFocus: FocalPoint) => {
+    setIsProcessing(true);
+    try {
+      const estimate = await estimateAssetStorage();
+      if (estimate && estimate.quota > 0 && estimate.usage + blob.size > estimate.quota) {
+        alert(t('edit.quotaExceeded', { needed: formatBytes(blob.size), free: formatBytes(Math.max(0, estimate.quota - estimate.usage)) }));
+        return;
+      }
+      setValue(await putAsset(blob));
+      setFocus(croppedFocus);
+      setUploadedBytes(prev => prev + blob.size);
+      setCropSource(null);
+    } catch (err) {
+      alert(t('edit.uploadFailed'));
+    } finally {
+      setIsProcessing(false);
     }
   };
 
@@ -104,37 +754,87 @@ const EditModal = ({
   return (
     <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
       <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden transform transition-all scale-100">
-        <div className="bg-[#0F172A] text-white px-6 py-4 flex justify-between items-center">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
           <h3 className="text-lg font-bold flex items-center gap-2">
             {type === 'text' ? <Pen size={18} /> : <ImageIcon size={18} />}
-            {type === 'text' ? '텍스트 수정' : '이미지 변경'}
+            {type === 'text' ? t('edit.titleText') : t('edit.titleImage')}
           </h3>
           <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
             <X size={24} />
           </button>
         </div>
         
-        <div className="p-6">
+        <div className="p-6 max-h-[85vh] overflow-y-auto">
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              {type === 'text' ? '내용을 입력하세요' : '이미지 주소 입력 또는 파일 업로드'}
+              {type === 'image'
+                ? t('edit.promptImage')
+                : sourceText !== undefined
+                  ? t('edit.promptTranslation', { locale: LOCALES.find(option => option.id === locale)?.label ?? locale })
+                  : t('edit.promptText')}
             </label>
             
             {type === 'text' ? (
-              <textarea
-                value={value}
-                onChange={(e) => setValue(e.target.value)}
-                className="w-full h-32 px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-[#D4AF37] focus:border-transparent outline-none resize-none bg-slate-50"
+              <div className="space-y-3">
+                {sourceText !== undefined && (
+                  <div>
+                    <div className="text-xs font-bold text-gray-400 mb-1">{t('edit.source')}</div>
+                    <div className="px-4 py-3 rounded-lg bg-gray-50 text-sm text-gray-600 leading-relaxed max-h-28 overflow-y-auto">
+                      <RichText text={sourceText} inert />
+                    </div>
+                  </div>
+                )}
+                <div className="rounded-lg border border-gray-300 overflow-hidden focus-within:ring-2 focus-within:ring-accent focus-within:border-transparent">
+                  <div className="flex items-center gap-1 px-2 py-1.5 bg-white border-b border-gray-200">
+                    {[
+                      { label: t('edit.bold'), icon: <Bold size={16} />, onClick: () => wrapSelection('**') },
+                      { label: t('edit.italic'), icon: <Italic size={16} />, onClick: () => wrapSelection('*') },
+                      { label: t('edit.accent'), icon: <Highlighter size={16} className="text-accent" />, onClick: () => wrapSelection('==') },
+                      { label: t('edit.link'), icon: <Link2 size={16} />, onClick: addLink },
+                    ].map(tool => (
+                      <button
+                        key={tool.label}
+                        type="button"
+                        onClick={tool.onClick}
+                        title={tool.label}
+                        className="p-1.5 rounded text-gray-600 hover:bg-gray-100 hover:text-primary"
+                      >
+                        {tool.icon}
+                      </button>
+                    ))}
+                    <span className="ml-auto text-[11px] text-gray-400">{t('edit.newlineHint')}</span>
+                  </div>
+                  <textarea
+                    ref={textareaRef}
+                    value={value}
+                    onChange={(e) => setValue(e.target.value)}
+                    onKeyDown={handleTextKeyDown}
+                    className="w-full h-32 px-4 py-3 outline-none resize-none bg-slate-50 block"
+                  />
+                </div>
+                <div>
+                  <div className="text-xs font-bold text-gray-400 mb-1">{t('edit.preview')}</div>
+                  <div className="px-4 py-3 rounded-lg border border-dashed border-gray-200 text-sm text-gray-800 leading-relaxed min-h-[3rem]">
+                    <RichText text={value} inert />
+                  </div>
+                </div>
+              </div>
+            ) : cropSource ? (
+              <ImageCropper
+                src={cropSource.url}
+                slot={slot}
+                onCancel={() => setCropSource(null)}
+                onApply={handleCropApply}
               />
             ) : (
               <div className="space-y-4">
                 <div className="flex gap-2">
                     <input
                       type="text"
-                      value={value}
+                      value={isAssetRef(value) ? '' : value}
                       onChange={(e) => setValue(e.target.value)}
-                      className="flex-1 px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-[#D4AF37] focus:border-transparent outline-none bg-slate-50 text-sm"
-                      placeholder="https://..."
+                      className="flex-1 px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm"
+                      placeholder={isAssetRef(value) ? t('edit.uploadedImage') : 'https://...'}
                     />
                     <input
                         type="file"
@@ -148,39 +848,71 @@ const EditModal = ({
                         disabled={isProcessing}
                         className="px-4 py-2 bg-gray-100 text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2 font-medium whitespace-nowrap text-sm disabled:opacity-50"
                     >
-                        <Upload size={16} /> {isProcessing ? '처리중...' : '내 PC'}
+                        <Upload size={16} /> {isProcessing ? t('edit.processing') : t('edit.upload')}
                     </button>
                 </div>
-                <p className="text-xs text-gray-500">* 내 PC 이미지는 자동으로 최적화(압축)되어 저장됩니다.</p>
+                <p className="text-xs text-gray-500">{t('edit.uploadNote')}</p>
+                <StorageMeter pendingBytes={uploadedBytes} />
 
-                <div className="relative aspect-video bg-gray-100 rounded-lg overflow-hidden border border-gray-200 group">
+                <div
+                  className="relative max-h-72 mx-auto bg-gray-100 rounded-lg overflow-hidden border border-gray-200 group cursor-crosshair"
+                  style={{ aspectRatio: `${previewRatio}` }}
+                  onClick={(e) => setFocus(pointerPercent(e, e.currentTarget))}
+                  title={t('edit.previewFocus')}
+                >
                   <img 
-                    src={value || 'about:blank'} 
+                    src={previewSrc || 'about:blank'} 
                     alt="Preview" 
                     className="w-full h-full object-cover"
+                    style={{ objectPosition: focalPosition(focus) }}
                     onError={(e) => { (e.target as HTMLImageElement).src = 'https://placehold.co/600x400?text=Invalid+Image+URL'; }}
                   />
+                  {focus && (
+                    <div
+                      className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-accent bg-white/30 pointer-events-none"
+                      style={{ left: `${focus.x}%`, top: `${focus.y}%` }}
+                    ></div>
+                  )}
                   <div className="absolute bottom-0 left-0 right-0 bg-black/50 text-white text-xs py-1 text-center">
-                    미리보기
+                    {t('edit.previewFocus')}
                   </div>
                 </div>
+                {isAssetRef(value) && previewSrc && (
+                  <button
+                    onClick={() => setCropSource({ url: previewSrc, owned: false })}
+                    className="text-xs font-bold text-primary hover:text-accent flex items-center gap-1"
+                  >
+                    <Crop size={14} /> {t('edit.recrop')}
+                  </button>
+                )}
               </div>
             )}
           </div>
           
           <div className="flex gap-3 justify-end pt-2">
+            {!cropSource && defaultValue !== undefined && isCustomized && (
+              <button 
+                onClick={onRevert}
+                className="mr-auto px-4 py-2.5 rounded-lg text-gray-500 hover:text-red-500 font-medium transition-colors flex items-center gap-2 text-sm"
+                title={t('edit.revertTitle')}
+              >
+                <RotateCcw size={16} />
+                {t('edit.revert')}
+              </button>
+            )}
             <button 
               onClick={onClose}
               className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
             >
-              취소
+              {t('edit.cancel')}
             </button>
             <button 
-              onClick={() => onSave(value)}
-              className="px-5 py-2.5 rounded-lg bg-[#0F172A] text-white hover:bg-[#D4AF37] font-bold shadow-lg transition-colors flex items-center gap-2"
+              onClick={() => onSave(value, focus)}
+              disabled={!!cropSource || isProcessing}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2 disabled:opacity-50"
             >
               <Save size={18} />
-              저장하기
+              {t('edit.save')}
             </button>
           </div>
         </div>
@@ -189,530 +921,3479 @@ const EditModal = ({
   );
 };
 
-// --- Editable Components ---
+// --- Import Modal Component ---
+interface PendingImport {
+  fileName: string;
+  content: Record<string, string>;
+  unknownKeys: string[];
+  invalidKeys: string[];
+  diff: ContentDiff;
+}
 
-const EditableText = ({ 
-  id, 
-  defaultText, 
-  className = '', 
-  tag: Tag = 'div'
-}: { 
-  id: string, 
-  defaultText: string, 
-  className?: string, 
-  tag?: any
+const DiffKeyList = ({ title, keys, className }: { title: string, keys: string[], className: string }) => (
+  <div>
+    <div className={`text-sm font-bold mb-1 ${className}`}>{title} ({keys.length})</div>
+    {keys.length > 0 && (
+      <ul className="text-xs text-gray-600 font-mono bg-slate-50 rounded-lg p-2 max-h-28 overflow-y-auto space-y-0.5">
+        {keys.map((key) => <li key={key}>{key}</li>)}
+      </ul>
+    )}
+  </div>
+);
+
+const ImportModal = ({
+  pending,
+  onClose,
+  onApply
+}: {
+  pending: PendingImport | null;
+  onClose: () => void;
+  onApply: (mode: ImportMode) => void;
 }) => {
-  const { isEditMode, content, openEditor } = useEdit();
-  const currentText = content[id] || defaultText;
+  if (!pending) return null;
 
-  const handleClick = (e: React.MouseEvent) => {
-    if (!isEditMode) return;
-    e.stopPropagation();
-    openEditor(id, currentText, 'text');
-  };
+  const { diff, unknownKeys, invalidKeys } = pending;
+  const hasChanges = diff.added.length > 0 || diff.changed.length > 0;
 
   return (
-    <Tag 
-      onClick={handleClick}
-      className={`${className} ${isEditMode ? 'cursor-pointer hover:bg-yellow-50 hover:outline hover:outline-2 hover:outline-dashed hover:outline-[#D4AF37] rounded px-1 -mx-1 transition-all relative' : ''}`}
-      title={isEditMode ? "클릭하여 텍스트 수정" : ""}
-    >
-      {currentText.split('\n').map((line, i) => (
-        <React.Fragment key={i}>
-          {line}
-          {i < currentText.split('\n').length - 1 && <br />}
-        </React.Fragment>
-      ))}
-    </Tag>
-  );
-};
-
-const EditableImage = ({ 
-  id, 
-  defaultSrc, 
-  alt, 
-  className = '' 
-}: { 
-  id: string, 
-  defaultSrc: string, 
-  alt: string, 
-  className?: string 
-}) => {
-  const { isEditMode, content, openEditor } = useEdit();
-  const currentSrc = content[id] || defaultSrc;
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <FileUp size={18} /> 설정 가져오기
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
 
-  const handleClick = (e: React.MouseEvent) => {
-    if (!isEditMode) return;
-    e.stopPropagation();
-    openEditor(id, currentSrc, 'image');
-  };
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-500">
+            <span className="font-bold text-gray-800">{pending.fileName}</span> 파일을 현재 내용과 비교한 결과입니다.
+          </p>
+          <DiffKeyList title="추가" keys={diff.added} className="text-green-600" />
+          <DiffKeyList title="변경" keys={diff.changed} className="text-accent" />
+          <DiffKeyList title="삭제 (교체 시)" keys={diff.dropped} className="text-red-500" />
+          {(unknownKeys.length > 0 || invalidKeys.length > 0) && (
+            <DiffKeyList title="무시됨 (알 수 없는 키 / 잘못된 값)" keys={[...unknownKeys, ...invalidKeys]} className="text-gray-400" />
+          )}
 
-  return (
-    <div 
-      className={`relative group ${className} ${isEditMode ? 'cursor-pointer hover:outline hover:outline-4 hover:outline-dashed hover:outline-[#D4AF37] rounded-lg overflow-hidden' : ''}`}
-      onClick={handleClick}
-    >
-      <img src={currentSrc} alt={alt} className={`w-full h-full object-cover ${className}`} />
-      {isEditMode && (
-        <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
-          <div className="bg-white text-[#0F172A] px-4 py-2 rounded-full font-bold flex items-center gap-2 shadow-xl transform scale-105">
-            <ImageIcon size={18} /> 이미지 변경
+          <div className="flex gap-3 justify-end pt-2">
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button
+              onClick={() => onApply('merge')}
+              disabled={!hasChanges}
+              className="px-5 py-2.5 rounded-lg border-2 border-primary text-primary hover:bg-primary hover:text-white font-bold transition-colors disabled:opacity-40 disabled:pointer-events-none"
+            >
+              병합하기
+            </button>
+            <button
+              onClick={() => onApply('replace')}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors"
+            >
+              교체하기
+            </button>
           </div>
         </div>
-      )}
+      </div>
     </div>
   );
 };
 
-// --- Reusable UI Components ---
+// --- Publish & Snapshots ---
+const PublishModal = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { draft, published, publish, discardDraft } = useVersions();
+  const [isPublishing, setIsPublishing] = useState(false);
 
-const Button = ({ children, onClick, variant = 'primary', className = '' }: any) => {
-  const baseStyle = "px-6 py-3 rounded-md font-medium transition-all duration-300 flex items-center justify-center gap-2";
-  const variants = {
-    primary: "bg-[#0F172A] text-white hover:bg-[#D4AF37] hover:text-white shadow-lg",
-    secondary: "bg-[#D4AF37] text-white hover:bg-[#b89628] shadow-md",
-    outline: "border-2 border-[#0F172A] text-[#0F172A] hover:bg-[#0F172A] hover:text-white",
-    ghost: "text-[#0F172A] hover:text-[#D4AF37]"
+  if (!isOpen) return null;
+
+  const diff = diffContent(published, draft);
+  const hasChanges = diff.added.length + diff.changed.length + diff.dropped.length > 0;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    try {
+      await publish();
+      onClose();
+    } finally {
+      setIsPublishing(false);
+    }
   };
-  
+
+  const handleDiscard = () => {
+    if (window.confirm('게시되지 않은 변경사항을 모두 버리고 현재 게시된 내용으로 되돌리시겠습니까?\n실행 취소(Ctrl+Z)로 되돌릴 수 있습니다.')) {
+      discardDraft();
+      onClose();
+    }
+  };
+
   return (
-    <button 
-      onClick={onClick} 
-      className={`${baseStyle} ${variants[variant as keyof typeof variants]} ${className}`}
-    >
-      {children}
-    </button>
-  );
-};
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-lg mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Send size={18} /> 게시하기
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
 
-const SectionHeading = ({ title, subtitle, align = 'center', idPrefix }: { title: string, subtitle?: string, align?: 'left' | 'center', idPrefix: string }) => (
+        <div className="p-6 space-y-4">
+          {hasChanges ? (
+            <>
+              <p className="text-sm text-gray-500">
+                편집 중인 초안을 방문자에게 공개합니다. 게시 직전 상태는 스냅샷으로 자동 저장됩니다.
+              </p>
+              <DiffKeyList title="추가" keys={diff.added} className="text-green-600" />
+              <DiffKeyList title="변경" keys={diff.changed} className="text-accent" />
+              <DiffKeyList title="삭제" keys={diff.dropped} className="text-red-500" />
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 py-6 text-center">게시된 내용과 초안이 같습니다.</p>
+          )}
+
+          <div className="flex gap-3 justify-end pt-2">
+            {hasChanges && (
+              <button
+                onClick={handleDiscard}
+                className="mr-auto px-4 py-2.5 rounded-lg text-gray-500 hover:text-red-500 font-medium transition-colors flex items-center gap-2 text-sm"
+              >
+                <RotateCcw size={16} /> 초안 폐기
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button
+              onClick={handlePublish}
+              disabled={!hasChanges || isPublishing}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Send size={18} /> {isPublishing ? '게시 중...' : '게시하기'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const SnapshotsPanel = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { draft, setPreview, restoreSnapshot } = useVersions();
+  const { can } = useAuth();
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [name, setName] = useState('');
+  const [comparingId, setComparingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError('');
+    getSnapshotsAdapter().list()
+      .then(setSnapshots)
+      .catch(() => setError('스냅샷을 불러오지 못했습니다.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const saveSnapshot = async () => {
+    try {
+      const snapshot = await getSnapshotsAdapter().save(name, draft);
+      setSnapshots(prev => [snapshot, ...prev]);
+      setName('');
+    } catch (e) {
+      alert('스냅샷을 저장하지 못했습니다.');
+    }
+  };
+
+  const removeSnapshot = async (snapshot: Snapshot) => {
+    if (!window.confirm(`'${snapshot.name}' 스냅샷을 삭제하시겠습니까?`)) return;
+    try {
+      await getSnapshotsAdapter().remove(snapshot.id);
+      setSnapshots(prev => prev.filter(item => item.id !== snapshot.id));
+    } catch (e) {
+      alert('스냅샷을 삭제하지 못했습니다.');
+    }
+  };
+
+  const handleRestore = (snapshot: Snapshot) => {
+    if (window.confirm(`'${snapshot.name}' 스냅샷을 초안으로 복원하시겠습니까?\n게시하기 전까지 방문자에게는 보이지 않습니다.`)) {
+      restoreSnapshot(snapshot);
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <History size={18} /> 스냅샷 ({snapshots.length})
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-100 flex gap-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && saveSnapshot()}
+            placeholder="스냅샷 이름 (예: 11월 분양 캠페인)"
+            className="flex-1 px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm"
+          />
+          <button
+            onClick={saveSnapshot}
+            className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-accent transition-colors flex items-center gap-2 font-bold whitespace-nowrap text-sm"
+          >
+            <Camera size={16} /> 현재 초안 저장
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {isLoading ? (
+            <p className="text-center text-gray-400 py-16">불러오는 중...</p>
+          ) : error ? (
+            <p className="text-center text-red-500 py-16">{error}</p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center text-gray-400 py-16">저장된 스냅샷이 없습니다.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {snapshots.map(snapshot => {
+                const diff = comparingId === snapshot.id ? diffContent(draft, snapshot.content) : null;
+                return (
+                  <li key={snapshot.id} className="px-6 py-4">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-bold text-gray-800 truncate flex items-center gap-2">
+                          {snapshot.name}
+                          {snapshot.kind === 'publish' && (
+                            <span className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-green-50 text-green-700 border border-green-200">게시</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-400">{new Date(snapshot.createdAt).toLocaleString('ko-KR')}</div>
+                      </div>
+                      <button
+                        onClick={() => {
+                          setPreview(snapshot);
+                          onClose();
+                        }}
+                        className="p-2 rounded-lg text-gray-500 hover:bg-gray-100 hover:text-primary"
+                        title="미리보기"
+                      >
+                        <Eye size={18} />
+                      </button>
+                      <button
+                        onClick={() => setComparingId(comparingId === snapshot.id ? null : snapshot.id)}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${comparingId === snapshot.id ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+                      >
+                        비교
+                      </button>
+                      <button
+                        onClick={() => handleRestore(snapshot)}
+                        className="px-3 py-1.5 rounded-lg text-xs font-bold bg-accent text-white hover:bg-accent-dark transition-colors"
+                      >
+                        복원
+                      </button>
+                      {can('publish') && (
+                        <button
+                          onClick={() => removeSnapshot(snapshot)}
+                          className="p-2 rounded-lg text-gray-400 hover:bg-red-50 hover:text-red-500"
+                          title="삭제"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                    {diff && (
+                      <div className="mt-4 space-y-3 pl-3 border-l-2 border-accent/40">
+                        <p className="text-xs text-gray-500">현재 초안에 이 스냅샷을 복원하면:</p>
+                        <DiffKeyList title="추가" keys={diff.added} className="text-green-600" />
+                        <DiffKeyList title="변경" keys={diff.changed} className="text-accent" />
+                        <DiffKeyList title="삭제" keys={diff.dropped} className="text-red-500" />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- SEO Panel Component ---
+const SeoImageOption = ({ id, src, selected, onSelect }: { id: string; src: string; selected: boolean; onSelect: () => void }) => {
+  const resolved = useAssetSrc(src);
+  return (
+    <button
+      type="button"
+      onClick={onSelect}
+      className={`relative aspect-video rounded-lg overflow-hidden border-2 transition-colors ${selected ? 'border-accent' : 'border-transparent hover:border-gray-300'}`}
+      title={id}
+    >
+      {resolved && <img src={resolved} alt={id} className="w-full h-full object-cover" />}
+      <span className="absolute bottom-0 inset-x-0 bg-black/50 text-white text-[10px] px-1 py-0.5 truncate">{id}</span>
+      {selected && <CheckCircle2 size={18} className="absolute top-1 right-1 text-accent bg-white rounded-full" />}
+    </button>
+  );
+};
+
+const LengthCounter = ({ value, limit }: { value: string; limit: number }) => (
+  <span className={`text-xs ${value.length > limit ? 'text-red-500 font-bold' : 'text-gray-400'}`}>
+    {value.length} / {limit}
+  </span>
+);
+
+const SeoPanel = ({ isOpen, onClose, route }: { isOpen: boolean; onClose: () => void; route: Route }) => {
+  const { draft } = useVersions();
+  const { replaceContent } = useEdit();
+  const { t } = useLocale();
+  const [page, setPage] = useState<SeoPage>('main');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPage(SEO_PAGES.find(option => option === route) ?? 'main');
+    setValues(Object.fromEntries(SEO_KEYS.map(key => [key, draft[key] ?? ''])));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const defaults = DEFAULT_PAGE_SEO[page];
+  const field = (name: SeoField) => values[seoKey(page, name)] ?? '';
+  const setField = (key: string, value: string) => setValues(prev => ({ ...prev, [key]: value }));
+
+  const siteUrl = values[SEO_SITE_URL_KEY]?.trim() ?? '';
+  const siteUrlError = siteUrl && !normalizeSiteUrl(siteUrl) ? 'https://example.com 형식의 주소를 입력하세요.' : '';
+  const invalidCanonicalPages = SEO_PAGES.filter(option => {
+    const value = values[seoKey(option, 'canonical')]?.trim();
+    return value && !isSitePath(value);
+  });
+  const canonicalError = invalidCanonicalPages.includes(page) ? '/로 시작하는 사이트 내 경로를 입력하세요.' : '';
+  const hasErrors = !!siteUrlError || invalidCanonicalPages.length > 0;
+
+  const imageId = field('image') || defaults.image;
+  const imageValue = draft[imageId] || DEFAULT_IMAGE_SRC[imageId] || '';
+  const preview = buildPageHead({ ...draft, ...values }, page, window.location.origin);
+  const previewDescription = preview.meta.find(tag => tag.key === 'description')?.content ?? '';
+
+  const save = () => {
+    if (hasErrors) return;
+    const next = { ...draft };
+    SEO_KEYS.forEach(key => {
+      const value = values[key]?.trim() ?? '';
+      if (value) next[key] = value;
+      else delete next[key];
+    });
+    if (!isContentEqual(next, draft)) replaceContent(next);
+    onClose();
+  };
+
+  const inputClass = 'w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden flex flex-col max-h-[90vh]">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <FileSearch size={18} /> 검색·공유 설정 (SEO)
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-2">사이트 주소</label>
+            <input
+              type="url"
+              value={values[SEO_SITE_URL_KEY] ?? ''}
+              onChange={(e) => setField(SEO_SITE_URL_KEY, e.target.value)}
+              placeholder="https://example.com"
+              className={inputClass}
+            />
+            {siteUrlError
+              ? <p className="text-xs text-red-500 mt-1">{siteUrlError}</p>
+              : <p className="text-xs text-gray-400 mt-1">대표 주소(canonical), 공유 링크와 sitemap.xml에 사용됩니다.</p>}
+          </div>
+
+          <div className="flex flex-wrap gap-2 border-b border-gray-100 pb-4">
+            {SEO_PAGES.map(option => (
+              <button
+                key={option}
+                onClick={() => setPage(option)}
+                className={`px-4 py-1.5 rounded-full text-sm font-bold border transition-colors ${page === option ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'} ${invalidCanonicalPages.includes(option) ? 'ring-2 ring-red-300' : ''}`}
+              >
+                {t(`nav.${option}` as UiStringKey)}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-bold text-gray-700">페이지 제목</label>
+              <LengthCounter value={field('title') || defaults.title} limit={TITLE_LIMIT} />
+            </div>
+            <input
+              type="text"
+              value={field('title')}
+              onChange={(e) => setField(seoKey(page, 'title'), e.target.value)}
+              placeholder={defaults.title}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="text-sm font-bold text-gray-700">설명</label>
+              <LengthCounter value={field('desc') || defaults.description} limit={DESCRIPTION_LIMIT} />
+            </div>
+            <textarea
+              value={field('desc')}
+              onChange={(e) => setField(seoKey(page, 'desc'), e.target.value.replace(/\n/g, ' '))}
+              placeholder={defaults.description}
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-2">공유 이미지 (Open Graph)</label>
+            <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+              {Object.keys(DEFAULT_IMAGE_SRC).map(id => (
+                <SeoImageOption
+                  key={id}
+                  id={id}
+                  src={draft[id] || DEFAULT_IMAGE_SRC[id]}
+                  selected={imageId === id}
+                  onSelect={() => setField(seoKey(page, 'image'), id === defaults.image ? '' : id)}
+                />
+              ))}
+            </div>
+            {!publicImageUrl(imageValue) && (
+              <p className="text-xs text-accent mt-2">업로드한 이미지는 정적 빌드(npm run build:static)에서 파일로 내보낸 뒤에 공유 이미지로 사용됩니다.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-bold text-gray-700 mb-2">대표 경로 (canonical)</label>
+            <input
+              type="text"
+              value={field('canonical')}
+              onChange={(e) => setField(seoKey(page, 'canonical'), e.target.value)}
+              placeholder={pathForPage(page)}
+              className={inputClass}
+            />
+            {canonicalError && <p className="text-xs text-red-500 mt-1">{canonicalError}</p>}
+          </div>
+
+          <div className="rounded-lg border border-gray-200 p-4 bg-slate-50">
+            <div className="text-xs font-bold text-gray-400 mb-2">검색 결과 미리보기</div>
+            <div className="text-xs text-green-700 truncate">{preview.canonical}</div>
+            <div className="text-lg text-blue-800 truncate">{preview.title}</div>
+            <p className="text-sm text-gray-600 line-clamp-2">{previewDescription}</p>
+          </div>
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-100 flex justify-end gap-3">
+          <button onClick={onClose} className="px-5 py-2 rounded-lg text-gray-600 hover:bg-gray-100 font-medium">
+            취소
+          </button>
+          <button
+            onClick={save}
+            disabled={hasErrors}
+            className="px-5 py-2 bg-primary text-white rounded-lg hover:bg-accent transition-colors flex items-center gap-2 font-bold disabled:opacity-50 disabled:hover:bg-primary"
+          >
+            <Save size={16} /> 적용하기
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Theme Panel Component ---
+const CONTRAST_BADGE: Record<ContrastLevel, string> = {
+  AAA: 'bg-green-100 text-green-700',
+  AA: 'bg-green-100 text-green-700',
+  'AA Large': 'bg-amber-100 text-amber-700',
+  Fail: 'bg-red-100 text-red-600',
+};
+
+const ColorField = ({ label, value, onChange }: { label: string; value: string; onChange: (value: string) => void }) => {
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  return (
+    <label className="block">
+      <span className="block text-xs font-medium text-gray-600 mb-1">{label}</span>
+      <div className="flex gap-2 items-center">
+        <input type="color" value={value} onChange={(e) => onChange(e.target.value.toUpperCase())} className="w-12 h-10 rounded border border-gray-300 cursor-pointer bg-white" />
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            if (/^#[0-9a-f]{6}$/i.test(e.target.value)) onChange(e.target.value.toUpperCase());
+          }}
+          onBlur={() => setText(value)}
+          className="w-28 px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm font-mono"
+        />
+      </div>
+    </label>
+  );
+};
+
+// Side drawer rather than a modal so the page stays visible: every change is
+// applied to the live page until the panel closes.
+const ThemePanel = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { content, updateContent } = useEdit();
+  const [draft, setDraft] = useState<Theme>(() => readTheme(content));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (isOpen) setDraft(readTheme(content));
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen) applyTheme(draft);
+  }, [isOpen, draft]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<Theme>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const save = () => {
+    updateContent(THEME_KEY, writeContentJson(draft));
+    onClose();
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        setDraft(parseThemeFile(event.target?.result as string));
+      } catch (err) {
+        alert(err instanceof ThemeImportError ? err.message : '테마 파일을 읽을 수 없습니다.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const checks = themeContrastChecks(draft);
+  const selectClass = "w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 z-[100] w-full max-w-md bg-white shadow-2xl flex flex-col animate-fade-in border-l border-gray-200">
+      <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Palette size={18} /> 테마 설정
+        </h3>
+        <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-6 space-y-6">
+        <p className="text-xs text-gray-500">변경 내용은 페이지에 바로 미리 적용되며, 저장하면 초안에 반영됩니다.</p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <ColorField label="주 색상" value={draft.primary} onChange={(primary) => update({ primary })} />
+          <ColorField label="강조 색상" value={draft.accent} onChange={(accent) => update({ accent })} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">본문 글꼴</span>
+            <select value={draft.fontSans} onChange={(e) => update({ fontSans: e.target.value })} className={selectClass}>
+              {SANS_FONTS.map(font => <option key={font.id} value={font.id}>{font.label}</option>)}
+            </select>
+          </label>
+          <label className="block">
+            <span className="block text-xs font-medium text-gray-600 mb-1">제목 글꼴</span>
+            <select value={draft.fontSerif} onChange={(e) => update({ fontSerif: e.target.value })} className={selectClass}>
+              {SERIF_FONTS.map(font => <option key={font.id} value={font.id}>{font.label}</option>)}
+            </select>
+          </label>
+        </div>
+
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-1">모서리</span>
+          <div className="grid grid-cols-4 gap-2">
+            {RADIUS_OPTIONS.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update({ radiusScale: option.value })}
+                className={`py-2 rounded-lg text-sm font-bold border transition-colors ${draft.radiusScale === option.value ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-2">명도 대비 (WCAG)</span>
+          <ul className="space-y-2">
+            {checks.map(check => (
+              <li key={check.id} className="flex items-center gap-3">
+                <span
+                  className="w-12 h-8 rounded flex items-center justify-center text-sm font-bold border border-gray-200 shrink-0"
+                  style={{ color: check.foreground, backgroundColor: check.background }}
+                >
+                  가A
+                </span>
+                <span className="flex-1 text-xs text-gray-600">{check.label}</span>
+                <span className="text-xs text-gray-500 font-mono">{check.ratio.toFixed(2)}:1</span>
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold whitespace-nowrap ${CONTRAST_BADGE[check.level]}`}>{check.level}</span>
+              </li>
+            ))}
+          </ul>
+          {checks.some(check => check.level === 'Fail') && (
+            <p className="mt-2 text-xs text-red-500">대비가 3:1보다 낮은 조합은 글자를 읽기 어렵습니다. 큰 제목이나 장식에만 사용하세요.</p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2 pt-2 border-t border-gray-100">
+          <button
+            onClick={() => downloadFile('site-theme.json', serializeTheme(draft), 'application/json')}
+            className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:border-accent flex items-center gap-1"
+          >
+            <Download size={14} /> 내보내기
+          </button>
+          <input type="file" ref={importInputRef} onChange={handleImportFile} accept="application/json,.json" className="hidden" />
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:border-accent flex items-center gap-1"
+          >
+            <FileUp size={14} /> 가져오기
+          </button>
+          <button
+            onClick={() => setDraft(DEFAULT_THEME)}
+            className="px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-600 hover:border-accent flex items-center gap-1"
+          >
+            <RotateCcw size={14} /> 기본 테마
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3 justify-end px-6 py-4 border-t border-gray-100">
+        <button 
+          onClick={onClose}
+          className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+        >
+          취소
+        </button>
+        <button 
+          onClick={save}
+          className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2"
+        >
+          <Save size={18} />
+          저장하기
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Section Outline Panel Component ---
+// Changes apply to the draft immediately, so each one is a single undo step.
+const SectionOutlinePanel = ({ isOpen, onClose, page }: { isOpen: boolean; onClose: () => void; page: LayoutPage }) => {
+  const { content, replaceContent } = useEdit();
+  const [layout] = usePageLayout(page);
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  if (!isOpen) return null;
+
+  const commit = (nextLayout: SectionInstance[], patch: Record<string, string> = {}, removeKeys: string[] = []) => {
+    const next = { ...content, ...patch, [layoutKey(page)]: writeContentJson(nextLayout) };
+    removeKeys.forEach(key => delete next[key]);
+    replaceContent(next);
+  };
+
+  const updateSection = (index: number, patch: Partial<SectionInstance>) =>
+    commit(layout.map((section, i) => i === index ? { ...section, ...patch } : section));
+
+  const moveTo = (from: number, to: number) => {
+    const next = moveItem(layout, from, to);
+    if (next !== layout) commit(next);
+  };
+
+  const duplicate = (index: number) => {
+    const result = duplicateSection(layout, index, content);
+    commit(result.layout, result.patch);
+  };
+
+  const add = (type: SectionType) => {
+    const section = createSection(type);
+    commit([...layout, section]);
+    setExpandedId(section.id);
+    setIsAdding(false);
+  };
+
+  const remove = (index: number) => {
+    if (!window.confirm(`'${SECTION_TYPES[layout[index].type].label}' 섹션을 삭제하시겠습니까?`)) return;
+    const result = removeSection(layout, index, content);
+    commit(result.layout, {}, result.removeKeys);
+  };
+
+  const toolbarButton = "p-1.5 text-gray-500 hover:text-primary hover:bg-gray-100 rounded disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 z-[100] w-full max-w-sm bg-white shadow-2xl flex flex-col animate-fade-in border-l border-gray-200">
+      <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Layers size={18} /> 섹션 구성
+        </h3>
+        <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-4">
+        <p className="text-xs text-gray-500 mb-4 px-2">끌어서 순서를 바꾸고, 눈 아이콘으로 섹션을 숨깁니다. 복제하거나 추가한 섹션의 문구와 이미지는 따로 수정됩니다.</p>
+        <ul className="space-y-2">
+          {layout.map((section, index) => {
+            const definition = SECTION_TYPES[section.type];
+            const isExpanded = expandedId === section.id;
+            return (
+              <li
+                key={section.id}
+                draggable={handleIndex === index}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) moveTo(dragIndex, index);
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setHandleIndex(null);
+                }}
+                className={`rounded-lg border bg-white ${dragIndex === index ? 'opacity-50' : ''} ${section.hidden ? 'border-dashed border-gray-300' : 'border-gray-200'}`}
+              >
+                <div className="flex items-center gap-1 px-2 py-2">
+                  <span
+                    className="p-1.5 text-gray-400 hover:text-gray-600 cursor-grab"
+                    title="끌어서 순서 변경"
+                    onMouseDown={() => setHandleIndex(index)}
+                    onMouseUp={() => setHandleIndex(null)}
+                  >
+                    <GripVertical size={16} />
+                  </span>
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : section.id)}
+                    className={`flex-1 text-left text-sm font-bold truncate ${section.hidden ? 'text-gray-400 line-through' : 'text-primary'}`}
+                    title="섹션 설정"
+                  >
+                    {definition.label}
+                    {!isPrimarySection(section) && page === 'main' && <span className="ml-2 text-[10px] font-normal text-accent">추가</span>}
+                  </button>
+                  <button onClick={() => moveTo(index, index - 1)} disabled={index === 0} className={toolbarButton} title="위로">
+                    <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => moveTo(index, index + 1)} disabled={index === layout.length - 1} className={toolbarButton} title="아래로">
+                    <ChevronDown size={14} />
+                  </button>
+                  <button onClick={() => updateSection(index, { hidden: !section.hidden })} className={toolbarButton} title={section.hidden ? '보이기' : '숨기기'}>
+                    {section.hidden ? <EyeOff size={14} /> : <Eye size={14} />}
+                  </button>
+                  <button onClick={() => duplicate(index)} className={toolbarButton} title="복제">
+                    <Copy size={14} />
+                  </button>
+                  <button
+                    onClick={() => remove(index)}
+                    disabled={isPrimarySection(section)}
+                    className={`${toolbarButton} hover:text-red-500`}
+                    title={isPrimarySection(section) ? '기본 섹션은 숨기기만 할 수 있습니다' : '삭제'}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {isExpanded && (
+                  <div className="border-t border-gray-100 px-4 py-3 space-y-3 bg-slate-50 rounded-b-lg">
+                    {definition.settings.map(setting => (
+                      <div key={setting.key}>
+                        <span className="block text-xs font-medium text-gray-600 mb-1">{setting.label}</span>
+                        <div className="flex flex-wrap gap-2">
+                          {setting.options.map(option => (
+                            <button
+                              key={option.value}
+                              onClick={() => updateSection(index, { settings: { ...section.settings, [setting.key]: option.value } })}
+                              className={`px-3 py-1 rounded-full text-xs font-bold border transition-colors ${sectionSetting(section, setting.key) === option.value ? 'bg-primary text-white border-primary' : 'bg-white border-gray-200 text-gray-600 hover:border-accent'}`}
+                            >
+                              {option.label}
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {isAdding ? (
+          <div className="mt-4 rounded-lg border border-gray-200 p-3">
+            <span className="block text-xs font-medium text-gray-600 mb-2">추가할 섹션</span>
+            <div className="flex flex-wrap gap-2">
+              {(Object.keys(SECTION_TYPES) as SectionType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => add(type)}
+                  className="px-3 py-1 rounded-full text-xs font-bold border bg-white border-gray-200 text-gray-600 hover:border-accent transition-colors"
+                >
+                  {SECTION_TYPES[type].label}
+                </button>
+              ))}
+              <button onClick={() => setIsAdding(false)} className="px-3 py-1 text-xs text-gray-500 hover:text-primary">취소</button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setIsAdding(true)}
+            className="mt-4 w-full py-3 rounded-lg border-2 border-dashed border-accent text-accent font-bold text-sm flex items-center justify-center gap-2 hover:bg-accent/5 transition-colors"
+          >
+            <Plus size={16} /> 섹션 추가
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Pages Panel Component ---
+// Creates, renames, reorders and deletes pages in the page registry (lib/pages.ts).
+// Like the section outline, every change is applied to the draft as one undo step.
+const PagesPanel = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { content, replaceContent } = useEdit();
+  const { route, navigate, replacePath } = useRouter();
+  const pageLabel = usePageLabel();
+  const [expandedId, setExpandedId] = useState<PageId | null>(null);
+  const [form, setForm] = useState({ title: '', slug: '' });
+  const [isCreating, setIsCreating] = useState(false);
+  const [templateId, setTemplateId] = useState(PAGE_TEMPLATES[0].id);
+
+  if (!isOpen) return null;
+
+  const registry = readPageRegistry(content);
+
+  const commit = (nextRegistry: PageEntry[], patch: Record<string, string> = {}, removeKeys: string[] = []) => {
+    const next = { ...content, ...patch, [PAGE_REGISTRY_KEY]: writeContentJson(nextRegistry) };
+    removeKeys.forEach(key => delete next[key]);
+    replaceContent(next);
+  };
+
+  const updateEntry = (index: number, patch: Partial<PageEntry>) =>
+    commit(registry.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+
+  const moveTo = (from: number, to: number) => {
+    const next = moveItem(registry, from, to);
+    if (next !== registry) commit(next);
+  };
+
+  const openForm = (id: PageId | null) => {
+    const entry = id ? findPageEntry(registry, id) : undefined;
+    setForm({ title: entry?.title ?? '', slug: entry?.slug ?? '' });
+    setExpandedId(id);
+    setIsCreating(false);
+  };
+
+  const title = form.title.trim();
+  const slug = form.slug.trim();
+  const formSlugError = (id?: PageId) => slugError(slug, registry, id);
+
+  const rename = (index: number) => {
+    const entry = registry[index];
+    if (isCustomPageId(entry.id) && (!title || formSlugError(entry.id))) return;
+    updateEntry(index, isCustomPageId(entry.id) ? { title, slug } : { title });
+    if (route === entry.id && isCustomPageId(entry.id) && entry.slug !== slug) replacePath(`/${slug}`);
+    setExpandedId(null);
+  };
+
+  const create = () => {
+    const template = PAGE_TEMPLATES.find(option => option.id === templateId) ?? PAGE_TEMPLATES[0];
+    if (!title || formSlugError()) return;
+    const page = createCustomPage(title, slug, template);
+    commit([...registry, page.entry], { [layoutKey(page.id)]: writeContentJson(page.layout) });
+    setIsCreating(false);
+    onClose();
+    navigate(page.id, `/${slug}`);
+  };
+
+  const remove = (index: number) => {
+    const { id, title } = registry[index];
+    if (!isCustomPageId(id)) return;
+    if (!window.confirm(`'${title}' 페이지와 그 안의 문구·이미지를 삭제하시겠습니까?`)) return;
+    const layout = readContentJson(content, layoutKey(id), [], isPageLayout);
+    if (route === id) navigate('main');
+    commit(registry.filter((_, i) => i !== index), {}, pageContentKeys(id, layout, content));
+  };
+
+  const toolbarButton = "p-1.5 text-gray-500 hover:text-primary hover:bg-gray-100 rounded disabled:opacity-30 disabled:pointer-events-none";
+  const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-white text-sm';
+  const toggleClass = (active: boolean) =>
+    `px-2 py-0.5 rounded-full text-[10px] font-bold border transition-colors ${active ? 'bg-primary text-white border-primary' : 'bg-white border-gray-200 text-gray-400 hover:border-accent'}`;
+
+  // Name and address fields of the page being renamed, or of a new page
+  const renderFields = (entry?: PageEntry) => {
+    const isCustom = !entry || isCustomPageId(entry.id);
+    const error = isCustom && (form.slug || entry) ? formSlugError(entry?.id) : null;
+    return (
+      <>
+        <div>
+          <span className="block text-xs font-medium text-gray-600 mb-1">메뉴 이름</span>
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+            placeholder={entry && !isCustom ? pageLabel({ ...entry, title: '' }) : '예: 모델하우스 오시는 길'}
+            className={inputClass}
+          />
+        </div>
+        {isCustom && (
+          <div>
+            <span className="block text-xs font-medium text-gray-600 mb-1">주소</span>
+            <div className="flex items-center gap-1 text-sm text-gray-500">
+              /
+              <input
+                type="text"
+                value={form.slug}
+                onChange={(e) => setForm(prev => ({ ...prev, slug: e.target.value.toLowerCase() }))}
+                placeholder="model-house"
+                className={inputClass}
+              />
+            </div>
+            {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+          </div>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="fixed top-0 right-0 bottom-0 z-[100] w-full max-w-sm bg-white shadow-2xl flex flex-col animate-fade-in border-l border-gray-200">
+      <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+        <h3 className="text-lg font-bold flex items-center gap-2">
+          <Files size={18} /> 페이지 관리
+        </h3>
+        <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+          <X size={24} />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto flex-1 p-4">
+        <p className="text-xs text-gray-500 mb-4 px-2">순서는 상단 메뉴와 하단 바로가기에 그대로 적용됩니다. 새 페이지의 섹션은 해당 페이지에서 섹션 구성으로 편집합니다.</p>
+        <ul className="space-y-2">
+          {registry.map((entry, index) => {
+            const isCustom = isCustomPageId(entry.id);
+            const isExpanded = expandedId === entry.id;
+            return (
+              <li key={entry.id} className="rounded-lg border border-gray-200 bg-white">
+                <div className="flex items-center gap-1 px-2 py-2">
+                  <div className="flex-1 min-w-0">
+                    <button
+                      onClick={() => isExpanded ? setExpandedId(null) : openForm(entry.id)}
+                      className="block max-w-full text-left text-sm font-bold text-primary truncate"
+                      title="이름 변경"
+                    >
+                      {pageLabel(entry)}
+                    </button>
+                    <PageLink to={entry.id} className="block text-[10px] text-gray-400 hover:text-accent truncate">
+                      {pathForRoute(entry.id, customPageRoutes(registry))}
+                    </PageLink>
+                  </div>
+                  <button onClick={() => updateEntry(index, { inNav: !entry.inNav })} className={toggleClass(entry.inNav)} title="상단 메뉴에 표시">
+                    메뉴
+                  </button>
+                  <button onClick={() => updateEntry(index, { inFooter: !entry.inFooter })} className={toggleClass(entry.inFooter)} title="하단 바로가기에 표시">
+                    하단
+                  </button>
+                  <button onClick={() => moveTo(index, index - 1)} disabled={index === 0} className={toolbarButton} title="위로">
+                    <ChevronUp size={14} />
+                  </button>
+                  <button onClick={() => moveTo(index, index + 1)} disabled={index === registry.length - 1} className={toolbarButton} title="아래로">
+                    <ChevronDown size={14} />
+                  </button>
+                  <button
+                    onClick={() => remove(index)}
+                    disabled={!isCustom}
+                    className={`${toolbarButton} hover:text-red-500`}
+                    title={isCustom ? '삭제' : '기본 페이지는 삭제할 수 없습니다'}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+                {isExpanded && (
+                  <div className="border-t border-gray-100 px-4 py-3 space-y-3 bg-slate-50 rounded-b-lg">
+                    {renderFields(entry)}
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setExpandedId(null)} className="px-3 py-1 text-xs text-gray-500 hover:text-primary">취소</button>
+                      <button
+                        onClick={() => rename(index)}
+                        disabled={isCustom && (!title || !!formSlugError(entry.id))}
+                        className="px-3 py-1 rounded-full bg-primary text-white text-xs font-bold hover:bg-accent disabled:opacity-40 transition-colors"
+                      >
+                        적용
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+        {isCreating ? (
+          <div className="mt-4 rounded-lg border border-gray-200 p-3 space-y-3">
+            {renderFields()}
+            <div>
+              <span className="block text-xs font-medium text-gray-600 mb-1">템플릿</span>
+              <div className="space-y-2">
+                {PAGE_TEMPLATES.map(template => (
+                  <button
+                    key={template.id}
+                    onClick={() => setTemplateId(template.id)}
+                    className={`w-full text-left rounded-lg border px-3 py-2 transition-colors ${templateId === template.id ? 'border-primary bg-slate-50' : 'border-gray-200 hover:border-accent'}`}
+                  >
+                    <span className="block text-sm font-bold text-primary">{template.label}</span>
+                    <span className="block text-xs text-gray-500">{template.description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <button onClick={() => setIsCreating(false)} className="px-3 py-1 text-xs text-gray-500 hover:text-primary">취소</button>
+              <button
+                onClick={create}
+                disabled={!title || !!formSlugError()}
+                className="px-3 py-1 rounded-full bg-primary text-white text-xs font-bold hover:bg-accent disabled:opacity-40 transition-colors"
+              >
+                페이지 만들기
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => {
+              openForm(null);
+              setIsCreating(true);
+            }}
+            className="mt-4 w-full py-3 rounded-lg border-2 border-dashed border-accent text-accent font-bold text-sm flex items-center justify-center gap-2 hover:bg-accent/5 transition-colors"
+          >
+            <Plus size={16} /> 새 페이지
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- Leads Panel Component ---
+const LeadsPanel = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const [leads, setLeads] = useState<Lead[]>([]);
+  const [query, setQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<LeadStatus | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError('');
+    getLeadsAdapter().list()
+      .then(setLeads)
+      .catch(() => setError('상담 신청 내역을 불러오지 못했습니다.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  const changeStatus = async (id: string, status: LeadStatus) => {
+    try {
+      await getLeadsAdapter().updateStatus(id, status);
+      setLeads(prev => prev.map(lead => lead.id === id ? { ...lead, status } : lead));
+    } catch (e) {
+      alert('상태를 변경하지 못했습니다.');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const visibleLeads = filterLeads(leads, query, statusFilter);
+
+  const exportCsv = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadFile(`leads-${date}.csv`, leadsToCsv(visibleLeads), 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl mx-4 overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Inbox size={18} /> 상담 신청 내역 ({leads.length})
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-100 flex flex-col sm:flex-row gap-3">
+          <div className="relative flex-1">
+            <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+            <input
+              type="text"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="성함, 연락처, 평형 검색"
+              className="w-full pl-9 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm"
+            />
+          </div>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as LeadStatus | 'all')}
+            className="px-3 py-2 rounded-lg border border-gray-300 bg-slate-50 text-sm outline-none focus:ring-2 focus:ring-accent"
+          >
+            <option value="all">전체 상태</option>
+            {LEAD_STATUSES.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+          </select>
+          <button
+            onClick={exportCsv}
+            disabled={visibleLeads.length === 0}
+            className="px-4 py-2 bg-gray-100 text-gray-700 border border-gray-200 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2 font-medium whitespace-nowrap text-sm disabled:opacity-50"
+          >
+            <Download size={16} /> CSV 내보내기
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1">
+          {isLoading ? (
+            <p className="text-center text-gray-400 py-16">불러오는 중...</p>
+          ) : error ? (
+            <p className="text-center text-red-500 py-16">{error}</p>
+          ) : visibleLeads.length === 0 ? (
+            <p className="text-center text-gray-400 py-16">표시할 상담 신청이 없습니다.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-gray-500 text-left sticky top-0">
+                <tr>
+                  <th className="px-6 py-3 font-medium">접수일시</th>
+                  <th className="px-3 py-3 font-medium">성함</th>
+                  <th className="px-3 py-3 font-medium">연락처</th>
+                  <th className="px-3 py-3 font-medium">평형</th>
+                  <th className="px-3 py-3 font-medium">희망 상담 시간</th>
+                  <th className="px-6 py-3 font-medium">상태</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {visibleLeads.map((lead) => (
+                  <tr key={lead.id} className={lead.status === 'new' ? 'bg-yellow-50/50' : ''}>
+                    <td className="px-6 py-3 text-gray-500 whitespace-nowrap">{new Date(lead.createdAt).toLocaleString('ko-KR')}</td>
+                    <td className="px-3 py-3 font-bold text-gray-800">
+                      {lead.name}
+                      {lead.memo && (
+                        <div className="text-xs font-normal text-gray-500 whitespace-pre-line mt-1 max-w-xs">{lead.memo}</div>
+                      )}
+                    </td>
+                    <td className="px-3 py-3 whitespace-nowrap"><a href={`tel:${lead.phone}`} className="hover:text-accent">{lead.phone}</a></td>
+                    <td className="px-3 py-3">{lead.type}</td>
+                    <td className="px-3 py-3 text-gray-600 whitespace-nowrap">{lead.time ? parseSlotKey(lead.time)?.toLocaleString('ko-KR', { timeZone: SEOUL_TIME_ZONE }) ?? lead.time : '-'}</td>
+                    <td className="px-6 py-3">
+                      <select
+                        value={lead.status}
+                        onChange={(e) => changeStatus(lead.id, e.target.value as LeadStatus)}
+                        className="px-2 py-1 rounded border border-gray-200 bg-white text-sm outline-none focus:ring-2 focus:ring-accent"
+                      >
+                        {LEAD_STATUSES.map((s) => <option key={s.id} value={s.id}>{s.label}</option>)}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Analytics Panel Component ---
+const ANALYTICS_PERIODS: { days: number | null; label: string }[] = [
+  { days: 7, label: '최근 7일' },
+  { days: 30, label: '최근 30일' },
+  { days: 90, label: '최근 90일' },
+  { days: null, label: '전체' },
+];
+
+const formatRate = (part: number, whole: number) => {
+  const rate = conversionRate(part, whole);
+  return rate === null ? '-' : `${rate}%`;
+};
+
+const StatCard = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="rounded-lg border border-gray-100 bg-slate-50 px-4 py-3">
+    <div className="text-xs text-gray-500">{label}</div>
+    <div className="text-2xl font-bold text-primary">{value}</div>
+  </div>
+);
+
+const AnalyticsPanel = ({ isOpen, onClose }: { isOpen: boolean; onClose: () => void }) => {
+  const { can } = useAuth();
+  const { t } = useLocale();
+  const { content } = useEdit();
+  const [events, setEvents] = useState<AnalyticsEvent[]>([]);
+  const [days, setDays] = useState<number | null>(30);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    setError('');
+    getAnalyticsSink().list()
+      .then(setEvents)
+      .catch(() => setError('방문 통계를 불러오지 못했습니다.'))
+      .finally(() => setIsLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const summary = summarizeAnalytics(eventsSince(events, days));
+  // Added pages show their menu name; deleted ones keep their id
+  const pageLabel = (page: string) => {
+    if (SEO_PAGES.some(option => option === page)) return t(`nav.${page}` as UiStringKey);
+    return (isCustomPageId(page) && findPageEntry(readPageRegistry(content), page)?.title) || page;
+  };
+  const maxFunnelViews = Math.max(1, ...summary.funnel.map(row => row.views));
+
+  const clearEvents = async () => {
+    if (!window.confirm('저장된 방문 통계를 모두 삭제하시겠습니까?')) return;
+    try {
+      await getAnalyticsSink().clear();
+      setEvents([]);
+    } catch (e) {
+      alert('방문 통계를 삭제하지 못했습니다.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-4xl mx-4 overflow-hidden flex flex-col max-h-[85vh]">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <BarChart3 size={18} /> 방문 통계
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-gray-100 flex flex-wrap items-center gap-2">
+          {ANALYTICS_PERIODS.map(period => (
+            <button
+              key={period.label}
+              onClick={() => setDays(period.days)}
+              className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-colors ${days === period.days ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+            >
+              {period.label}
+            </button>
+          ))}
+          {can('reset') && (
+            <button
+              onClick={clearEvents}
+              disabled={events.length === 0}
+              className="ml-auto px-3 py-1.5 rounded-lg text-xs font-bold text-gray-500 hover:bg-red-50 hover:text-red-500 flex items-center gap-1 disabled:opacity-50"
+            >
+              <Trash2 size={14} /> 통계 초기화
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-y-auto flex-1 p-6 space-y-8">
+          {getAnalyticsSink().local && (
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-lg px-4 py-3">
+              방문 기록은 방문자 각자의 브라우저에 저장되므로, 이 통계에는 지금 사용 중인 브라우저에서 기록된 방문만 표시됩니다. 로그인한 편집자의 방문은 기록되지 않으므로 대부분 비어 있습니다.
+              전체 방문자를 집계하려면 수집 서버로 보내는 저장소를 연결해야 합니다. (최근 {ANALYTICS_RETENTION_DAYS}일, 최대 {ANALYTICS_EVENT_LIMIT.toLocaleString('ko-KR')}건 보관)
+            </p>
+          )}
+          {isLoading ? (
+            <p className="text-center text-gray-400 py-16">불러오는 중...</p>
+          ) : error ? (
+            <p className="text-center text-red-500 py-16">{error}</p>
+          ) : summary.pageViews === 0 ? (
+            <p className="text-center text-gray-400 py-16">기록된 방문이 없습니다. 로그인한 편집자의 방문은 집계되지 않습니다.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard label="방문 세션" value={summary.sessions} />
+                <StatCard label="페이지뷰" value={summary.pageViews} />
+                <StatCard label="상담 신청" value={summary.submits} />
+                <StatCard label="세션 대비 신청률" value={formatRate(summary.submits, summary.sessions)} />
+              </div>
+
+              <section>
+                <h4 className="font-bold text-primary mb-1">진입 경로별 상담 전환</h4>
+                <p className="text-xs text-gray-400 mb-3">상담 페이지에 들어오기 직전에 누른 버튼 기준입니다.</p>
+                <table className="w-full text-sm">
+                  <thead className="text-gray-500 text-left">
+                    <tr>
+                      <th className="py-2 font-medium">진입 경로</th>
+                      <th className="py-2 px-2 font-medium text-right">클릭</th>
+                      <th className="py-2 px-2 font-medium text-right">상담 페이지</th>
+                      <th className="py-2 px-2 font-medium text-right">작성 시작</th>
+                      <th className="py-2 px-2 font-medium text-right">이탈</th>
+                      <th className="py-2 px-2 font-medium text-right">신청</th>
+                      <th className="py-2 font-medium text-right">전환율</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {summary.funnel.map(row => (
+                      <tr key={row.entry}>
+                        <td className="py-2">
+                          <div className="font-medium text-gray-800">{ctaSourceLabel(row.entry)}</div>
+                          <div className="h-1.5 mt-1 rounded-full bg-gray-100 overflow-hidden">
+                            <div className="h-full bg-accent" style={{ width: `${(row.views / maxFunnelViews) * 100}%` }}></div>
+                          </div>
+                        </td>
+                        <td className="py-2 px-2 text-right text-gray-600">{row.entry === DIRECT_ENTRY ? '-' : row.clicks}</td>
+                        <td className="py-2 px-2 text-right text-gray-600">{row.views}</td>
+                        <td className="py-2 px-2 text-right text-gray-600">{row.starts}</td>
+                        <td className="py-2 px-2 text-right text-gray-600">{row.abandons}</td>
+                        <td className="py-2 px-2 text-right font-bold text-primary">{row.submits}</td>
+                        <td className="py-2 text-right font-bold text-accent">{formatRate(row.submits, row.views)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+
+              <div className="grid md:grid-cols-2 gap-8">
+                <section>
+                  <h4 className="font-bold text-primary mb-3">페이지별 방문</h4>
+                  <table className="w-full text-sm">
+                    <thead className="text-gray-500 text-left">
+                      <tr>
+                        <th className="py-2 font-medium">페이지</th>
+                        <th className="py-2 px-2 font-medium text-right">조회</th>
+                        <th className="py-2 font-medium text-right">평균 체류</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-100">
+                      {summary.pages.map(row => (
+                        <tr key={row.page}>
+                          <td className="py-2 text-gray-800">{pageLabel(row.page)}</td>
+                          <td className="py-2 px-2 text-right text-gray-600">{row.views}</td>
+                          <td className="py-2 text-right text-gray-600">{formatDuration(row.averageMs)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+
+                <section>
+                  <h4 className="font-bold text-primary mb-3">버튼 클릭</h4>
+                  {summary.ctaClicks.length === 0 ? (
+                    <p className="text-sm text-gray-400">기록된 클릭이 없습니다.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead className="text-gray-500 text-left">
+                        <tr>
+                          <th className="py-2 font-medium">위치</th>
+                          <th className="py-2 px-2 font-medium">이동</th>
+                          <th className="py-2 font-medium text-right">클릭</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {summary.ctaClicks.map(row => (
+                          <tr key={`${row.source}>${row.target}`}>
+                            <td className="py-2 text-gray-800">{ctaSourceLabel(row.source)}</td>
+                            <td className="py-2 px-2 text-gray-600">{pageLabel(row.target)}</td>
+                            <td className="py-2 text-right text-gray-600">{row.count}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- Editable Components ---
+
+// Prefix for the content ids inside a duplicated page section ('' elsewhere)
+const SectionScopeContext = createContext('');
+
+const useScopedId = (id: string) => useContext(SectionScopeContext) + id;
+
+const EditableText = ({ 
+  id: baseId, 
+  defaultText, 
+  className = '', 
+  tag: Tag = 'div'
+}: { 
+  id: string, 
+  defaultText: string, 
+  className?: string, 
+  tag?: React.ElementType
+}) => {
+  const { isEditMode, content, openEditor } = useEdit();
+  const id = useScopedId(baseId);
+  const { locale, showMissingTranslations } = useLocale();
+  const sourceText = content[id] || defaultText;
+  const translation = locale === DEFAULT_LOCALE ? undefined : readTranslation(content, id, locale);
+  // Untranslated text falls back to Korean
+  const currentText = translation ?? sourceText;
+  const isMissing = locale !== DEFAULT_LOCALE && translation === undefined;
+  const highlightMissing = isEditMode && showMissingTranslations && isMissing;
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!isEditMode) return;
+    e.stopPropagation();
+    e.preventDefault();
+    if (locale === DEFAULT_LOCALE) openEditor(id, currentText, 'text', defaultText);
+    else openEditor(localizedKey(id, locale), translation ?? '', 'text', sourceText, sourceText);
+  };
+
+  return (
+    <Tag 
+      onClick={handleClick}
+      className={`${className} ${isEditMode ? 'cursor-pointer hover:bg-yellow-50 hover:outline hover:outline-2 hover:outline-dashed hover:outline-accent rounded px-1 -mx-1 transition-all relative' : ''} ${highlightMissing ? 'outline outline-2 outline-red-400 bg-red-50/40' : ''}`}
+      title={isEditMode ? (isMissing ? "번역이 없어 한국어가 표시됩니다. 클릭하여 번역 입력" : "클릭하여 텍스트 수정") : ""}
+      {...(highlightMissing ? { 'data-missing-translation': id } : {})}
+    >
+      <RichText text={currentText} inert={isEditMode} />
+    </Tag>
+  );
+};
+
+const EditableImage = ({ 
+  id: baseId, 
+  defaultSrc, 
+  alt, 
+  className = '',
+  fit = 'cover'
+}: { 
+  id: string, 
+  defaultSrc: string, 
+  alt: string, 
+  className?: string,
+  fit?: 'cover' | 'contain'
+}) => {
+  const { isEditMode, content, openEditor } = useEdit();
+  const id = useScopedId(baseId);
+  const currentSrc = content[id] || defaultSrc;
+  const resolvedSrc = useAssetSrc(currentSrc);
+  const focus = parseFocalPoint(content[focalPointKey(id)]);
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (!isEditMode) return;
+    e.stopPropagation();
+    openEditor(id, currentSrc, 'image', defaultSrc);
+  };
+
+  return (
+    <div 
+      className={`relative group ${className} ${isEditMode ? 'cursor-pointer hover:outline hover:outline-4 hover:outline-dashed hover:outline-accent rounded-lg overflow-hidden' : ''}`}
+      onClick={handleClick}
+    >
+      <img src={resolvedSrc} alt={alt} className={`w-full h-full ${fit === 'contain' ? 'object-contain' : 'object-cover'} ${className}`} style={{ objectPosition: focalPosition(focus) }} />
+      {isEditMode && (
+        <div className="absolute inset-0 bg-black/40 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity">
+          <div className="bg-white text-primary px-4 py-2 rounded-full font-bold flex items-center gap-2 shadow-xl transform scale-105">
+            <ImageIcon size={18} /> 이미지 변경
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+type ListItemDefaults = Record<string, string>;
+
+// Ordered, editor-resizable collection. `defaults` holds the built-in copy per
+// item id; items added in edit mode start from `newItem`. Lists without fields
+// read their single text from `newItem.text` / `defaults[id].text`.
+const EditableList = ({
+  listKey,
+  defaults,
+  newItem,
+  renderItem,
+  className = '',
+  itemClassName = '',
+  tag: Tag = 'div',
+  itemTag: ItemTag = 'div',
+  addLabel = '항목 추가'
+}: {
+  listKey: ListKey;
+  defaults: Record<string, ListItemDefaults>;
+  newItem: ListItemDefaults;
+  renderItem: (itemId: string, item: ListItemDefaults, index: number) => React.ReactNode;
+  className?: string;
+  itemClassName?: string;
+  tag?: React.ElementType;
+  itemTag?: React.ElementType;
+  addLabel?: string;
+}) => {
+  const { isEditMode, content, replaceContent } = useEdit();
+  const definition: ListDefinition = CONTENT_LISTS[listKey];
+  const scope = useContext(SectionScopeContext);
+  const orderKey = scope + listContentKey(listKey);
+  const itemIds = readContentJson(content, orderKey, definition.defaultIds, isItemIdList);
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const itemDefaults = (itemId: string) => defaults[itemId] ?? newItem;
+
+  // Order and item text change together so one undo step reverts the whole action
+  const commit = (nextIds: string[], patch: Record<string, string> = {}, removeKeys: string[] = []) => {
+    const next = { ...content, ...patch, [orderKey]: writeContentJson(nextIds) };
+    removeKeys.forEach((key) => delete next[key]);
+    replaceContent(next);
+  };
+
+  const addItem = () => commit([...itemIds, createListItemId(definition)]);
+
+  const duplicateItem = (index: number) => {
+    const sourceId = itemIds[index];
+    const copyId = createListItemId(definition);
+    const sourceKeys = itemContentKeys(definition, sourceId).map(key => scope + key);
+    const copyKeys = itemContentKeys(definition, copyId).map(key => scope + key);
+    const fields = definition.fields.length > 0 ? definition.fields : ['text'];
+    const patch: Record<string, string> = {};
+    sourceKeys.forEach((key, i) => {
+      patch[copyKeys[i]] = content[key] || itemDefaults(sourceId)[fields[i]] || '';
+    });
+    commit([...itemIds.slice(0, index + 1), copyId, ...itemIds.slice(index + 1)], patch);
+  };
+
+  const removeItem = (index: number) => {
+    const itemId = itemIds[index];
+    commit(itemIds.filter((_, i) => i !== index), {}, itemContentKeys(definition, itemId).map(key => scope + key));
+  };
+
+  const moveTo = (from: number, to: number) => {
+    const next = moveItem(itemIds, from, to);
+    if (next !== itemIds) commit(next);
+  };
+
+  const stop = (action: () => void) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    action();
+  };
+
+  const toolbarButton = "p-1.5 text-gray-500 hover:text-primary hover:bg-gray-100 rounded disabled:opacity-30 disabled:pointer-events-none";
+
+  return (
+    <Tag className={className}>
+      {itemIds.map((itemId, index) => (
+        <ItemTag
+          key={itemId}
+          className={`${itemClassName} ${isEditMode ? `relative ${dragIndex === index ? 'opacity-50' : ''}` : ''}`}
+          draggable={isEditMode && handleIndex === index}
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e: React.DragEvent) => isEditMode && e.preventDefault()}
+          onDrop={() => {
+            if (dragIndex !== null) moveTo(dragIndex, index);
+            setDragIndex(null);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setHandleIndex(null);
+          }}
+        >
+          {renderItem(itemId, itemDefaults(itemId), index)}
+          {isEditMode && (
+            <div className="absolute -top-4 right-2 z-20 flex items-center bg-white rounded-full shadow-lg border border-gray-200 px-1">
+              <span
+                className="p-1.5 text-gray-400 hover:text-gray-600 cursor-grab"
+                title="끌어서 순서 변경"
+                onMouseDown={() => setHandleIndex(index)}
+                onMouseUp={() => setHandleIndex(null)}
+              >
+                <GripVertical size={14} />
+              </span>
+              <button onClick={stop(() => moveTo(index, index - 1))} disabled={index === 0} className={toolbarButton} title="위로">
+                <ChevronUp size={14} />
+              </button>
+              <button onClick={stop(() => moveTo(index, index + 1))} disabled={index === itemIds.length - 1} className={toolbarButton} title="아래로">
+                <ChevronDown size={14} />
+              </button>
+              <button onClick={stop(() => duplicateItem(index))} className={toolbarButton} title="복제">
+                <Copy size={14} />
+              </button>
+              <button onClick={stop(() => removeItem(index))} className={`${toolbarButton} hover:text-red-500`} title="삭제">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          )}
+        </ItemTag>
+      ))}
+      {isEditMode && (
+        <ItemTag className="list-none">
+          <button
+            onClick={stop(addItem)}
+            className="w-full h-full min-h-[3rem] border-2 border-dashed border-accent text-accent rounded-lg font-bold text-sm flex items-center justify-center gap-1 hover:bg-accent/10 transition-colors"
+          >
+            <Plus size={16} /> {addLabel}
+          </button>
+        </ItemTag>
+      )}
+    </Tag>
+  );
+};
+
+// --- Reusable UI Components ---
+
+type ButtonVariant = 'primary' | 'secondary' | 'outline' | 'ghost';
+
+// With `to` the button is a PageLink; `source` then tags it as a CTA for analytics.
+interface ButtonProps {
+  children: React.ReactNode;
+  onClick?: () => void;
+  to?: PageId;
+  source?: string;
+  variant?: ButtonVariant;
+  className?: string;
+}
+
+const Button = ({ children, onClick, to, source, variant = 'primary', className = '' }: ButtonProps) => {
+  const baseStyle = "px-6 py-3 rounded-md font-medium transition-all duration-300 flex items-center justify-center gap-2";
+  const variants: Record<ButtonVariant, string> = {
+    primary: "bg-primary text-white hover:bg-accent hover:text-white shadow-lg",
+    secondary: "bg-accent text-white hover:bg-accent-dark shadow-md",
+    outline: "border-2 border-primary text-primary hover:bg-primary hover:text-white",
+    ghost: "text-primary hover:text-accent"
+  };
+  const classes = `${baseStyle} ${variants[variant]} ${className}`;
+
+  if (to) {
+    return (
+      <PageLink to={to} onClick={onClick} source={source} className={classes}>
+        {children}
+      </PageLink>
+    );
+  }
+  
+  return (
+    <button 
+      onClick={onClick} 
+      className={classes}
+    >
+      {children}
+    </button>
+  );
+};
+
+const SectionHeading = ({ title, subtitle, align = 'center', idPrefix }: { title: string, subtitle?: string, align?: 'left' | 'center', idPrefix: string }) => (
   <div className={`mb-12 ${align === 'center' ? 'text-center' : 'text-left'}`}>
     {subtitle && (
       <EditableText 
         id={`${idPrefix}_subtitle`}
         defaultText={subtitle}
-        className="block text-[#D4AF37] font-bold tracking-wider text-sm mb-2 uppercase"
+        className="block text-accent font-bold tracking-wider text-sm mb-2 uppercase"
         tag="span"
       />
     )}
     <EditableText
       id={`${idPrefix}_title`}
       defaultText={title}
-      className="text-3xl md:text-4xl font-bold text-[#0F172A] leading-tight"
+      className="text-3xl md:text-4xl font-bold text-primary leading-tight"
       tag="h2"
     />
-    <div className={`h-1 w-20 bg-[#D4AF37] mt-6 ${align === 'center' ? 'mx-auto' : ''}`}></div>
+    <div className={`h-1 w-20 bg-accent mt-6 ${align === 'center' ? 'mx-auto' : ''}`}></div>
+  </div>
+);
+
+// --- Chart Components ---
+
+const PriceSeriesEditor = ({
+  isOpen,
+  series,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  series: PricePoint[];
+  onClose: () => void;
+  onSave: (series: PricePoint[]) => void;
+}) => {
+  const [rows, setRows] = useState<PricePoint[]>(series);
+
+  useEffect(() => {
+    setRows(series);
+  }, [series, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (index: number, patch: Partial<PricePoint>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const addRow = () => {
+    const last = rows[rows.length - 1];
+    const nextYear = last && /^\d{4}$/.test(last.year) ? String(Number(last.year) + 1) : '';
+    setRows([...rows, { year: nextYear, price: last?.price ?? 0, note: last?.note ?? '', projected: false }]);
+  };
+
+  const cellClass = "w-full px-2 py-1.5 rounded border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
+
+  // Portal out of the chart card so the modal is not trapped in its stacking context
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <BarChart3 size={18} /> 시세 추이 데이터 수정
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          <div className="max-h-[50vh] overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-gray-500 text-left">
+                <tr>
+                  <th className="pb-2 pr-2 font-medium w-28">연도</th>
+                  <th className="pb-2 pr-2 font-medium w-32">평당가 (만원)</th>
+                  <th className="pb-2 pr-2 font-medium">출처 / 비고</th>
+                  <th className="pb-2 pr-2 font-medium w-16 text-center">예상치</th>
+                  <th className="pb-2 w-10"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, i) => (
+                  <tr key={i}>
+                    <td className="py-1 pr-2"><input type="text" value={row.year} onChange={(e) => updateRow(i, { year: e.target.value })} className={cellClass} /></td>
+                    <td className="py-1 pr-2"><input type="number" min={0} value={row.price} onChange={(e) => updateRow(i, { price: Number(e.target.value) || 0 })} className={cellClass} /></td>
+                    <td className="py-1 pr-2"><input type="text" value={row.note} onChange={(e) => updateRow(i, { note: e.target.value })} className={cellClass} /></td>
+                    <td className="py-1 pr-2 text-center"><input type="checkbox" checked={row.projected} onChange={(e) => updateRow(i, { projected: e.target.checked })} className="w-4 h-4 accent-accent" /></td>
+                    <td className="py-1 text-right">
+                      <button onClick={() => setRows(rows.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500 p-1" title="삭제">
+                        <Trash2 size={16} />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <button onClick={addRow} className="mt-3 text-sm font-bold text-primary hover:text-accent flex items-center gap-1">
+            <Plus size={16} /> 연도 추가
+          </button>
+
+          <div className="flex gap-3 justify-end pt-6">
+            <button 
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button 
+              onClick={() => onSave(rows.filter(row => row.year.trim()))}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2"
+            >
+              <Save size={18} />
+              저장하기
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+const PriceTrendChart = () => {
+  const { isEditMode } = useEdit();
+  const [series, setSeries] = useContentJson(PRICE_SERIES_KEY, DEFAULT_PRICE_SERIES, isPriceSeries);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const max = niceMax(Math.max(0, ...series.map(point => point.price)));
+  const lastActualIndex = series.map(point => point.projected).lastIndexOf(false);
+
+  return (
+    <div className="w-full max-w-3xl">
+      {isEditMode && (
+        <div className="flex justify-end mb-4">
+          <button
+            onClick={() => setIsEditorOpen(true)}
+            className="bg-white text-primary px-4 py-2 rounded-full text-sm font-bold shadow-md border border-gray-200 hover:bg-gray-50 flex items-center gap-2"
+          >
+            <BarChart3 size={16} /> 시세 데이터 수정
+          </button>
+        </div>
+      )}
+
+      <div className="flex gap-4 sm:gap-12 items-end h-64 w-full justify-center pb-8 border-b border-gray-200">
+        {series.map((point, i) => {
+          const prev = series[i - 1];
+          const isLatest = i === lastActualIndex;
+          const barColor = point.projected
+            ? 'bg-accent shadow-xl'
+            : isLatest ? 'bg-primary shadow-lg group-hover:bg-primary/80' : 'bg-gray-300 group-hover:bg-accent/50';
+          const labelColor = point.projected ? 'text-accent' : isLatest ? 'text-primary' : 'text-gray-500';
+
+          return (
+            <div key={`${point.year}-${i}`} className="w-20 h-full flex flex-col items-center justify-end gap-2 group relative">
+              <div className="absolute bottom-full mb-2 w-44 bg-primary text-white text-xs rounded-lg px-3 py-2 shadow-xl opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20">
+                <div className="font-bold text-sm text-accent">{formatPrice(point.price)}<span className="text-white/70 font-normal"> / 평</span></div>
+                {prev && <div className="text-white/80">전년 대비 {changeRate(prev.price, point.price) >= 0 ? '+' : ''}{changeRate(prev.price, point.price).toFixed(1)}%</div>}
+                {point.note && <div className="text-white/60 mt-1">{point.note}</div>}
+              </div>
+              {point.projected && (
+                <div className="absolute -top-6 bg-red-500 text-white text-xs px-2 py-1 rounded shadow-md animate-bounce">예상</div>
+              )}
+              <div
+                className={`w-full rounded-t-lg relative transition-all ${barColor} ${point.projected ? 'border-2 border-dashed border-white/70' : ''}`}
+                style={{
+                  height: `${(point.price / max) * 100}%`,
+                  backgroundImage: point.projected ? 'repeating-linear-gradient(45deg, transparent 0 8px, rgba(255,255,255,0.25) 8px 16px)' : undefined,
+                }}
+              ></div>
+              <span className={`text-sm font-bold whitespace-nowrap ${labelColor}`}>{point.year}</span>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex justify-center gap-6 mt-4 text-xs text-gray-500">
+        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-gray-300 inline-block"></span>실거래 평균 (평당)</span>
+        <span className="flex items-center gap-2"><span className="w-3 h-3 rounded-sm bg-accent inline-block"></span>예상치</span>
+      </div>
+
+      <PriceSeriesEditor
+        isOpen={isEditorOpen}
+        series={series}
+        onClose={() => setIsEditorOpen(false)}
+        onSave={(next) => {
+          setSeries(next);
+          setIsEditorOpen(false);
+        }}
+      />
+    </div>
+  );
+};
+
+const SpecTable = ({ rows }: { rows: { label: string, value: React.ReactNode, emphasis?: boolean }[] }) => (
+  <dl className="grid grid-cols-3 gap-y-6 gap-x-4 text-sm border-t border-gray-100 pt-6">
+    {rows.map((row) => (
+      <React.Fragment key={row.label}>
+        <dt className="text-gray-500 font-medium self-center">{row.label}</dt>
+        <dd className={`col-span-2 text-gray-800 whitespace-pre-line ${row.emphasis ? 'font-bold text-lg' : ''}`}>{row.value}</dd>
+      </React.Fragment>
+    ))}
+  </dl>
+);
+
+// --- Layout ---
+
+const LanguageSwitcher = ({ className = '', activeClass, idleClass }: { className?: string, activeClass: string, idleClass: string }) => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <div className={`flex items-center gap-1 text-xs font-bold ${className}`} role="group" aria-label={t('nav.language')}>
+      <Globe size={14} className={idleClass} />
+      {LOCALES.map(option => (
+        <button
+          key={option.id}
+          onClick={() => setLocale(option.id)}
+          lang={option.htmlLang}
+          title={option.label}
+          aria-pressed={locale === option.id}
+          className={`px-2 py-1 rounded transition-colors ${locale === option.id ? activeClass : idleClass}`}
+        >
+          {option.short}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// Menu label of a registry entry: its title, or the translated name of a built-in page.
+const usePageLabel = () => {
+  const { t } = useLocale();
+  return (entry: PageEntry) => entry.title || (isCustomPageId(entry.id) ? '' : t(`nav.${entry.id}` as UiStringKey));
+};
+
+// Header and footer menus, in registry order.
+const usePageMenu = (placement: 'inNav' | 'inFooter') => {
+  const { content } = useEdit();
+  const pageLabel = usePageLabel();
+  return readPageRegistry(content)
+    .filter(entry => entry[placement])
+    .map(entry => ({ id: entry.id, label: pageLabel(entry) }));
+};
+
+const Header = ({ isScrolled }: { isScrolled: boolean }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { route } = useRouter();
+  const navItems = usePageMenu('inNav');
+
+  return (
+    <header className={`fixed w-full z-40 transition-all duration-300 ${isScrolled ? 'bg-white shadow-md py-4' : 'bg-transparent py-6'}`}>
+      <div className="container mx-auto px-6 flex justify-between items-center">
+        <PageLink 
+          to="main"
+          className={`text-2xl font-bold cursor-pointer flex items-center gap-1 ${isScrolled ? 'text-primary' : 'text-primary lg:text-white'}`}
+        >
+          <EditableText id="brand_main" defaultText="CENTUM" tag="span" />
+          <EditableText id="brand_sub" defaultText="SQUARE" className="text-accent" tag="span" />
+        </PageLink>
+
+        {/* Desktop Nav */}
+        <nav className="hidden lg:flex items-center gap-8">
+          {navItems.map((item) => (
+            <PageLink
+              key={item.id}
+              to={item.id}
+              source="header"
+              className={`font-medium transition-colors ${
+                route === item.id 
+                  ? 'text-accent' 
+                  : isScrolled ? 'text-gray-600 hover:text-primary' : 'text-white/90 hover:text-white'
+              }`}
+            >
+              {item.label}
+            </PageLink>
+          ))}
+          <LanguageSwitcher
+            className={`pl-6 border-l ${isScrolled ? 'border-gray-200' : 'border-white/20'}`}
+            activeClass="bg-accent text-white"
+            idleClass={isScrolled ? 'text-gray-500 hover:text-primary' : 'text-white/80 hover:text-white'}
+          />
+        </nav>
+
+        {/* Mobile Menu Button */}
+        <button className="lg:hidden text-primary" onClick={() => setIsOpen(!isOpen)}>
+          {isOpen ? <X /> : <Menu />}
+        </button>
+      </div>
+
+      {/* Mobile Nav */}
+      {isOpen && (
+        <div className="absolute top-full left-0 w-full bg-white shadow-lg lg:hidden flex flex-col p-6 gap-4 animate-fade-in-down">
+          {navItems.map((item) => (
+            <PageLink
+              key={item.id}
+              to={item.id}
+              source="header_mobile"
+              onClick={() => setIsOpen(false)}
+              className={`text-left text-lg font-medium py-2 border-b border-gray-100 ${
+                route === item.id ? 'text-accent' : 'text-gray-800'
+              }`}
+            >
+              {item.label}
+            </PageLink>
+          ))}
+          <LanguageSwitcher activeClass="bg-primary text-white" idleClass="text-gray-500" />
+        </div>
+      )}
+    </header>
+  );
+};
+
+const Footer = () => {
+  const footerItems = usePageMenu('inFooter');
+
+  return (
+    <footer className="bg-primary text-white py-12 border-t border-gray-800">
+      <div className="container mx-auto px-6 grid md:grid-cols-4 gap-8">
+        <div className="col-span-1 md:col-span-2">
+          <h3 className="text-2xl font-bold mb-4">CENTUM<span className="text-accent">SQUARE</span></h3>
+          <EditableText 
+            id="footer_desc"
+            defaultText={"동대구역의 미래 가치를 가장 먼저 선점하세요.\n전문가와 함께하는 안전하고 확실한 부동산 투자."}
+            className="text-gray-400 max-w-sm mb-6 block"
+            tag="p"
+          />
+          <div className="flex gap-4">
+            <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center hover:bg-accent transition-colors cursor-pointer">
+              <Phone size={18} />
+            </div>
+            <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center hover:bg-accent transition-colors cursor-pointer">
+              <User size={18} />
+            </div>
+          </div>
+        </div>
+        
+        <div>
+          <h4 className="text-lg font-bold mb-4 border-b border-gray-700 pb-2 inline-block">바로가기</h4>
+          <ul className="space-y-2 text-gray-400">
+            {footerItems.map(item => (
+              <li key={item.id}><PageLink to={item.id} source="footer" className="hover:text-accent">{item.label}</PageLink></li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="text-lg font-bold mb-4 border-b border-gray-700 pb-2 inline-block">문의하기</h4>
+          <address className="not-italic text-gray-400 space-y-2">
+            <EditableText id="footer_addr" defaultText="대구광역시 동구 신천동 325-1" tag="p" />
+            <EditableText id="footer_tel" defaultText="Tel: 053-247-9599" tag="p" />
+            <EditableText id="footer_email" defaultText="Email: nice7458@hanmail.net" tag="p" />
+            <p className="text-xs text-gray-500 mt-4">※ 본 사이트는 포트폴리오용 예시입니다.</p>
+          </address>
+        </div>
+      </div>
+    </footer>
+  );
+};
+
+// --- Pages ---
+
+const BENEFIT_ICONS: Record<string, React.ReactNode> = {
+  benefit_1: <TrendingUp className="w-10 h-10 text-accent" />,
+  benefit_2: <Building2 className="w-10 h-10 text-accent" />,
+  benefit_3: <BarChart3 className="w-10 h-10 text-accent" />,
+};
+
+// --- Main Page Sections ---
+// Registered in SECTION_COMPONENTS and arranged by the page layout (lib/sections.ts).
+
+const HeroSection = ({ section }: { section: SectionInstance }) => {
+  const { content, openEditor, isEditMode } = useEdit();
+  const imageId = useScopedId('hero_img');
+  const heroSrc = useAssetSrc(content[imageId] || DEFAULT_IMAGES.hero);
+  const height = sectionSetting(section, 'height') === 'compact' ? 'py-40 min-h-[600px]' : 'h-screen min-h-[600px]';
+
+  return (
+    <section className={`relative ${height} flex items-center`}>
+      <div 
+        className="absolute inset-0 z-0 bg-cover bg-center transition-all duration-700"
+        style={{ backgroundImage: `url('${heroSrc}')`, backgroundPosition: focalPosition(parseFocalPoint(content[focalPointKey(imageId)])) }}
+      >
+        <div className="absolute inset-0 bg-gradient-to-r from-primary/90 to-primary/30"></div>
+      </div>
+      
+      {isEditMode && (
+         <button 
+          onClick={() => openEditor(imageId, content[imageId] || DEFAULT_IMAGES.hero, 'image', DEFAULT_IMAGES.hero)}
+          className="absolute top-24 right-6 z-30 bg-white/20 hover:bg-white text-white hover:text-black p-3 rounded-full backdrop-blur-sm transition-all shadow-lg flex items-center gap-2"
+          title="배경 이미지 변경"
+         >
+           <ImageIcon size={20} />
+           <span className="text-sm font-bold">배경 변경</span>
+         </button>
+      )}
+      
+      <div className="container mx-auto px-6 relative z-10 text-white">
+        <div className="max-w-3xl animate-fade-in-up">
+          <EditableText 
+            id="hero_tag" 
+            defaultText="프리미엄 부동산 컨설팅" 
+            className="bg-accent text-white px-3 py-1 text-sm font-bold uppercase tracking-wider mb-4 inline-block"
+            tag="span"
+          />
+          <EditableText 
+            id="hero_title"
+            defaultText={"동대구의 미래,\n전문가의 시선으로 선택하다"}
+            className="text-4xl md:text-6xl font-bold leading-tight mb-6 block drop-shadow-lg"
+            tag="h1"
+          />
+          <EditableText 
+            id="hero_desc"
+            defaultText={"이편한세상 동대구역 센텀스퀘어.\n단순 주거를 넘어 자산 가치를 높이는 전략적인 선택을 제안합니다."}
+            className="text-lg md:text-xl text-gray-100 mb-10 font-light block leading-relaxed max-w-2xl"
+            tag="p"
+          />
+          <div className="flex flex-col sm:flex-row gap-4">
+            <Button to="contact" source="hero" variant="secondary">
+              <EditableText id="hero_cta_1" defaultText="무료 상담 신청하기" tag="span" /> <ArrowRight size={18} />
+            </Button>
+            <Button to="analysis" source="hero" variant="outline" className="border-white text-white hover:bg-white hover:text-primary">
+              <EditableText id="hero_cta_2" defaultText="상세 정보 보기" tag="span" />
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+const BenefitsSection = ({ section }: { section: SectionInstance }) => (
+  <section className={`py-24 ${sectionSetting(section, 'background') === 'slate' ? 'bg-slate-50' : 'bg-white'}`}>
+    <div className="container mx-auto px-6">
+      <SectionHeading idPrefix="main_sec1" title="왜 지금, 동대구역인가?" subtitle="투자 핵심 포인트" />
+      
+      <EditableList
+        listKey="benefits"
+        className="grid md:grid-cols-3 gap-8 mt-12"
+        itemClassName={`${sectionSetting(section, 'background') === 'slate' ? 'bg-white' : 'bg-slate-50'} p-8 rounded-xl hover:shadow-xl transition-all duration-300 border border-gray-100 group hover:-translate-y-2`}
+        defaults={{
+          benefit_1: {
+            title: "급부상하는 교통 허브",
+            desc: "KTX/SRT 동대구역, 엑스코선(4호선) 등 대구 경북 통합 신공항 연결의 중심지입니다."
+          },
+          benefit_2: {
+            title: "신주거타운 형성",
+            desc: "신암뉴타운 개발과 함께 1만여 세대 브랜드 타운이 형성되어 주거 환경이 획기적으로 개선됩니다."
+          },
+          benefit_3: {
+            title: "확실한 미래 가치",
+            desc: "현재의 가치보다 미래의 상승 여력이 더 큰, 지금이 가장 합리적인 진입 타이밍입니다."
+          }
+        }}
+        newItem={{ title: "새 투자 포인트", desc: "내용을 입력하세요." }}
+        addLabel="투자 포인트 추가"
+        renderItem={(itemId, item) => (
+          <>
+            <div className="mb-6 bg-white w-16 h-16 rounded-full flex items-center justify-center shadow-sm group-hover:scale-110 transition-transform ring-1 ring-gray-100">
+              {BENEFIT_ICONS[itemId] ?? <Star className="w-10 h-10 text-accent" />}
+            </div>
+            <EditableText 
+              id={`${itemId}_title`} 
+              defaultText={item.title} 
+              className="text-xl font-bold mb-4 text-primary block" 
+              tag="h3"
+            />
+            <EditableText 
+              id={`${itemId}_desc`} 
+              defaultText={item.desc} 
+              className="text-gray-600 leading-relaxed block" 
+              tag="p"
+            />
+          </>
+        )}
+      />
+    </div>
+  </section>
+);
+
+const HighlightSection = ({ section }: { section: SectionInstance }) => {
+  const [facts] = useProjectFacts();
+  const imageRight = sectionSetting(section, 'imageSide') === 'right';
+
+  return (
+    <section className="py-24 bg-primary text-white">
+      <div className={`container mx-auto px-6 flex flex-col ${imageRight ? 'md:flex-row-reverse' : 'md:flex-row'} items-center gap-16`}>
+        <div className="w-full md:w-1/2">
+          <EditableImage
+            id="exterior_img"
+            defaultSrc={DEFAULT_IMAGES.exterior}
+            alt="센텀스퀘어 조감도"
+            className="rounded-lg shadow-2xl border-4 border-[#ffffff10]"
+          />
+        </div>
+        <div className="w-full md:w-1/2">
+          <div className="text-accent font-bold mb-2 tracking-widest text-sm uppercase">{facts.builder} PREMIUM</div>
+          <EditableText 
+            id="highlight_title"
+            defaultText={"이편한세상 센텀스퀘어\n핵심 프리미엄"}
+            className="text-3xl md:text-4xl font-bold mb-8 block leading-tight"
+            tag="h2"
+          />
+          <EditableList
+            listKey="highlights"
+            tag="ul"
+            itemTag="li"
+            className="space-y-6"
+            itemClassName="flex items-start gap-4"
+            defaults={{
+              highlight_item_0: { text: "대구 최초 C2 HOUSE 특화 설계 적용" },
+              highlight_item_1: { text: "동대구역 도보권 역세권 프리미엄" },
+              highlight_item_2: { text: "초품아(초등학교를 품은 아파트) 교육 환경" },
+              highlight_item_3: { text: "신세계백화점 등 풍부한 생활 인프라" }
+            }}
+            newItem={{ text: "새 프리미엄 항목" }}
+            renderItem={(itemId, item) => (
+              <>
+                <CheckCircle2 className="text-accent w-6 h-6 flex-shrink-0 mt-1" />
+                <EditableText 
+                  id={itemId}
+                  defaultText={item.text}
+                  className="text-lg text-gray-300 font-light"
+                  tag="span"
+                />
+              </>
+            )}
+          />
+          <div className="mt-12">
+            <Button to="analysis" source="highlight" variant="secondary">
+              자세히 알아보기
+            </Button>
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+const QuoteSection = ({ section }: { section: SectionInstance }) => (
+  <section className={`py-24 ${sectionSetting(section, 'background') === 'white' ? 'bg-white' : 'bg-slate-50'}`}>
+    <div className="container mx-auto px-6 max-w-4xl text-center">
+      <Quote className="w-12 h-12 text-accent mx-auto mb-8 opacity-40" />
+      <h3 className="text-2xl md:text-3xl font-medium text-gray-800 leading-relaxed mb-10 font-serif italic">
+        <EditableText 
+          id="expert_quote"
+          defaultText={`"부동산은 '사는 것(Buying)'이 아니라 '사는 곳(Living)'이자\n가장 중요한 '자산(Asset)'이어야 합니다.\n센텀스퀘어는 이 두 가지 조건을 모두 충족하는 유일한 해답입니다."`}
+          tag="span"
+        />
+      </h3>
+      <div className="flex items-center justify-center gap-5">
+        <div className="w-16 h-16 rounded-full overflow-hidden shadow-lg border-2 border-white">
+          <EditableImage 
+            id="expert_thumb"
+            defaultSrc={DEFAULT_IMAGES.profile}
+            alt="Expert"
+            className="w-full h-full object-cover"
+          />
+        </div>
+        <div className="text-left">
+          <EditableText id="expert_name" defaultText="정세동 부장" className="font-bold text-primary text-lg block" tag="div" />
+          <EditableText id="expert_role" defaultText="부동산 투자 컨설턴트" className="text-sm text-accent block font-medium" tag="div" />
+        </div>
+      </div>
+    </div>
+  </section>
+);
+
+const CtaSection = ({ section }: { section: SectionInstance }) => (
+  <section className={`py-24 ${sectionSetting(section, 'background') === 'primary' ? 'bg-primary' : 'bg-accent'} relative overflow-hidden`}>
+    <div className="absolute top-0 left-0 w-full h-full bg-black/5"></div>
+    <div className="container mx-auto px-6 text-center relative z-10">
+      <EditableText 
+        id="cta_main_title"
+        defaultText="망설이는 순간, 로얄동·로얄층은 사라집니다."
+        className="text-3xl md:text-5xl font-bold text-white mb-6 block drop-shadow-md"
+        tag="h2"
+      />
+      <EditableText 
+        id="cta_main_desc"
+        defaultText="지금 바로 전문가와 상담하고 특별한 혜택을 확인하세요."
+        className="text-white/90 text-xl mb-12 block"
+        tag="p"
+      />
+      <Button to="contact" source="cta_main" className="bg-red-600 text-white hover:bg-red-700 px-10 py-5 text-xl mx-auto shadow-2xl hover:scale-105 transform">
+        VIP 무료 상담 예약하기
+      </Button>
+    </div>
+  </section>
+);
+
+// --- Section Blocks ---
+// General-purpose sections for custom pages; they can be added to any layout.
+
+const TextBlockSection = ({ section }: { section: SectionInstance }) => {
+  const centered = sectionSetting(section, 'align') === 'center';
+  return (
+    <section className={`py-20 ${sectionSetting(section, 'background') === 'slate' ? 'bg-slate-50' : 'bg-white'}`}>
+      <div className={`container mx-auto px-6 max-w-4xl ${centered ? 'text-center' : ''}`}>
+        <EditableText
+          id="block_text_title"
+          defaultText="제목을 입력하세요"
+          className="text-3xl md:text-4xl font-bold text-primary leading-tight block"
+          tag="h2"
+        />
+        <div className={`h-1 w-20 bg-accent mt-6 mb-8 ${centered ? 'mx-auto' : ''}`}></div>
+        <EditableText
+          id="block_text_body"
+          defaultText={"본문을 입력하세요.\n일정, 위치, 준비물처럼 방문자가 알아야 할 내용을 적습니다."}
+          className="text-lg text-gray-600 leading-relaxed block"
+          tag="p"
+        />
+      </div>
+    </section>
+  );
+};
+
+const ImageBlockSection = ({ section }: { section: SectionInstance }) => (
+  <section className="py-20 bg-white">
+    <figure className={`container mx-auto px-6 ${sectionSetting(section, 'width') === 'narrow' ? 'max-w-3xl' : 'max-w-6xl'}`}>
+      <div className="h-64 md:h-[480px] rounded-xl overflow-hidden shadow-lg">
+        <EditableImage id="block_image_img" defaultSrc={DEFAULT_IMAGES.exterior} alt="" className="w-full h-full object-cover" />
+      </div>
+      <figcaption className="mt-4 text-center text-sm text-gray-500">
+        <EditableText id="block_image_caption" defaultText="이미지 설명" tag="span" />
+      </figcaption>
+    </figure>
+  </section>
+);
+
+const SECTION_COMPONENTS: Record<SectionType, (props: { section: SectionInstance }) => React.ReactNode> = {
+  hero: HeroSection,
+  benefits: BenefitsSection,
+  highlight: HighlightSection,
+  quote: QuoteSection,
+  cta: CtaSection,
+  text: TextBlockSection,
+  image: ImageBlockSection,
+};
+
+const usePageLayout = (page: LayoutPage) => useContentJson(layoutKey(page), DEFAULT_LAYOUTS[page] ?? [], isPageLayout);
+
+// Each section renders in its own content scope, so duplicates read their own copies.
+const PageSections = ({ page }: { page: LayoutPage }) => {
+  const [layout] = usePageLayout(page);
+  return (
+    <>
+      {layout.filter(section => !section.hidden).map(section => {
+        const Section = SECTION_COMPONENTS[section.type];
+        return (
+          <SectionScopeContext.Provider key={section.id} value={sectionScope(section)}>
+            <Section section={section} />
+          </SectionScopeContext.Provider>
+        );
+      })}
+    </>
+  );
+};
+
+const MainPage = () => <PageSections page="main" />;
+
+// Pages created in edit mode: a title banner over their own section layout.
+const CustomPage = ({ id }: { id: CustomPageId }) => {
+  const { content } = useEdit();
+  const entry = findPageEntry(readPageRegistry(content), id);
+
+  return (
+    <>
+      <div className="pt-40 pb-16 bg-primary text-white">
+        <div className="container mx-auto px-6">
+          <h1 className="text-3xl md:text-5xl font-bold leading-tight">{entry?.title}</h1>
+          <div className="h-1 w-20 bg-accent mt-6"></div>
+        </div>
+      </div>
+      <PageSections page={id} />
+    </>
+  );
+};
+
+
+const UnitCatalogEditor = ({
+  isOpen,
+  catalog,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  catalog: UnitPlan[];
+  onClose: () => void;
+  onSave: (catalog: UnitPlan[]) => void;
+}) => {
+  const [draft, setDraft] = useState<UnitPlan[]>(catalog);
+
+  useEffect(() => {
+    setDraft(catalog);
+  }, [catalog, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updatePlan = (index: number, patch: Partial<UnitPlan>) => {
+    setDraft(prev => prev.map((plan, i) => i === index ? { ...plan, ...patch } : plan));
+  };
+
+  const updateOption = (index: number, optionIndex: number, patch: Partial<BalconyOption>) => {
+    updatePlan(index, {
+      balconyOptions: draft[index].balconyOptions.map((option, j) => j === optionIndex ? { ...option, ...patch } : option),
+    });
+  };
+
+  const fieldClass = "w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <LayoutGrid size={18} /> 평면 정보 수정
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[70vh] overflow-y-auto space-y-6">
+          <p className="text-xs text-gray-500">
+            타입 추가·삭제와 세대수는 사업 개요의 평형 구성에서 수정합니다. 입력하지 않은 값은 사이트에 표시되지 않습니다.
+            평면도 이미지는 편집 모드에서 각 평면도를 클릭하여 변경합니다.
+          </p>
+          {draft.length === 0 && <p className="text-center text-gray-400 py-6">사업 개요에 평형 구성이 없습니다.</p>}
+          {draft.map((plan, i) => (
+            <div key={plan.id} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex justify-between items-center mb-3">
+                <span className="font-bold text-primary">{plan.type}</span>
+                {plan.households !== null && <span className="text-xs text-gray-400">{plan.households.toLocaleString('ko-KR')}세대</span>}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                {UNIT_FIELDS.map((field) => (
+                  <label key={field.key} className={field.key === 'layout' ? 'col-span-2 block' : 'block'}>
+                    <span className="block text-xs font-medium text-gray-600 mb-1">
+                      {field.label}{field.unit && <span className="text-gray-400"> ({field.unit})</span>}
+                    </span>
+                    <input
+                      type={field.input}
+                      min={field.input === 'number' ? 0 : undefined}
+                      step={field.input === 'number' ? 'any' : undefined}
+                      value={field.input === 'number' && plan[field.key] === 0 ? '' : plan[field.key]}
+                      onChange={(e) => updatePlan(i, {
+                        [field.key]: field.input === 'number' ? Number(e.target.value) || 0 : e.target.value,
+                      })}
+                      placeholder={field.input === 'number' ? '미정' : undefined}
+                      className={fieldClass}
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="mt-4">
+                <span className="block text-xs font-medium text-gray-600 mb-1">발코니 확장 옵션</span>
+                <div className="space-y-2">
+                  {plan.balconyOptions.map((option, j) => (
+                    <div key={j} className="flex gap-2 items-center">
+                      <input type="text" value={option.label} onChange={(e) => updateOption(i, j, { label: e.target.value })} placeholder="옵션명" className={fieldClass} />
+                      <input type="number" min={0} value={option.price} onChange={(e) => updateOption(i, j, { price: Number(e.target.value) || 0 })} className={`${fieldClass} w-32`} />
+                      <span className="text-sm text-gray-400 whitespace-nowrap">만원</span>
+                      <button
+                        onClick={() => updatePlan(i, { balconyOptions: plan.balconyOptions.filter((_, k) => k !== j) })}
+                        className="text-gray-400 hover:text-red-500 p-1"
+                        title="옵션 삭제"
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => updatePlan(i, { balconyOptions: [...plan.balconyOptions, { label: '', price: 0 }] })}
+                  className="mt-2 text-xs font-bold text-primary hover:text-accent flex items-center gap-1"
+                >
+                  <Plus size={14} /> 옵션 추가
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="flex gap-3 justify-end pt-2">
+            <button 
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button 
+              onClick={() => onSave(draft.map(plan => ({ ...plan, balconyOptions: plan.balconyOptions.filter(option => option.label.trim()) })))}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2"
+            >
+              <Save size={18} />
+              저장하기
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const FloorPlanThumb = ({ plan }: { plan: UnitPlan }) => {
+  const { content } = useEdit();
+  const src = useAssetSrc(content[floorPlanImageKey(plan.id)] || DEFAULT_IMAGES.floorPlan);
+  return <img src={src} alt={`${plan.type} 평면도`} className="w-full h-32 object-contain bg-white" />;
+};
+
+const FloorPlanCompare = ({ plans, onRequest }: { plans: UnitPlan[]; onRequest: (plan: UnitPlan) => void }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm min-w-[560px]">
+      <thead>
+        <tr>
+          <th className="w-28"></th>
+          {plans.map(plan => (
+            <th key={plan.id} className="p-3 align-bottom">
+              <FloorPlanThumb plan={plan} />
+              <div className="text-xl font-bold text-primary mt-2">{plan.type}</div>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-100">
+        {COMPARE_ROWS.map(row => {
+          const best = row.value ? bestColumn(plans, row.value) : null;
+          return (
+            <tr key={row.id}>
+              <th className="py-3 pr-3 text-left font-medium text-gray-500 whitespace-nowrap">{row.label}</th>
+              {plans.map((plan, i) => (
+                <td key={plan.id} className={`p-3 text-center whitespace-pre-line ${best === i ? 'font-bold text-accent' : 'text-gray-700'}`}>
+                  {row.format(plan) || '-'}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+        <tr>
+          <td></td>
+          {plans.map(plan => (
+            <td key={plan.id} className="p-3 text-center">
+              <button
+                onClick={() => onRequest(plan)}
+                className="px-4 py-2 rounded-md bg-accent text-white font-bold hover:bg-accent-dark transition-colors text-sm"
+              >
+                {plan.type} 상담 신청
+              </button>
+            </td>
+          ))}
+        </tr>
+      </tbody>
+    </table>
   </div>
 );
 
-// --- Layout ---
+const FloorPlanSection = () => {
+  const { isEditMode, content, replaceContent } = useEdit();
+  const { navigate } = useRouter();
+  const catalog = useUnitPlans();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
 
-const Header = ({ currentPage, setPage, isScrolled }: { currentPage: Page, setPage: (p: Page) => void, isScrolled: boolean }) => {
-  const [isOpen, setIsOpen] = useState(false);
+  const selected = catalog.find(plan => plan.id === selectedId) ?? catalog[0];
+  const compared = catalog.filter(plan => compareIds.includes(plan.id));
 
-  const navItems: { id: Page; label: string }[] = [
-    { id: 'main', label: '홈' },
-    { id: 'analysis', label: '상세분석' },
-    { id: 'investment', label: '가치분석' },
-    { id: 'profile', label: '전문가소개' },
-    { id: 'contact', label: '상담문의' },
-  ];
+  const requestConsultation = (plan: UnitPlan) => {
+    saveContactHandoff({ type: plan.type });
+    trackCtaClick('analysis', 'floorplan', 'contact');
+    navigate('contact');
+  };
+
+  const startCompare = () => {
+    setCompareIds(catalog.slice(0, 2).map(plan => plan.id));
+    setIsComparing(true);
+  };
+
+  const toggleCompared = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(item => item !== id)
+      : prev.length < MAX_COMPARED_UNITS ? [...prev, id] : prev);
+  };
+
+  // Details of types no longer in the unit mix are dropped along with their images,
+  // all in one history entry
+  const saveCatalog = (next: UnitPlan[]) => {
+    const keptIds = new Set(next.map(plan => plan.id));
+    const saved = readContentJson(content, UNIT_CATALOG_KEY, DEFAULT_UNIT_CATALOG, isUnitCatalog);
+    const nextContent = { ...content, [UNIT_CATALOG_KEY]: writeContentJson(next.map(toUnitDetails)) };
+    saved.filter(plan => !keptIds.has(plan.id)).forEach(plan => {
+      delete nextContent[floorPlanImageKey(plan.id)];
+      delete nextContent[focalPointKey(floorPlanImageKey(plan.id))];
+    });
+    replaceContent(nextContent);
+    setIsEditorOpen(false);
+  };
 
   return (
-    <header className={`fixed w-full z-40 transition-all duration-300 ${isScrolled ? 'bg-white shadow-md py-4' : 'bg-transparent py-6'}`}>
-      <div className="container mx-auto px-6 flex justify-between items-center">
-        <div 
-          className={`text-2xl font-bold cursor-pointer flex items-center gap-1 ${isScrolled ? 'text-[#0F172A]' : 'text-[#0F172A] lg:text-white'}`}
-          onClick={() => setPage('main')}
-        >
-          <EditableText id="brand_main" defaultText="CENTUM" tag="span" />
-          <EditableText id="brand_sub" defaultText="SQUARE" className="text-[#D4AF37]" tag="span" />
+    <div id="floor-plans" className="bg-white rounded-xl shadow-lg p-8 md:p-12 mt-12 scroll-mt-28">
+      <div className="flex flex-wrap justify-between items-end gap-4 mb-8">
+        <div>
+          <h4 className="text-2xl font-bold text-primary border-l-4 border-accent pl-4 mb-2">
+            <EditableText id="plans_title" defaultText="평면도" tag="span" />
+          </h4>
+          <EditableText id="plans_desc" defaultText="타입별 평면과 면적, 분양가를 확인하고 비교해 보세요." className="text-gray-500 block" tag="p" />
         </div>
-
-        {/* Desktop Nav */}
-        <nav className="hidden lg:flex gap-8">
-          {navItems.map((item) => (
+        <div className="flex gap-2">
+          {isEditMode && (
             <button
-              key={item.id}
-              onClick={() => setPage(item.id)}
-              className={`font-medium transition-colors ${
-                currentPage === item.id 
-                  ? 'text-[#D4AF37]' 
-                  : isScrolled ? 'text-gray-600 hover:text-[#0F172A]' : 'text-white/90 hover:text-white'
-              }`}
+              onClick={() => setIsEditorOpen(true)}
+              className="px-4 py-2 rounded-lg border border-dashed border-accent text-accent font-bold text-sm hover:bg-accent/10 flex items-center gap-1"
             >
-              {item.label}
+              <Pen size={14} /> 평면 정보 수정
+            </button>
+          )}
+          {catalog.length > 1 && (
+            <button
+              onClick={() => isComparing ? setIsComparing(false) : startCompare()}
+              className={`px-4 py-2 rounded-lg font-bold text-sm border transition-colors flex items-center gap-1 ${isComparing ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+            >
+              <Columns2 size={16} /> {isComparing ? '비교 종료' : '타입 비교'}
             </button>
+          )}
+        </div>
+      </div>
+
+      {catalog.length === 0 ? (
+        <p className="text-center text-gray-400 py-12">등록된 평면 정보가 없습니다.</p>
+      ) : isComparing ? (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {catalog.map(plan => {
+              const isChecked = compareIds.includes(plan.id);
+              return (
+                <button
+                  key={plan.id}
+                  onClick={() => toggleCompared(plan.id)}
+                  disabled={!isChecked && compareIds.length >= MAX_COMPARED_UNITS}
+                  className={`px-4 py-2 rounded-full text-sm font-bold border transition-colors flex items-center gap-1 disabled:opacity-40 ${isChecked ? 'bg-accent text-white border-accent' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+                >
+                  {isChecked && <CheckCircle2 size={14} />} {plan.type}
+                </button>
+              );
+            })}
+          </div>
+          {compared.length < 2
+            ? <p className="text-center text-gray-400 py-12">비교할 타입을 2개 이상 선택하세요.</p>
+            : <FloorPlanCompare plans={compared} onRequest={requestConsultation} />}
+        </>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-2 mb-6">
+            {catalog.map(plan => (
+              <button
+                key={plan.id}
+                onClick={() => setSelectedId(plan.id)}
+                className={`px-5 py-2 rounded-full font-bold border transition-colors ${plan.id === selected.id ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-600 hover:border-accent'}`}
+              >
+                {plan.type}
+              </button>
+            ))}
+          </div>
+          <div className="grid md:grid-cols-5 gap-8">
+            <div className="md:col-span-3 h-72 md:h-[28rem] bg-slate-50 rounded-lg overflow-hidden">
+              <EditableImage
+                id={floorPlanImageKey(selected.id)}
+                defaultSrc={DEFAULT_IMAGES.floorPlan}
+                alt={`${selected.type} 평면도`}
+                className="w-full h-full"
+                fit="contain"
+              />
+            </div>
+            <div className="md:col-span-2 flex flex-col">
+              <div className="text-3xl font-bold text-primary mb-1">{selected.type}</div>
+              {selected.layout && <div className="text-accent font-medium mb-4">{selected.layout}</div>}
+              <SpecTable
+                rows={COMPARE_ROWS
+                  .filter(row => row.id !== 'layout')
+                  .map(row => ({ label: row.label, value: row.format(selected), emphasis: row.id === 'price' }))
+                  .filter(row => row.value)}
+              />
+              <Button onClick={() => requestConsultation(selected)} variant="secondary" className="mt-6">
+                {selected.type} 상담 신청 <ArrowRight size={18} />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+
+      <UnitCatalogEditor
+        isOpen={isEditorOpen}
+        catalog={catalog}
+        onClose={() => setIsEditorOpen(false)}
+        onSave={saveCatalog}
+      />
+    </div>
+  );
+};
+
+const AnalysisPage = () => {
+  const [activeCategory, setActiveCategory] = useState<string | null>(null);
+
+  return (
+    <div className="pt-32 pb-20 bg-slate-50 min-h-screen">
+      <div className="container mx-auto px-6">
+        <SectionHeading idPrefix="analysis" title="상세 정보 분석" subtitle="심층 분석" />
+
+        {/* Project Overview */}
+        <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-12">
+          <div className="h-64 md:h-96 relative group">
+             <EditableImage id="overview_img" defaultSrc={DEFAULT_IMAGES.exterior} alt="Overview" className="w-full h-full object-cover" />
+             <div className="absolute bottom-0 left-0 bg-primary/90 text-white p-6 px-8 rounded-tr-2xl backdrop-blur-sm">
+               <h3 className="text-2xl font-bold">
+                 <EditableText id="overview_label" defaultText="사업 개요 요약" tag="span" />
+               </h3>
+             </div>
+          </div>
+          <div className="p-8 md:p-12 grid md:grid-cols-2 gap-12">
+            <div className="space-y-6">
+              <h4 className="text-2xl font-bold text-primary border-l-4 border-accent pl-4">
+                 <EditableText id="overview_sec1_title" defaultText="사업 개요" tag="span" />
+              </h4>
+              <ProjectFactsTable />
+            </div>
+            <div className="space-y-6">
+              <h4 className="text-2xl font-bold text-primary border-l-4 border-accent pl-4">
+                <EditableText id="overview_sec2_title" defaultText="특화 설계 (C2 HOUSE)" tag="span" />
+              </h4>
+              <div className="bg-slate-50 p-6 rounded-lg text-gray-600 leading-relaxed text-lg">
+                <EditableText 
+                  id="overview_sec2_desc"
+                  defaultText={`라이프스타일 맞춤 주거 플랫폼 'C2 HOUSE'가 적용되어 내력벽을 최소화하고 가변형 벽체를 사용하여 입주자의 취향에 맞는 구조 변경이 가능합니다. 또한 세탁기와 건조기를 병렬 배치할 수 있는 원스톱 세탁존 등 실생활의 편의성을 극대화했습니다.`}
+                  tag="p"
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Location & Map */}
+        <div className="grid md:grid-cols-3 gap-8">
+          <div className="md:col-span-2 bg-white p-8 rounded-xl shadow-lg">
+            <h4 className="text-xl font-bold mb-6 flex items-center gap-2">
+              <MapPin className="text-accent" /> <EditableText id="map_title" defaultText="입지 환경 지도" tag="span" />
+            </h4>
+            <LocationMap activeCategory={activeCategory} onSelectCategory={setActiveCategory} />
+          </div>
+          <EditableList
+            listKey="locations"
+            className="space-y-4"
+            defaults={LOCATION_DEFAULTS}
+            newItem={NEW_LOCATION_ITEM}
+            renderItem={(itemId, item, index) => (
+              <div
+                onClick={() => setActiveCategory(activeCategory === itemId ? null : itemId)}
+                className={`bg-white p-6 rounded-xl shadow-md border-l-4 hover:shadow-lg transition-all cursor-pointer ${activeCategory === itemId ? 'ring-2 ring-offset-2 ring-accent' : ''}`}
+                style={{ borderLeftColor: categoryColor(index) }}
+              >
+                <h5 className="font-bold text-primary text-lg mb-2">
+                  <EditableText id={`${itemId}_title`} defaultText={item.title} tag="span" />
+                </h5>
+                <EditableText 
+                  id={`${itemId}_desc`} 
+                  defaultText={item.desc} 
+                  className="text-gray-600 block leading-relaxed"
+                  tag="p" 
+                />
+              </div>
+            )}
+          />
+        </div>
+
+        <FloorPlanSection />
+      </div>
+    </div>
+  );
+};
+
+const LOCATION_DEFAULTS: Record<string, ListItemDefaults> = {
+  loc_1: { title: "교통 환경", desc: "동대구역(KTX/SRT), 도시철도 1호선, 엑스코선(4호선)" },
+  loc_2: { title: "교육 환경", desc: "신암초등학교 도보 통학, 인근 초/중/고 밀집" },
+  loc_3: { title: "생활 인프라", desc: "신세계백화점, 파티마병원, 평화시장 등 풍부한 인프라" },
+  loc_4: { title: "자연 환경", desc: "신암공원, 기상대기념공원 등 쾌적한 녹지 공간" }
+};
+const NEW_LOCATION_ITEM = { title: "새 입지 항목", desc: "내용을 입력하세요." };
+
+const CATEGORY_COLORS = ['#2563EB', '#16A34A', '#D4AF37', '#059669', '#DB2777', '#7C3AED'];
+const categoryColor = (index: number) => CATEGORY_COLORS[index % CATEGORY_COLORS.length];
+
+const MAP_WIDTH = 800;
+const MAP_HEIGHT = 400;
+
+// Tile-free SVG map of the neighbourhood. In edit mode POIs can be added or
+// moved by clicking the map, or typed in as coordinates; changes are staged
+// until saved so a drag of numbers does not flood the undo history.
+const LocationMap = ({
+  activeCategory,
+  onSelectCategory
+}: {
+  activeCategory: string | null;
+  onSelectCategory: (category: string | null) => void;
+}) => {
+  const { isEditMode, content } = useEdit();
+  const [saved, setSaved] = useContentJson(LOCATION_MAP_KEY, DEFAULT_LOCATION_MAP, isLocationMapData);
+  const [draft, setDraft] = useState<LocationMapData | null>(null);
+  const [placingId, setPlacingId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  const data = isEditMode && draft ? draft : saved;
+  const categories = readContentJson(content, listContentKey('locations'), CONTENT_LISTS.locations.defaultIds, isItemIdList)
+    .map((id, index) => ({
+      id,
+      title: content[`${id}_title`] || (LOCATION_DEFAULTS[id] ?? NEW_LOCATION_ITEM).title,
+      color: categoryColor(index),
+    }));
+  const colorFor = (category: string) => categories.find(c => c.id === category)?.color ?? '#94A3B8';
+
+  useEffect(() => {
+    if (!isEditMode) {
+      setDraft(null);
+      setPlacingId(null);
+    }
+  }, [isEditMode]);
+
+  const projection = createProjection(data.center, data.pois, MAP_WIDTH, MAP_HEIGHT);
+  const center = projection.toXY(data.center);
+  const pois = data.pois
+    .map(poi => ({ ...poi, distance: distanceMeters(data.center, poi) }))
+    .sort((a, b) => a.distance - b.distance);
+  const selected = pois.find(poi => poi.id === selectedId);
+
+  const editDraft = (update: (prev: LocationMapData) => LocationMapData) => setDraft(prev => update(prev ?? saved));
+  const updatePoi = (id: string, patch: Partial<PointOfInterest>) =>
+    editDraft(prev => ({ ...prev, pois: prev.pois.map(poi => poi.id === id ? { ...poi, ...patch } : poi) }));
+
+  const handleMapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!isEditMode || !placingId || !svgRef.current) return;
+    const rect = svgRef.current.getBoundingClientRect();
+    const point = projection.toGeo(
+      ((e.clientX - rect.left) / rect.width) * MAP_WIDTH,
+      ((e.clientY - rect.top) / rect.height) * MAP_HEIGHT
+    );
+    if (placingId === 'center') {
+      editDraft(prev => ({ ...prev, center: { ...prev.center, ...point } }));
+    } else if (placingId === 'new') {
+      const poi = createPoi(point, activeCategory ?? categories[0]?.id ?? '');
+      editDraft(prev => ({ ...prev, pois: [...prev.pois, poi] }));
+      setSelectedId(poi.id);
+    } else {
+      updatePoi(placingId, point);
+    }
+    setPlacingId(null);
+  };
+
+  const rings = [500, 1000].filter(r => r / projection.metersPerUnit < MAP_WIDTH / 2);
+  const coordClass = "w-24 px-2 py-1 rounded border border-gray-300 bg-slate-50 text-xs outline-none focus:ring-2 focus:ring-accent";
+
+  return (
+    <div>
+      <div className={`bg-slate-50 h-96 rounded-lg border border-gray-200 relative overflow-hidden ${placingId ? 'ring-2 ring-accent' : ''}`}>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          preserveAspectRatio="xMidYMid meet"
+          className={`w-full h-full ${placingId ? 'cursor-crosshair' : ''}`}
+          onClick={handleMapClick}
+        >
+          <defs>
+            <pattern id="map-grid" width="40" height="40" patternUnits="userSpaceOnUse">
+              <path d="M 40 0 L 0 0 0 40" fill="none" stroke="#E2E8F0" strokeWidth="1" />
+            </pattern>
+          </defs>
+          <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="url(#map-grid)" />
+          {rings.map(r => (
+            <g key={r}>
+              <circle cx={center.x} cy={center.y} r={r / projection.metersPerUnit} fill="none" stroke="#CBD5E1" strokeDasharray="6 6" />
+              <text x={center.x + r / projection.metersPerUnit + 4} y={center.y - 4} fontSize="11" fill="#94A3B8">{formatDistance(r)}</text>
+            </g>
           ))}
-        </nav>
 
-        {/* Mobile Menu Button */}
-        <button className="lg:hidden text-[#0F172A]" onClick={() => setIsOpen(!isOpen)}>
-          {isOpen ? <X /> : <Menu />}
-        </button>
+          {pois.map(poi => {
+            const { x, y } = projection.toXY(poi);
+            const isDimmed = activeCategory !== null && poi.category !== activeCategory;
+            const isSelected = poi.id === selectedId;
+            return (
+              <g
+                key={poi.id}
+                className="cursor-pointer"
+                opacity={isDimmed ? 0.25 : 1}
+                onClick={(e) => {
+                  if (placingId) return;
+                  e.stopPropagation();
+                  setSelectedId(isSelected ? null : poi.id);
+                  onSelectCategory(isSelected ? null : poi.category);
+                }}
+              >
+                {isSelected && <line x1={center.x} y1={center.y} x2={x} y2={y} stroke={colorFor(poi.category)} strokeWidth="2" strokeDasharray="4 4" />}
+                <circle cx={x} cy={y} r={isSelected ? 10 : 7} fill={colorFor(poi.category)} stroke="white" strokeWidth="3" />
+                <text x={x} y={y - 14} textAnchor="middle" fontSize="13" fontWeight="bold" className="fill-primary" stroke="white" strokeWidth="3" paintOrder="stroke">
+                  {poi.name}
+                </text>
+              </g>
+            );
+          })}
+
+          <g>
+            <circle cx={center.x} cy={center.y} r="16" className="fill-primary stroke-accent" strokeWidth="4" />
+            <text x={center.x} y={center.y + 34} textAnchor="middle" fontSize="14" fontWeight="bold" className="fill-primary" stroke="white" strokeWidth="4" paintOrder="stroke">
+              {data.center.name}
+            </text>
+          </g>
+        </svg>
+
+        {selected && (
+          <div className="absolute top-4 left-4 bg-white/95 px-4 py-3 rounded-lg shadow-lg text-sm">
+            <div className="font-bold text-primary">{selected.name}</div>
+            <div className="text-gray-500 flex items-center gap-2 mt-1">
+              직선 {formatDistance(selected.distance)} · <Footprints size={14} /> 도보 약 {walkingMinutes(selected.distance)}분
+            </div>
+          </div>
+        )}
+        {placingId && (
+          <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-primary text-white px-4 py-2 rounded-full text-xs font-bold shadow-lg">
+            지도에서 위치를 클릭하세요
+          </div>
+        )}
       </div>
 
-      {/* Mobile Nav */}
-      {isOpen && (
-        <div className="absolute top-full left-0 w-full bg-white shadow-lg lg:hidden flex flex-col p-6 gap-4 animate-fade-in-down">
-          {navItems.map((item) => (
+      <ul className="grid sm:grid-cols-2 gap-x-6 gap-y-2 mt-6 text-sm">
+        {pois.map(poi => (
+          <li key={poi.id}>
             <button
-              key={item.id}
               onClick={() => {
-                setPage(item.id);
-                setIsOpen(false);
+                setSelectedId(poi.id);
+                onSelectCategory(poi.category);
               }}
-              className={`text-left text-lg font-medium py-2 border-b border-gray-100 ${
-                currentPage === item.id ? 'text-[#D4AF37]' : 'text-gray-800'
-              }`}
+              className={`w-full flex items-center gap-2 text-left hover:text-primary ${poi.id === selectedId ? 'text-primary font-bold' : 'text-gray-600'}`}
             >
-              {item.label}
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: colorFor(poi.category) }}></span>
+              <span className="flex-1 truncate">{poi.name}</span>
+              <span className="text-gray-400 whitespace-nowrap">{formatDistance(poi.distance)} · 도보 {walkingMinutes(poi.distance)}분</span>
             </button>
+          </li>
+        ))}
+      </ul>
+      <p className="text-xs text-gray-400 mt-3">* 거리는 직선 거리이며, 도보 시간은 실제 경로를 감안한 추정치입니다.</p>
+
+      {isEditMode && (
+        <div className="mt-6 p-4 rounded-lg border-2 border-dashed border-accent bg-yellow-50/40 space-y-3 text-sm">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-bold text-primary w-full sm:w-auto">단지 위치</span>
+            <input type="text" value={data.center.name} onChange={(e) => editDraft(prev => ({ ...prev, center: { ...prev.center, name: e.target.value } }))} className={`${coordClass} w-28`} />
+            <input type="number" step="0.0001" value={data.center.lat} onChange={(e) => editDraft(prev => ({ ...prev, center: { ...prev.center, lat: Number(e.target.value) } }))} className={coordClass} title="위도" />
+            <input type="number" step="0.0001" value={data.center.lng} onChange={(e) => editDraft(prev => ({ ...prev, center: { ...prev.center, lng: Number(e.target.value) } }))} className={coordClass} title="경도" />
+            <button onClick={() => setPlacingId('center')} className="p-1 text-gray-500 hover:text-accent" title="지도에서 지정"><Crosshair size={16} /></button>
+          </div>
+          {data.pois.map(poi => (
+            <div key={poi.id} className="flex items-center gap-2 flex-wrap">
+              <input type="text" value={poi.name} onChange={(e) => updatePoi(poi.id, { name: e.target.value })} className={`${coordClass} w-32`} />
+              <input type="number" step="0.0001" value={poi.lat} onChange={(e) => updatePoi(poi.id, { lat: Number(e.target.value) })} className={coordClass} title="위도" />
+              <input type="number" step="0.0001" value={poi.lng} onChange={(e) => updatePoi(poi.id, { lng: Number(e.target.value) })} className={coordClass} title="경도" />
+              <select value={poi.category} onChange={(e) => updatePoi(poi.id, { category: e.target.value })} className={`${coordClass} w-32`}>
+                {categories.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+              </select>
+              <button onClick={() => setPlacingId(poi.id)} className="p-1 text-gray-500 hover:text-accent" title="지도에서 위치 지정"><Crosshair size={16} /></button>
+              <button onClick={() => editDraft(prev => ({ ...prev, pois: prev.pois.filter(p => p.id !== poi.id) }))} className="p-1 text-gray-400 hover:text-red-500" title="삭제"><Trash2 size={16} /></button>
+            </div>
           ))}
+          <div className="flex gap-2 pt-2">
+            <button onClick={() => setPlacingId('new')} className="px-3 py-1.5 rounded-lg border border-gray-300 bg-white font-bold text-primary hover:bg-gray-50 flex items-center gap-1">
+              <Plus size={14} /> 지도를 클릭해 지점 추가
+            </button>
+            {draft && (
+              <>
+                <button onClick={() => setDraft(null)} className="ml-auto px-3 py-1.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50">취소</button>
+                <button
+                  onClick={() => {
+                    setSaved(draft);
+                    setDraft(null);
+                  }}
+                  className="px-3 py-1.5 rounded-lg bg-primary text-white font-bold hover:bg-accent flex items-center gap-1"
+                >
+                  <Save size={14} /> 지도 저장
+                </button>
+              </>
+            )}
+          </div>
         </div>
       )}
-    </header>
+    </div>
+  );
+};
+
+const ProjectFactsEditor = ({
+  isOpen,
+  facts,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  facts: ProjectFacts;
+  onClose: () => void;
+  onSave: (facts: ProjectFacts) => void;
+}) => {
+  const [draft, setDraft] = useState<ProjectFacts>(facts);
+
+  useEffect(() => {
+    setDraft(facts);
+  }, [facts, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateUnit = (index: number, patch: Partial<UnitMixEntry>) => {
+    setDraft(prev => ({ ...prev, unitMix: prev.unitMix.map((entry, i) => i === index ? { ...entry, ...patch } : entry) }));
+  };
+
+  const fieldClass = "w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-2xl mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <ClipboardList size={18} /> 사업 개요 수정
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[70vh] overflow-y-auto">
+          <div className="grid sm:grid-cols-2 gap-4">
+            {FACT_FIELDS.map((field) => (
+              <label key={field.key} className={field.input === 'text' ? 'sm:col-span-2 block' : 'block'}>
+                <span className="block text-sm font-medium text-gray-700 mb-1">
+                  {field.label}{field.unit && <span className="text-gray-400"> ({field.unit})</span>}
+                </span>
+                <input
+                  type={field.input}
+                  min={field.input === 'number' ? 0 : undefined}
+                  value={draft[field.key]}
+                  onChange={(e) => setDraft(prev => ({
+                    ...prev,
+                    [field.key]: field.input === 'number' ? Number(e.target.value) || 0 : e.target.value,
+                  }))}
+                  className={fieldClass}
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-6">
+            <span className="block text-sm font-medium text-gray-700 mb-2">평형 구성</span>
+            <div className="space-y-2">
+              {draft.unitMix.map((entry, i) => (
+                <div key={i} className="flex gap-2 items-center">
+                  <input type="text" value={entry.type} onChange={(e) => updateUnit(i, { type: e.target.value })} placeholder="타입" className={`${fieldClass} w-28`} />
+                  <input
+                    type="number"
+                    min={0}
+                    value={entry.households ?? ''}
+                    onChange={(e) => updateUnit(i, { households: e.target.value === '' ? null : Number(e.target.value) || 0 })}
+                    placeholder="미정"
+                    className={`${fieldClass} w-32`}
+                  />
+                  <span className="text-sm text-gray-400">세대</span>
+                  <button
+                    onClick={() => setDraft(prev => ({ ...prev, unitMix: prev.unitMix.filter((_, j) => j !== i) }))}
+                    className="ml-auto text-gray-400 hover:text-red-500 p-1"
+                    title="삭제"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setDraft(prev => ({ ...prev, unitMix: [...prev.unitMix, { type: '', households: null }] }))}
+              className="mt-2 text-sm font-bold text-primary hover:text-accent flex items-center gap-1"
+            >
+              <Plus size={16} /> 타입 추가
+            </button>
+          </div>
+
+          <div className="flex gap-3 justify-end pt-6">
+            <button 
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button 
+              onClick={() => onSave({ ...draft, unitMix: draft.unitMix.filter(entry => entry.type.trim()) })}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2"
+            >
+              <Save size={18} />
+              저장하기
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ProjectFactsTable = () => {
+  const { isEditMode } = useEdit();
+  const [facts, setFacts] = useProjectFacts();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  return (
+    <>
+      <div
+        onClick={() => isEditMode && setIsEditorOpen(true)}
+        className={isEditMode ? 'cursor-pointer hover:bg-yellow-50 hover:outline hover:outline-2 hover:outline-dashed hover:outline-accent rounded transition-all' : ''}
+        title={isEditMode ? "클릭하여 사업 개요 수정" : ""}
+      >
+        <SpecTable
+          rows={FACT_ROWS
+            .map(row => ({ label: row.label, value: row.format(facts), emphasis: row.emphasis }))
+            .filter(row => row.value)}
+        />
+      </div>
+      <ProjectFactsEditor
+        isOpen={isEditorOpen}
+        facts={facts}
+        onClose={() => setIsEditorOpen(false)}
+        onSave={(next) => {
+          setFacts(next);
+          setIsEditorOpen(false);
+        }}
+      />
+    </>
   );
 };
 
-const Footer = ({ setPage }: { setPage: (p: Page) => void }) => (
-  <footer className="bg-[#0F172A] text-white py-12 border-t border-gray-800">
-    <div className="container mx-auto px-6 grid md:grid-cols-4 gap-8">
-      <div className="col-span-1 md:col-span-2">
-        <h3 className="text-2xl font-bold mb-4">CENTUM<span className="text-[#D4AF37]">SQUARE</span></h3>
-        <EditableText 
-          id="footer_desc"
-          defaultText={"동대구역의 미래 가치를 가장 먼저 선점하세요.\n전문가와 함께하는 안전하고 확실한 부동산 투자."}
-          className="text-gray-400 max-w-sm mb-6 block"
-          tag="p"
-        />
-        <div className="flex gap-4">
-          <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center hover:bg-[#D4AF37] transition-colors cursor-pointer">
-            <Phone size={18} />
-          </div>
-          <div className="w-10 h-10 rounded-full bg-gray-800 flex items-center justify-center hover:bg-[#D4AF37] transition-colors cursor-pointer">
-            <User size={18} />
-          </div>
-        </div>
-      </div>
-      
-      <div>
-        <h4 className="text-lg font-bold mb-4 border-b border-gray-700 pb-2 inline-block">바로가기</h4>
-        <ul className="space-y-2 text-gray-400">
-          <li><button onClick={() => setPage('analysis')} className="hover:text-[#D4AF37]">상세분석</button></li>
-          <li><button onClick={() => setPage('investment')} className="hover:text-[#D4AF37]">가치분석</button></li>
-          <li><button onClick={() => setPage('profile')} className="hover:text-[#D4AF37]">전문가 소개</button></li>
-          <li><button onClick={() => setPage('contact')} className="hover:text-[#D4AF37]">상담 문의</button></li>
-        </ul>
-      </div>
+const MILESTONE_BADGE_STYLES: Record<MilestoneStatus, string> = {
+  planned: 'bg-slate-100 text-gray-500',
+  construction: 'bg-blue-50 text-blue-600',
+  completed: 'bg-green-50 text-green-600',
+};
 
-      <div>
-        <h4 className="text-lg font-bold mb-4 border-b border-gray-700 pb-2 inline-block">문의하기</h4>
-        <address className="not-italic text-gray-400 space-y-2">
-          <EditableText id="footer_addr" defaultText="대구광역시 동구 신천동 325-1" tag="p" />
-          <EditableText id="footer_tel" defaultText="Tel: 053-247-9599" tag="p" />
-          <EditableText id="footer_email" defaultText="Email: nice7458@hanmail.net" tag="p" />
-          <p className="text-xs text-gray-500 mt-4">※ 본 사이트는 포트폴리오용 예시입니다.</p>
-        </address>
-      </div>
-    </div>
-  </footer>
-);
+const TimelineEditor = ({
+  isOpen,
+  events,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  events: TimelineEvent[];
+  onClose: () => void;
+  onSave: (events: TimelineEvent[]) => void;
+}) => {
+  const [rows, setRows] = useState<TimelineEvent[]>(events);
+  // Rows only become draggable while the grip is held so the inputs stay selectable
+  const [handleIndex, setHandleIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
 
-// --- Pages ---
+  useEffect(() => {
+    setRows(events);
+  }, [events, isOpen]);
+
+  if (!isOpen) return null;
+
+  const updateRow = (index: number, patch: Partial<TimelineEvent>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const invalidRows = rows.some(row => !isValidMilestoneDate(row.date.trim()) || !isValidSourceUrl(row.sourceUrl.trim()));
+  const fieldClass = "w-full px-3 py-2 rounded border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
 
-const MainPage = ({ setPage }: { setPage: (p: Page) => void }) => {
-  const { content, openEditor, isEditMode } = useEdit();
-  
   return (
-    <>
-      {/* Hero */}
-      <section className="relative h-screen min-h-[600px] flex items-center">
-        <div 
-          className="absolute inset-0 z-0 bg-cover bg-center transition-all duration-700"
-          style={{ backgroundImage: `url('${content['hero_img'] || DEFAULT_IMAGES.hero}')` }}
-        >
-          <div className="absolute inset-0 bg-gradient-to-r from-[#0F172A]/90 to-[#0F172A]/30"></div>
-        </div>
-        
-        {isEditMode && (
-           <button 
-            onClick={() => openEditor('hero_img', content['hero_img'] || DEFAULT_IMAGES.hero, 'image')}
-            className="absolute top-24 right-6 z-30 bg-white/20 hover:bg-white text-white hover:text-black p-3 rounded-full backdrop-blur-sm transition-all shadow-lg flex items-center gap-2"
-            title="배경 이미지 변경"
-           >
-             <ImageIcon size={20} />
-             <span className="text-sm font-bold">배경 변경</span>
-           </button>
-        )}
-        
-        <div className="container mx-auto px-6 relative z-10 text-white">
-          <div className="max-w-3xl animate-fade-in-up">
-            <EditableText 
-              id="hero_tag" 
-              defaultText="프리미엄 부동산 컨설팅" 
-              className="bg-[#D4AF37] text-white px-3 py-1 text-sm font-bold uppercase tracking-wider mb-4 inline-block"
-              tag="span"
-            />
-            <EditableText 
-              id="hero_title"
-              defaultText={"동대구의 미래,\n전문가의 시선으로 선택하다"}
-              className="text-4xl md:text-6xl font-bold leading-tight mb-6 block drop-shadow-lg"
-              tag="h1"
-            />
-            <EditableText 
-              id="hero_desc"
-              defaultText={"이편한세상 동대구역 센텀스퀘어.\n단순 주거를 넘어 자산 가치를 높이는 전략적인 선택을 제안합니다."}
-              className="text-lg md:text-xl text-gray-100 mb-10 font-light block leading-relaxed max-w-2xl"
-              tag="p"
-            />
-            <div className="flex flex-col sm:flex-row gap-4">
-              <Button onClick={() => setPage('contact')} variant="secondary">
-                <EditableText id="hero_cta_1" defaultText="무료 상담 신청하기" tag="span" /> <ArrowRight size={18} />
-              </Button>
-              <Button onClick={() => setPage('analysis')} variant="outline" className="border-white text-white hover:bg-white hover:text-[#0F172A]">
-                <EditableText id="hero_cta_2" defaultText="상세 정보 보기" tag="span" />
-              </Button>
-            </div>
-          </div>
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-3xl mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <Calendar size={18} /> 개발 호재 일정 수정
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
         </div>
-      </section>
 
-      {/* Problem & Solution */}
-      <section className="py-24 bg-white">
-        <div className="container mx-auto px-6">
-          <SectionHeading idPrefix="main_sec1" title="왜 지금, 동대구역인가?" subtitle="투자 핵심 포인트" />
-          
-          <div className="grid md:grid-cols-3 gap-8 mt-12">
-            {[
-              {
-                id: 'benefit_1',
-                icon: <TrendingUp className="w-10 h-10 text-[#D4AF37]" />,
-                title: "급부상하는 교통 허브",
-                desc: "KTX/SRT 동대구역, 엑스코선(4호선) 등 대구 경북 통합 신공항 연결의 중심지입니다."
-              },
-              {
-                id: 'benefit_2',
-                icon: <Building2 className="w-10 h-10 text-[#D4AF37]" />,
-                title: "신주거타운 형성",
-                desc: "신암뉴타운 개발과 함께 1만여 세대 브랜드 타운이 형성되어 주거 환경이 획기적으로 개선됩니다."
-              },
-              {
-                id: 'benefit_3',
-                icon: <BarChart3 className="w-10 h-10 text-[#D4AF37]" />,
-                title: "확실한 미래 가치",
-                desc: "현재의 가치보다 미래의 상승 여력이 더 큰, 지금이 가장 합리적인 진입 타이밍입니다."
-              }
-            ].map((item, idx) => (
-              <div key={idx} className="bg-slate-50 p-8 rounded-xl hover:shadow-xl transition-all duration-300 border border-gray-100 group hover:-translate-y-2">
-                <div className="mb-6 bg-white w-16 h-16 rounded-full flex items-center justify-center shadow-sm group-hover:scale-110 transition-transform ring-1 ring-gray-100">
-                  {item.icon}
+        <div className="p-6">
+          <p className="text-xs text-gray-500 mb-4">
+            * 날짜(YYYY, YYYY-MM, YYYY-MM-DD)가 있는 일정은 자동으로 시간순 정렬되며, 날짜가 지나면 '완료'로 표시됩니다. 날짜가 없는 일정은 끌어서 놓은 위치에 표시됩니다. 출처 링크는 http:// 또는 https:// 로 시작해야 합니다.
+          </p>
+          <div className="max-h-[55vh] overflow-y-auto space-y-3 pr-1">
+            {rows.map((row, i) => (
+              <div
+                key={row.id}
+                draggable={handleIndex === i}
+                onDragStart={() => setDragIndex(i)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => {
+                  if (dragIndex !== null) setRows(prev => moveItem(prev, dragIndex, i));
+                  setDragIndex(null);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setHandleIndex(null);
+                }}
+                className={`flex gap-3 p-4 rounded-lg border bg-white ${dragIndex === i ? 'border-accent opacity-50' : 'border-gray-200'}`}
+              >
+                <div
+                  className="text-gray-300 hover:text-gray-500 cursor-grab pt-2"
+                  onMouseDown={() => setHandleIndex(i)}
+                  onMouseUp={() => setHandleIndex(null)}
+                >
+                  <GripVertical size={18} />
                 </div>
-                <EditableText 
-                  id={`${item.id}_title`} 
-                  defaultText={item.title} 
-                  className="text-xl font-bold mb-4 text-[#0F172A] block" 
-                  tag="h3"
-                />
-                <EditableText 
-                  id={`${item.id}_desc`} 
-                  defaultText={item.desc} 
-                  className="text-gray-600 leading-relaxed block" 
-                  tag="p"
-                />
+                <div className="flex-1 grid grid-cols-2 sm:grid-cols-4 gap-2">
+                  <input
+                    type="text"
+                    value={row.date}
+                    onChange={(e) => updateRow(i, { date: e.target.value })}
+                    placeholder="날짜 (예: 2028-06)"
+                    className={`${fieldClass} ${isValidMilestoneDate(row.date.trim()) ? '' : 'border-red-400'}`}
+                  />
+                  <input type="text" value={row.label} onChange={(e) => updateRow(i, { label: e.target.value })} placeholder="표시 문구 (예: 현재)" className={fieldClass} />
+                  <select value={row.status} onChange={(e) => updateRow(i, { status: e.target.value as MilestoneStatus })} className={fieldClass}>
+                    {MILESTONE_STATUSES.map((status) => <option key={status.id} value={status.id}>{status.label}</option>)}
+                  </select>
+                  <input
+                    type="url"
+                    value={row.sourceUrl}
+                    onChange={(e) => updateRow(i, { sourceUrl: e.target.value })}
+                    placeholder="출처 링크 (https://...)"
+                    className={`${fieldClass} ${isValidSourceUrl(row.sourceUrl.trim()) ? '' : 'border-red-400'}`}
+                  />
+                  <input type="text" value={row.title} onChange={(e) => updateRow(i, { title: e.target.value })} placeholder="제목" className={`${fieldClass} col-span-2 sm:col-span-4 font-bold`} />
+                  <input type="text" value={row.desc} onChange={(e) => updateRow(i, { desc: e.target.value })} placeholder="설명" className={`${fieldClass} col-span-2 sm:col-span-4`} />
+                </div>
+                <button onClick={() => setRows(rows.filter((_, j) => j !== i))} className="text-gray-400 hover:text-red-500 self-start p-1" title="삭제">
+                  <Trash2 size={16} />
+                </button>
               </div>
             ))}
           </div>
-        </div>
-      </section>
-
-      {/* Highlight */}
-      <section className="py-24 bg-[#0F172A] text-white">
-        <div className="container mx-auto px-6 flex flex-col md:flex-row items-center gap-16">
-          <div className="w-full md:w-1/2">
-            <EditableImage
-              id="exterior_img"
-              defaultSrc={DEFAULT_IMAGES.exterior}
-              alt="센텀스퀘어 조감도"
-              className="rounded-lg shadow-2xl border-4 border-[#ffffff10]"
-            />
-          </div>
-          <div className="w-full md:w-1/2">
-            <div className="text-[#D4AF37] font-bold mb-2 tracking-widest text-sm">DL E&C PREMIUM</div>
-            <EditableText 
-              id="highlight_title"
-              defaultText={"이편한세상 센텀스퀘어\n핵심 프리미엄"}
-              className="text-3xl md:text-4xl font-bold mb-8 block leading-tight"
-              tag="h2"
-            />
-            <ul className="space-y-6">
-              {[
-                "대구 최초 C2 HOUSE 특화 설계 적용",
-                "동대구역 도보권 역세권 프리미엄",
-                "초품아(초등학교를 품은 아파트) 교육 환경",
-                "신세계백화점 등 풍부한 생활 인프라"
-              ].map((text, i) => (
-                <li key={i} className="flex items-start gap-4">
-                  <CheckCircle2 className="text-[#D4AF37] w-6 h-6 flex-shrink-0 mt-1" />
-                  <EditableText 
-                    id={`highlight_item_${i}`}
-                    defaultText={text}
-                    className="text-lg text-gray-300 font-light"
-                    tag="span"
-                  />
-                </li>
-              ))}
-            </ul>
-            <div className="mt-12">
-              <Button onClick={() => setPage('analysis')} variant="secondary">
-                자세히 알아보기
-              </Button>
-            </div>
+          <button onClick={() => setRows([...rows, createTimelineEvent()])} className="mt-3 text-sm font-bold text-primary hover:text-accent flex items-center gap-1">
+            <Plus size={16} /> 일정 추가
+          </button>
+
+          <div className="flex gap-3 justify-end pt-6">
+            <button 
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button 
+              onClick={() => onSave(rows.map(row => ({ ...row, date: row.date.trim(), sourceUrl: row.sourceUrl.trim() })).filter(row => row.title.trim()))}
+              disabled={invalidRows}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2 disabled:opacity-40 disabled:pointer-events-none"
+            >
+              <Save size={18} />
+              저장하기
+            </button>
           </div>
         </div>
-      </section>
+      </div>
+    </div>
+  );
+};
 
-      {/* Expert Insight */}
-      <section className="py-24 bg-slate-50">
-        <div className="container mx-auto px-6 max-w-4xl text-center">
-          <Quote className="w-12 h-12 text-[#D4AF37] mx-auto mb-8 opacity-40" />
-          <h3 className="text-2xl md:text-3xl font-medium text-gray-800 leading-relaxed mb-10 font-serif italic">
-            <EditableText 
-              id="expert_quote"
-              defaultText={`"부동산은 '사는 것(Buying)'이 아니라 '사는 곳(Living)'이자\n가장 중요한 '자산(Asset)'이어야 합니다.\n센텀스퀘어는 이 두 가지 조건을 모두 충족하는 유일한 해답입니다."`}
-              tag="span"
-            />
-          </h3>
-          <div className="flex items-center justify-center gap-5">
-            <div className="w-16 h-16 rounded-full overflow-hidden shadow-lg border-2 border-white">
-              <EditableImage 
-                id="expert_thumb"
-                defaultSrc={DEFAULT_IMAGES.profile}
-                alt="Expert"
-                className="w-full h-full object-cover"
-              />
-            </div>
-            <div className="text-left">
-              <EditableText id="expert_name" defaultText="정세동 부장" className="font-bold text-[#0F172A] text-lg block" tag="div" />
-              <EditableText id="expert_role" defaultText="부동산 투자 컨설턴트" className="text-sm text-[#D4AF37] block font-medium" tag="div" />
+const DevelopmentTimeline = () => {
+  const { isEditMode, content } = useEdit();
+  const [events, setEvents] = useContentJson(TIMELINE_KEY, legacyTimeline(content), isTimeline);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  return (
+    <>
+      {isEditMode && (
+        <button
+          onClick={() => setIsEditorOpen(true)}
+          className="mb-6 bg-white text-primary px-4 py-2 rounded-full text-sm font-bold shadow-md border border-gray-200 hover:bg-gray-50 flex items-center gap-2"
+        >
+          <Calendar size={16} /> 일정 추가 · 수정 · 순서 변경
+        </button>
+      )}
+      <div className="relative border-l-2 border-gray-200 ml-3 space-y-10 pl-8 py-2">
+        {orderTimeline(events).map((item) => {
+          const status = effectiveStatus(item);
+          return (
+            <div key={item.id} className="relative group">
+              <div className={`absolute -left-[43px] top-0 w-7 h-7 rounded-full border-4 border-accent shadow-sm group-hover:scale-125 transition-transform ${status === 'completed' ? 'bg-accent' : 'bg-white'}`}></div>
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-sm text-accent font-bold uppercase tracking-wider">{formatMilestoneDate(item)}</span>
+                <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${MILESTONE_BADGE_STYLES[status]}`}>
+                  {status === 'completed' && <CheckCircle2 size={12} className="inline -mt-0.5 mr-1" />}
+                  {MILESTONE_STATUSES.find(s => s.id === status)?.label}
+                </span>
+              </div>
+              <h4 className="text-lg font-bold text-gray-800 mb-1">{item.title}</h4>
+              <p className="text-gray-600 text-sm leading-relaxed">{item.desc}</p>
+              {item.sourceUrl && isSafeHref(item.sourceUrl) && (
+                <a href={item.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-xs text-gray-400 hover:text-accent inline-flex items-center gap-1 mt-2">
+                  출처 <ExternalLink size={12} />
+                </a>
+              )}
             </div>
-          </div>
-        </div>
-      </section>
+          );
+        })}
+      </div>
 
-      {/* CTA */}
-      <section className="py-24 bg-[#D4AF37] relative overflow-hidden">
-        <div className="absolute top-0 left-0 w-full h-full bg-black/5"></div>
-        <div className="container mx-auto px-6 text-center relative z-10">
-          <EditableText 
-            id="cta_main_title"
-            defaultText="망설이는 순간, 로얄동·로얄층은 사라집니다."
-            className="text-3xl md:text-5xl font-bold text-white mb-6 block drop-shadow-md"
-            tag="h2"
-          />
-          <EditableText 
-            id="cta_main_desc"
-            defaultText="지금 바로 전문가와 상담하고 특별한 혜택을 확인하세요."
-            className="text-white/90 text-xl mb-12 block"
-            tag="p"
-          />
-          <Button onClick={() => setPage('contact')} className="bg-red-600 text-white hover:bg-red-700 px-10 py-5 text-xl mx-auto shadow-2xl hover:scale-105 transform">
-            VIP 무료 상담 예약하기
-          </Button>
-        </div>
-      </section>
+      <TimelineEditor
+        isOpen={isEditorOpen}
+        events={events}
+        onClose={() => setIsEditorOpen(false)}
+        onSave={(next) => {
+          setEvents(next);
+          setIsEditorOpen(false);
+        }}
+      />
     </>
   );
 };
 
-const AnalysisPage = () => {
-  return (
-    <div className="pt-32 pb-20 bg-slate-50 min-h-screen">
-      <div className="container mx-auto px-6">
-        <SectionHeading idPrefix="analysis" title="상세 정보 분석" subtitle="심층 분석" />
+const CALCULATOR_HORIZONS = [1, 3, 5, 10];
 
-        {/* Project Overview */}
-        <div className="bg-white rounded-xl shadow-lg overflow-hidden mb-12">
-          <div className="h-64 md:h-96 relative group">
-             <EditableImage id="overview_img" defaultSrc={DEFAULT_IMAGES.exterior} alt="Overview" className="w-full h-full object-cover" />
-             <div className="absolute bottom-0 left-0 bg-[#0F172A]/90 text-white p-6 px-8 rounded-tr-2xl backdrop-blur-sm">
-               <h3 className="text-2xl font-bold">
-                 <EditableText id="overview_label" defaultText="사업 개요 요약" tag="span" />
-               </h3>
-             </div>
-          </div>
-          <div className="p-8 md:p-12 grid md:grid-cols-2 gap-12">
-            <div className="space-y-6">
-              <h4 className="text-2xl font-bold text-[#0F172A] border-l-4 border-[#D4AF37] pl-4">
-                 <EditableText id="overview_sec1_title" defaultText="사업 개요" tag="span" />
-              </h4>
-              <dl className="grid grid-cols-3 gap-y-6 gap-x-4 text-sm border-t border-gray-100 pt-6">
-                <dt className="text-gray-500 font-medium self-center">사업명</dt>
-                <dd className="col-span-2 text-gray-800 font-bold text-lg">이편한세상 동대구역 센텀스퀘어</dd>
-                
-                <dt className="text-gray-500 font-medium self-center">위치</dt>
-                <dd className="col-span-2 text-gray-800">대구광역시 동구 신천동 일원</dd>
+// Prefilled with the type's lowest catalogue price once one is entered.
+const createCalculatorInput = (unitType: string, price = 0): InvestmentInput => ({
+  unitType,
+  price,
+  downPayment: Math.round(price * 0.3),
+  loanRate: 4.2,
+  termYears: 30,
+  acquisitionTaxRate: estimateAcquisitionTaxRate(price),
+  appreciationRate: 3,
+});
+
+const CalculatorField = ({
+  label,
+  unit,
+  value,
+  step = 1,
+  onChange
+}: {
+  label: string;
+  unit: string;
+  value: number;
+  step?: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="block">
+    <span className="block text-sm font-bold text-gray-800 mb-2">{label}</span>
+    <div className="relative">
+      <input
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value) || 0)}
+        className="w-full pl-4 pr-14 py-3 rounded-xl border border-gray-200 bg-gray-50 focus:ring-2 focus:ring-accent focus:border-transparent outline-none transition-all"
+      />
+      <span className="absolute right-4 top-1/2 -translate-y-1/2 text-sm text-gray-400">{unit}</span>
+    </div>
+  </label>
+);
+
+const InvestmentCalculator = () => {
+  const { navigate } = useRouter();
+  const plans = useUnitPlans();
+  const unitTypes = plans.map(plan => plan.type);
+  const inputFor = (type: string) => createCalculatorInput(type, plans.find(plan => plan.type === type)?.priceMin ?? 0);
+  const [input, setInput] = useState<InvestmentInput>(() => inputFor(unitTypes[0] ?? ''));
+
+  const result = calculateInvestment(input, CALCULATOR_HORIZONS[CALCULATOR_HORIZONS.length - 1]);
+  const update = (patch: Partial<InvestmentInput>) => setInput(prev => ({ ...prev, ...patch }));
+
+  const updatePrice = (price: number) => {
+    update({ price, acquisitionTaxRate: estimateAcquisitionTaxRate(price) });
+  };
+
+  const sendToContact = () => {
+    saveContactHandoff({ type: input.unitType, memo: summarizeScenario(input, result) });
+    trackCtaClick('investment', 'calculator', 'contact');
+    navigate('contact');
+  };
 
-                <dt className="text-gray-500 font-medium self-center">규모</dt>
-                <dd className="col-span-2 text-gray-800">지하 5층 ~ 지상 24층, 4개동</dd>
+  return (
+    <div id="investment-calculator" className="bg-white rounded-xl shadow-xl border border-gray-100 p-8 md:p-12 mt-12 scroll-mt-28">
+      <h3 className="text-2xl font-bold text-primary mb-2 flex items-center gap-2">
+        <Calculator className="text-accent" />
+        <EditableText id="calc_title" defaultText="수익률 · 대출 시뮬레이션" tag="span" />
+      </h3>
+      <EditableText
+        id="calc_desc"
+        defaultText="분양가와 자기자본, 대출 조건을 입력하면 월 상환액과 보유 기간별 예상 수익률을 계산합니다."
+        className="text-gray-500 mb-10 block"
+        tag="p"
+      />
 
-                <dt className="text-gray-500 font-medium self-center">세대수</dt>
-                <dd className="col-span-2 text-gray-800">총 322세대 (아파트/오피스텔 포함)</dd>
-              </dl>
+      <div className="grid lg:grid-cols-2 gap-12">
+        <div className="space-y-6">
+          <div>
+            <span className="block text-sm font-bold text-gray-800 mb-2">평형</span>
+            <div className="grid grid-cols-4 gap-3">
+              {unitTypes.map((type) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => setInput(inputFor(type))}
+                  className={`py-3 border rounded-xl text-sm font-bold transition-all ${
+                    input.unitType === type
+                      ? 'bg-primary text-white border-primary shadow-md'
+                      : 'bg-white text-gray-500 hover:bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  {type}
+                </button>
+              ))}
             </div>
-            <div className="space-y-6">
-              <h4 className="text-2xl font-bold text-[#0F172A] border-l-4 border-[#D4AF37] pl-4">
-                <EditableText id="overview_sec2_title" defaultText="특화 설계 (C2 HOUSE)" tag="span" />
-              </h4>
-              <div className="bg-slate-50 p-6 rounded-lg text-gray-600 leading-relaxed text-lg">
-                <EditableText 
-                  id="overview_sec2_desc"
-                  defaultText={`라이프스타일 맞춤 주거 플랫폼 'C2 HOUSE'가 적용되어 내력벽을 최소화하고 가변형 벽체를 사용하여 입주자의 취향에 맞는 구조 변경이 가능합니다. 또한 세탁기와 건조기를 병렬 배치할 수 있는 원스톱 세탁존 등 실생활의 편의성을 극대화했습니다.`}
-                  tag="p"
-                />
-              </div>
+          </div>
+          <div className="grid sm:grid-cols-2 gap-6">
+            <div>
+              <CalculatorField label="분양가" unit="만원" step={100} value={input.price} onChange={updatePrice} />
+              {input.price === 0 && <p className="text-xs text-gray-400 mt-2">분양가를 입력하면 월 상환액과 수익률이 계산됩니다.</p>}
             </div>
+            <CalculatorField label="자기자본 (계약금 포함)" unit="만원" step={100} value={input.downPayment} onChange={(downPayment) => update({ downPayment })} />
+            <CalculatorField label="대출 금리 (연)" unit="%" step={0.1} value={input.loanRate} onChange={(loanRate) => update({ loanRate })} />
+            <CalculatorField label="대출 기간" unit="년" value={input.termYears} onChange={(termYears) => update({ termYears })} />
+            <CalculatorField label="취득세율 (교육세 포함)" unit="%" step={0.1} value={input.acquisitionTaxRate} onChange={(acquisitionTaxRate) => update({ acquisitionTaxRate })} />
+            <CalculatorField label="예상 시세 상승률 (연)" unit="%" step={0.5} value={input.appreciationRate} onChange={(appreciationRate) => update({ appreciationRate })} />
           </div>
         </div>
 
-        {/* Location & Map */}
-        <div className="grid md:grid-cols-3 gap-8">
-          <div className="md:col-span-2 bg-white p-8 rounded-xl shadow-lg">
-            <h4 className="text-xl font-bold mb-6 flex items-center gap-2">
-              <MapPin className="text-[#D4AF37]" /> <EditableText id="map_title" defaultText="입지 환경 지도" tag="span" />
-            </h4>
-            <div className="bg-gray-100 h-96 rounded-lg flex items-center justify-center text-gray-400 border-2 border-dashed border-gray-300 relative overflow-hidden">
-               <EditableImage 
-                 id="map_img" 
-                 defaultSrc="https://placehold.co/800x400/e2e8f0/94a3b8?text=Map+Location+Placeholder" 
-                 alt="지도" 
-                 className="absolute inset-0 w-full h-full object-cover"
-               />
-               <div className="absolute bottom-4 right-4 bg-white/80 px-4 py-2 rounded-lg text-xs font-bold text-gray-500">
-                 지도 이미지를 등록해주세요
-               </div>
+        <div>
+          <div className="grid grid-cols-2 gap-4 mb-8">
+            <div className="bg-primary text-white rounded-xl p-5">
+              <div className="text-sm text-gray-400 mb-1">월 상환액 (원리금균등)</div>
+              <div className="text-2xl font-bold text-accent">{formatManwon(result.monthlyPayment)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-5">
+              <div className="text-sm text-gray-500 mb-1">대출금</div>
+              <div className="text-2xl font-bold text-primary">{formatManwon(result.loanAmount)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-5">
+              <div className="text-sm text-gray-500 mb-1">총 이자</div>
+              <div className="text-xl font-bold text-primary">{formatManwon(result.totalInterest)}</div>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-5">
+              <div className="text-sm text-gray-500 mb-1">초기 필요 자금 (취득세 포함)</div>
+              <div className="text-xl font-bold text-primary">{formatManwon(result.initialCash)}</div>
             </div>
           </div>
-          <div className="space-y-4">
-            {[
-              { id: 'loc_1', title: "교통 환경", desc: "동대구역(KTX/SRT), 도시철도 1호선, 엑스코선(4호선)" },
-              { id: 'loc_2', title: "교육 환경", desc: "신암초등학교 도보 통학, 인근 초/중/고 밀집" },
-              { id: 'loc_3', title: "생활 인프라", desc: "신세계백화점, 파티마병원, 평화시장 등 풍부한 인프라" },
-              { id: 'loc_4', title: "자연 환경", desc: "신암공원, 기상대기념공원 등 쾌적한 녹지 공간" }
-            ].map((item, i) => (
-              <div key={i} className="bg-white p-6 rounded-xl shadow-md border-l-4 border-[#D4AF37] hover:shadow-lg transition-shadow">
-                <h5 className="font-bold text-[#0F172A] text-lg mb-2">
-                  <EditableText id={`${item.id}_title`} defaultText={item.title} tag="span" />
-                </h5>
-                <EditableText 
-                  id={`${item.id}_desc`} 
-                  defaultText={item.desc} 
-                  className="text-gray-600 block leading-relaxed"
-                  tag="p" 
-                />
-              </div>
-            ))}
-          </div>
+
+          <table className="w-full text-sm mb-4">
+            <thead className="text-gray-500 text-left border-b border-gray-200">
+              <tr>
+                <th className="pb-2 font-medium">보유 기간</th>
+                <th className="pb-2 font-medium text-right">예상 시세</th>
+                <th className="pb-2 font-medium text-right">순자산</th>
+                <th className="pb-2 font-medium text-right">ROI</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {result.projections.filter(p => CALCULATOR_HORIZONS.includes(p.year)).map((p) => (
+                <tr key={p.year}>
+                  <td className="py-3 font-bold text-gray-800">{p.year}년 후</td>
+                  <td className="py-3 text-right text-gray-600">{formatManwon(p.propertyValue)}</td>
+                  <td className="py-3 text-right text-gray-800 font-medium">{formatManwon(p.equity)}</td>
+                  <td className={`py-3 text-right font-bold ${p.roi >= 0 ? 'text-accent' : 'text-red-500'}`}>
+                    {p.roi >= 0 ? '+' : ''}{p.roi.toFixed(1)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-400 mb-8">
+            * ROI는 순자산에서 지금까지 지출한 금액(자기자본·취득세·원리금 상환액)을 뺀 값을 지출 금액으로 나눈 값입니다. 예시 계산이며 실제 조건과 다를 수 있습니다.
+          </p>
+
+          <Button onClick={sendToContact} variant="secondary" className="w-full">
+            이 시나리오로 상담 신청하기 <ArrowRight size={18} />
+          </Button>
         </div>
       </div>
     </div>
@@ -730,7 +4411,7 @@ const InvestmentPage = () => {
           <div className="relative h-[500px]">
             <EditableImage id="chart_bg" defaultSrc={DEFAULT_IMAGES.chart} alt="Market Analysis" className="w-full h-full object-cover opacity-10 absolute inset-0" />
             <div className="absolute inset-0 flex flex-col items-center justify-center p-8 text-center z-10">
-              <h3 className="text-3xl font-bold text-[#0F172A] mb-4">
+              <h3 className="text-3xl font-bold text-primary mb-4">
                  <EditableText id="chart_title" defaultText="동대구 역세권 시세 추이" tag="span" />
               </h3>
               <div className="text-gray-600 max-w-2xl mb-12 text-lg">
@@ -742,29 +4423,7 @@ const InvestmentPage = () => {
               </div>
               
               {/* Chart Visual */}
-              <div className="flex gap-4 sm:gap-12 items-end h-64 w-full max-w-3xl justify-center pb-8 border-b border-gray-200">
-                <div className="w-20 flex flex-col items-center gap-2 group">
-                  <div className="w-full bg-gray-200 h-32 rounded-t-lg relative transition-all group-hover:bg-[#D4AF37]/50"></div>
-                  <span className="text-sm font-bold text-gray-500">2021</span>
-                </div>
-                <div className="w-20 flex flex-col items-center gap-2 group">
-                  <div className="w-full bg-gray-300 h-40 rounded-t-lg relative transition-all group-hover:bg-[#D4AF37]/50"></div>
-                  <span className="text-sm font-bold text-gray-500">2022</span>
-                </div>
-                <div className="w-20 flex flex-col items-center gap-2 group">
-                  <div className="w-full bg-gray-400 h-48 rounded-t-lg relative transition-all group-hover:bg-[#D4AF37]/50"></div>
-                  <span className="text-sm font-bold text-gray-500">2023</span>
-                </div>
-                <div className="w-20 flex flex-col items-center gap-2 group">
-                  <div className="w-full bg-[#0F172A] h-56 rounded-t-lg relative shadow-lg transition-all group-hover:bg-[#0F172A]/80"></div>
-                  <span className="text-sm font-bold text-[#0F172A]">2024</span>
-                </div>
-                <div className="w-20 flex flex-col items-center gap-2 group relative">
-                  <div className="absolute -top-12 bg-red-500 text-white text-xs px-2 py-1 rounded shadow-md animate-bounce">UP</div>
-                  <div className="w-full bg-[#D4AF37] h-64 rounded-t-lg relative shadow-xl"></div>
-                  <span className="text-sm font-bold text-[#D4AF37]">입주 시점</span>
-                </div>
-              </div>
+              <PriceTrendChart />
             </div>
           </div>
         </div>
@@ -772,59 +4431,49 @@ const InvestmentPage = () => {
         {/* Development Timeline */}
         <div className="grid md:grid-cols-2 gap-12 items-start">
           <div className="bg-white p-8 rounded-xl shadow-lg">
-            <h3 className="text-2xl font-bold text-[#0F172A] mb-8 flex items-center gap-2">
-              <Calendar className="text-[#D4AF37]" />
+            <h3 className="text-2xl font-bold text-primary mb-8 flex items-center gap-2">
+              <Calendar className="text-accent" />
               <EditableText id="timeline_title" defaultText="주요 개발 호재 일정" tag="span" />
             </h3>
-            <div className="relative border-l-2 border-gray-200 ml-3 space-y-10 pl-8 py-2">
-              {[
-                { id: 'time_1', year: "현재", title: "동대구 벤처밸리 활성화", desc: "지식서비스산업 거점 조성 중" },
-                { id: 'time_2', year: "2024", title: "대구권 광역철도 개통 예정", desc: "구미~대구~경산 40분대 연결로 광역 교통망 확충" },
-                { id: 'time_3', year: "2028", title: "엑스코선(4호선) 개통 예정", desc: "수성구민운동장~동대구역~이시아폴리스 연결" },
-                { id: 'time_4', year: "미래", title: "대구경북통합신공항", desc: "글로벌 물류 경제 공항으로 도약 및 배후 도시 성장" },
-              ].map((item, i) => (
-                <div key={i} className="relative group">
-                  <div className="absolute -left-[43px] top-0 w-7 h-7 rounded-full bg-white border-4 border-[#D4AF37] shadow-sm group-hover:scale-125 transition-transform"></div>
-                  <span className="text-sm text-[#D4AF37] font-bold mb-1 block uppercase tracking-wider">
-                    <EditableText id={`${item.id}_year`} defaultText={item.year} tag="span" />
-                  </span>
-                  <h4 className="text-lg font-bold text-gray-800 mb-1">
-                    <EditableText id={`${item.id}_title`} defaultText={item.title} tag="span" />
-                  </h4>
-                  <p className="text-gray-600 text-sm leading-relaxed">
-                    <EditableText id={`${item.id}_desc`} defaultText={item.desc} tag="span" />
-                  </p>
-                </div>
-              ))}
-            </div>
+            <DevelopmentTimeline />
           </div>
           
-          <div className="bg-[#0F172A] p-10 rounded-xl text-white shadow-2xl sticky top-28">
+          <div className="bg-primary p-10 rounded-xl text-white shadow-2xl sticky top-28">
             <h3 className="text-xl font-bold mb-8 flex items-center gap-3 border-b border-gray-700 pb-4">
-              <TrendingUp className="text-[#D4AF37]" /> <EditableText id="invest_point_title" defaultText="전문가 투자 코멘트" tag="span" />
+              <TrendingUp className="text-accent" /> <EditableText id="invest_point_title" defaultText="전문가 투자 코멘트" tag="span" />
             </h3>
-            <ul className="space-y-6">
-              <li className="flex gap-4">
-                <CheckCircle2 className="text-[#D4AF37] shrink-0 w-6 h-6 mt-1" />
-                <span className="text-gray-200 text-lg"><EditableText id="invest_point_1" defaultText="동대구역 도보 역세권의 절대적인 희소가치 보유" tag="span" /></span>
-              </li>
-              <li className="flex gap-4">
-                <CheckCircle2 className="text-[#D4AF37] shrink-0 w-6 h-6 mt-1" />
-                <span className="text-gray-200 text-lg"><EditableText id="invest_point_2" defaultText="1만 세대 브랜드 타운 형성으로 인한 동반 시세 상승 효과" tag="span" /></span>
-              </li>
-              <li className="flex gap-4">
-                <CheckCircle2 className="text-[#D4AF37] shrink-0 w-6 h-6 mt-1" />
-                <span className="text-gray-200 text-lg"><EditableText id="invest_point_3" defaultText="초기 투자금 부담을 낮춘 특별 금융 혜택 제공 (상담 필수)" tag="span" /></span>
-              </li>
-            </ul>
+            <EditableList
+              listKey="investPoints"
+              tag="ul"
+              itemTag="li"
+              className="space-y-6"
+              itemClassName="flex gap-4"
+              defaults={{
+                invest_point_1: { text: "동대구역 도보 역세권의 절대적인 희소가치 보유" },
+                invest_point_2: { text: "1만 세대 브랜드 타운 형성으로 인한 동반 시세 상승 효과" },
+                invest_point_3: { text: "초기 투자금 부담을 낮춘 특별 금융 혜택 제공 (상담 필수)" }
+              }}
+              newItem={{ text: "새 투자 코멘트" }}
+              renderItem={(itemId, item) => (
+                <>
+                  <CheckCircle2 className="text-accent shrink-0 w-6 h-6 mt-1" />
+                  <span className="text-gray-200 text-lg"><EditableText id={itemId} defaultText={item.text} tag="span" /></span>
+                </>
+              )}
+            />
             <div className="mt-10 bg-white/10 p-6 rounded-lg text-center backdrop-blur-sm">
               <p className="text-gray-300 mb-4 font-light">더 구체적인 수익률 분석이 필요하신가요?</p>
-              <button className="text-[#D4AF37] font-bold text-lg underline hover:text-white transition-colors flex items-center justify-center gap-2 w-full">
-                전문가 상담 신청하기 <ArrowRight size={16} />
+              <button 
+                onClick={() => document.getElementById('investment-calculator')?.scrollIntoView({ behavior: 'smooth' })}
+                className="text-accent font-bold text-lg underline hover:text-white transition-colors flex items-center justify-center gap-2 w-full"
+              >
+                수익률 직접 계산해보기 <ArrowRight size={16} />
               </button>
             </div>
           </div>
         </div>
+
+        <InvestmentCalculator />
       </div>
     </div>
   );
@@ -844,15 +4493,15 @@ const ProfilePage = () => {
                 className="w-full aspect-[3/4] object-cover rounded-2xl shadow-2xl mb-8"
                />
                <div className="text-center">
-                 <h2 className="text-3xl font-bold text-[#0F172A] mb-2">
+                 <h2 className="text-3xl font-bold text-primary mb-2">
                    <EditableText id="profile_name" defaultText="정세동 부장" tag="span" />
                  </h2>
-                 <p className="text-[#D4AF37] font-medium mb-6 text-lg">
+                 <p className="text-accent font-medium mb-6 text-lg">
                    <EditableText id="profile_role_en" defaultText="부동산 투자 컨설턴트" tag="span" />
                  </p>
                  <div className="flex justify-center gap-4">
-                   <div className="w-12 h-12 bg-slate-50 rounded-full flex items-center justify-center text-gray-600 hover:bg-[#0F172A] hover:text-white transition-all cursor-pointer shadow-md"><Phone size={20} /></div>
-                   <div className="w-12 h-12 bg-slate-50 rounded-full flex items-center justify-center text-gray-600 hover:bg-[#0F172A] hover:text-white transition-all cursor-pointer shadow-md"><User size={20} /></div>
+                   <div className="w-12 h-12 bg-slate-50 rounded-full flex items-center justify-center text-gray-600 hover:bg-primary hover:text-white transition-all cursor-pointer shadow-md"><Phone size={20} /></div>
+                   <div className="w-12 h-12 bg-slate-50 rounded-full flex items-center justify-center text-gray-600 hover:bg-primary hover:text-white transition-all cursor-pointer shadow-md"><User size={20} /></div>
                  </div>
                </div>
              </div>
@@ -862,7 +4511,7 @@ const ProfilePage = () => {
              <SectionHeading idPrefix="profile" title="인사말" align="left" subtitle="전문가 프로필" />
              
              <div className="prose max-w-none text-gray-600 space-y-8 mb-16">
-               <div className="text-2xl font-light leading-relaxed text-[#0F172A] border-l-4 border-[#D4AF37] pl-6 italic">
+               <div className="text-2xl font-light leading-relaxed text-primary border-l-4 border-accent pl-6 italic">
                  <EditableText 
                    id="profile_intro_1"
                    defaultText={`"안녕하세요. 동대구역 부동산 투자의 정석, 정세동 부장입니다.\n지난 10년간 대구/경북 지역의 부동산 시장 흐름을 현장에서 직접 경험하며\n수많은 고객님들의 내 집 마련과 자산 증식을 도왔습니다."`}
@@ -885,26 +4534,46 @@ const ProfilePage = () => {
 
              <div className="grid sm:grid-cols-2 gap-8">
                <div className="bg-slate-50 p-8 rounded-xl border border-gray-100 hover:shadow-lg transition-shadow">
-                 <h4 className="font-bold text-xl mb-6 text-[#0F172A] flex items-center gap-2">
-                   <User size={20} className="text-[#D4AF37]" /> <EditableText id="career_title" defaultText="주요 경력" tag="span" />
+                 <h4 className="font-bold text-xl mb-6 text-primary flex items-center gap-2">
+                   <User size={20} className="text-accent" /> <EditableText id="career_title" defaultText="주요 경력" tag="span" />
                  </h4>
-                 <ul className="space-y-3 text-gray-600">
-                   <li>· <EditableText id="career_1" defaultText="(현) 센텀스퀘어 전문 분양 상담사" tag="span" /></li>
-                   <li>· <EditableText id="career_2" defaultText="(현) 대구 수성구 A부동산 수석 팀장" tag="span" /></li>
-                   <li>· <EditableText id="career_3" defaultText="공인중개사 자격 보유" tag="span" /></li>
-                   <li>· <EditableText id="career_4" defaultText="부동산 자산관리 전문가 과정 수료" tag="span" /></li>
-                 </ul>
+                 <EditableList
+                   listKey="careers"
+                   tag="ul"
+                   itemTag="li"
+                   className="space-y-3 text-gray-600"
+                   defaults={{
+                     career_1: { text: "(현) 센텀스퀘어 전문 분양 상담사" },
+                     career_2: { text: "(현) 대구 수성구 A부동산 수석 팀장" },
+                     career_3: { text: "공인중개사 자격 보유" },
+                     career_4: { text: "부동산 자산관리 전문가 과정 수료" }
+                   }}
+                   newItem={{ text: "새 경력" }}
+                   renderItem={(itemId, item) => (
+                     <>· <EditableText id={itemId} defaultText={item.text} tag="span" /></>
+                   )}
+                 />
                </div>
-               <div className="bg-[#0F172A] p-8 rounded-xl text-white shadow-lg">
+               <div className="bg-primary p-8 rounded-xl text-white shadow-lg">
                  <h4 className="font-bold text-xl mb-6 text-white flex items-center gap-2">
-                   <Star size={20} className="text-[#D4AF37]" /> <EditableText id="field_title" defaultText="전문 분야" tag="span" />
+                   <Star size={20} className="text-accent" /> <EditableText id="field_title" defaultText="전문 분야" tag="span" />
                  </h4>
-                 <ul className="space-y-3 text-gray-300">
-                   <li>· <EditableText id="field_1" defaultText="아파트 청약 및 분양권 분석" tag="span" /></li>
-                   <li>· <EditableText id="field_2" defaultText="역세권 개발 호재 및 시세 예측" tag="span" /></li>
-                   <li>· <EditableText id="field_3" defaultText="실거주 vs 투자 목적 맞춤형 포트폴리오" tag="span" /></li>
-                   <li>· <EditableText id="field_4" defaultText="세무/대출 연계 원스톱 서비스" tag="span" /></li>
-                 </ul>
+                 <EditableList
+                   listKey="specialties"
+                   tag="ul"
+                   itemTag="li"
+                   className="space-y-3 text-gray-300"
+                   defaults={{
+                     field_1: { text: "아파트 청약 및 분양권 분석" },
+                     field_2: { text: "역세권 개발 호재 및 시세 예측" },
+                     field_3: { text: "실거주 vs 투자 목적 맞춤형 포트폴리오" },
+                     field_4: { text: "세무/대출 연계 원스톱 서비스" }
+                   }}
+                   newItem={{ text: "새 전문 분야" }}
+                   renderItem={(itemId, item) => (
+                     <>· <EditableText id={itemId} defaultText={item.text} tag="span" /></>
+                   )}
+                 />
                </div>
              </div>
           </div>
@@ -914,14 +4583,443 @@ const ProfilePage = () => {
   );
 };
 
+const DEFAULT_CONTACT_TIME = "10:00 ~ 18:00 (연중무휴)";
+// No 관심 평형 is preselected; the choices are the unit mix types
+const EMPTY_CONTACT_FORM: ContactFormData = { name: '', phone: '', time: '', type: '', consent: false };
+
+const FieldError = ({ message }: { message?: string }) =>
+  message ? <p className="mt-2 text-sm text-red-500">{message}</p> : null;
+
+// Contact form errors are held as UI string keys and translated on render
+type ContactFieldErrors = Partial<Record<keyof ContactFormData, UiStringKey>>;
+
+const validationKeys = (errors: ContactFormErrors): ContactFieldErrors =>
+  Object.fromEntries(Object.entries(errors).map(([field, code]) => [field, `validation.${code}` as UiStringKey]));
+
+const inputClass = (hasError: boolean) =>
+  `w-full px-5 py-4 rounded-xl border bg-gray-50 focus:ring-2 focus:ring-accent focus:border-transparent outline-none transition-all ${hasError ? 'border-red-400' : 'border-gray-200'}`;
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+const toTimeInput = (minutes: number) => `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const fromTimeInput = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+const BookingSettingsEditor = ({
+  isOpen,
+  settings,
+  onClose,
+  onSave
+}: {
+  isOpen: boolean;
+  settings: BookingSettings;
+  onClose: () => void;
+  onSave: (settings: BookingSettings) => void;
+}) => {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<BookingSettings>(settings);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [isYearly, setIsYearly] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings, isOpen]);
+
+  if (!isOpen) return null;
+
+  const update = (patch: Partial<BookingSettings>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const toggleDay = (day: number) => update({
+    days: draft.days.includes(day) ? draft.days.filter(d => d !== day) : [...draft.days, day].sort(),
+  });
+
+  const addHoliday = () => {
+    const entry = isYearly ? holidayDate.slice(5) : holidayDate;
+    if (!isHolidayEntry(entry) || draft.holidays.includes(entry)) return;
+    update({ holidays: [...draft.holidays, entry].sort() });
+    setHolidayDate('');
+  };
+
+  const isValid = draft.open < draft.close && draft.days.length > 0;
+  const fieldClass = "w-full px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-accent focus:border-transparent outline-none bg-slate-50 text-sm";
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white rounded-xl shadow-2xl w-full max-w-xl mx-4 overflow-hidden">
+        <div className="bg-primary text-white px-6 py-4 flex justify-between items-center">
+          <h3 className="text-lg font-bold flex items-center gap-2">
+            <CalendarClock size={18} /> 예약 설정
+          </h3>
+          <button onClick={onClose} className="text-gray-300 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 max-h-[70vh] overflow-y-auto space-y-6">
+          <p className="text-xs text-gray-500">
+            상담 예약 달력의 시간을 정합니다. 왼쪽 안내의 '상담 가능 시간' 문구는 별도로 수정해 주세요.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1">시작 시간</span>
+              <input type="time" step={1800} value={toTimeInput(draft.open)} onChange={(e) => update({ open: fromTimeInput(e.target.value) })} className={fieldClass} />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1">종료 시간</span>
+              <input type="time" step={1800} value={toTimeInput(draft.close)} onChange={(e) => update({ close: fromTimeInput(e.target.value) })} className={fieldClass} />
+            </label>
+          </div>
+
+          <div>
+            <span className="block text-xs font-medium text-gray-600 mb-1">상담 요일</span>
+            <div className="flex gap-2">
+              {WEEKDAYS.map(day => (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  className={`w-10 h-10 rounded-full text-sm font-bold border transition-colors ${draft.days.includes(day) ? 'bg-primary text-white border-primary' : 'border-gray-200 text-gray-400 hover:border-accent'}`}
+                >
+                  {t(`booking.day${day}` as UiStringKey)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1">상담 단위</span>
+              <select value={draft.slotMinutes} onChange={(e) => update({ slotMinutes: Number(e.target.value) })} className={fieldClass}>
+                {SLOT_LENGTHS.map(minutes => <option key={minutes} value={minutes}>{minutes}분</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1">최소 예약 간격 <span className="text-gray-400">(시간)</span></span>
+              <input type="number" min={0} max={24} value={draft.leadMinutes / 60} onChange={(e) => update({ leadMinutes: Math.min(24, Math.max(0, Math.round(Number(e.target.value) || 0))) * 60 })} className={fieldClass} />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-medium text-gray-600 mb-1">예약 가능 기간 <span className="text-gray-400">(일)</span></span>
+              <input type="number" min={1} max={180} value={draft.horizonDays} onChange={(e) => update({ horizonDays: Math.min(180, Math.max(1, Math.round(Number(e.target.value) || 1))) })} className={fieldClass} />
+            </label>
+          </div>
+
+          <div>
+            <span className="block text-xs font-medium text-gray-600 mb-1">휴무일</span>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {draft.holidays.length === 0 && <span className="text-sm text-gray-400">등록된 휴무일이 없습니다.</span>}
+              {draft.holidays.map(entry => (
+                <span key={entry} className="inline-flex items-center gap-1 px-3 py-1 rounded-full bg-slate-100 text-sm text-gray-700">
+                  {entry.length === 5 ? `매년 ${entry}` : entry}
+                  <button
+                    onClick={() => update({ holidays: draft.holidays.filter(item => item !== entry) })}
+                    className="text-gray-400 hover:text-red-500"
+                    title="삭제"
+                  >
+                    <X size={14} />
+                  </button>
+                </span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2 items-center">
+              <input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} className={`${fieldClass} w-44`} />
+              <label className="flex items-center gap-1 text-sm text-gray-600">
+                <input type="checkbox" checked={isYearly} onChange={(e) => setIsYearly(e.target.checked)} className="accent-primary" /> 매년 반복
+              </label>
+              <button
+                onClick={addHoliday}
+                disabled={!holidayDate}
+                className="text-sm font-bold text-primary hover:text-accent flex items-center gap-1 disabled:opacity-40"
+              >
+                <Plus size={16} /> 추가
+              </button>
+              <button
+                onClick={() => update({ holidays: Array.from(new Set([...draft.holidays, ...FIXED_PUBLIC_HOLIDAYS])).sort() })}
+                className="ml-auto text-xs text-gray-500 underline hover:text-primary"
+              >
+                법정 공휴일 불러오기
+              </button>
+            </div>
+            <p className="mt-2 text-xs text-gray-400">설날·추석 등 음력 공휴일은 해마다 날짜로 추가해 주세요.</p>
+          </div>
+
+          {!isValid && <p className="text-sm text-red-500">종료 시간은 시작 시간보다 늦어야 하며, 상담 요일을 하루 이상 선택해야 합니다.</p>}
+
+          <div className="flex gap-3 justify-end pt-2">
+            <button 
+              onClick={onClose}
+              className="px-5 py-2.5 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 font-medium transition-colors"
+            >
+              취소
+            </button>
+            <button 
+              onClick={() => onSave(draft)}
+              disabled={!isValid}
+              className="px-5 py-2.5 rounded-lg bg-primary text-white hover:bg-accent font-bold shadow-lg transition-colors flex items-center gap-2 disabled:opacity-40"
+            >
+              <Save size={18} />
+              저장하기
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Week strip with the chosen day's slots below. Dates depend on the visitor's
+// clock, so nothing is drawn until after mount (the static build renders the
+// page at build time).
+const SlotPicker = ({
+  settings,
+  value,
+  onChange,
+  refreshKey,
+  hasError
+}: {
+  settings: BookingSettings;
+  value: string;
+  onChange: (slotKey: string) => void;
+  refreshKey: number;
+  hasError: boolean;
+}) => {
+  const { locale, t } = useLocale();
+  const lang = LOCALES.find(option => option.id === locale)?.htmlLang ?? 'ko';
+  const [now, setNow] = useState<Date | null>(null);
+  const [weekStart, setWeekStart] = useState<Date | null>(null);
+  const [selectedDay, setSelectedDay] = useState<Date | null>(null);
+  const [booked, setBooked] = useState<string[]>([]);
+
+  useEffect(() => {
+    const current = new Date();
+    const initial = (value && parseSlotKey(value)) || current;
+    setNow(current);
+    setWeekStart(startOfWeek(initial));
+    if (value) setSelectedDay(startOfDay(initial));
+  }, []);
+
+  const weekTime = weekStart?.getTime();
+  useEffect(() => {
+    if (!weekStart) return;
+    let cancelled = false;
+    getReservationStore().listBooked(slotKey(weekStart), slotKey(addDays(weekStart, 7)))
+      .then(keys => !cancelled && setBooked(keys))
+      .catch(() => !cancelled && setBooked([]));
+    return () => { cancelled = true; };
+  }, [weekTime, refreshKey]);
+
+  if (!now || !weekStart) {
+    return <div className={`h-28 rounded-xl border bg-gray-50 ${hasError ? 'border-red-400' : 'border-gray-200'}`} />;
+  }
+
+  const days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i));
+  const openSlots = (day: Date) => slotsForDay(day, settings, now).filter(slot => !booked.includes(slot.key));
+  const canGoBack = weekStart > startOfWeek(now);
+  const canGoForward = addDays(weekStart, 7) < addDays(startOfDay(now), settings.horizonDays);
+  const daySlots = selectedDay ? slotsForDay(selectedDay, settings, now) : [];
+
+  const moveWeek = (offset: number) => {
+    setWeekStart(addDays(weekStart, offset * 7));
+    setSelectedDay(null);
+  };
+
+  return (
+    <div className={`rounded-xl border p-4 bg-gray-50 ${hasError ? 'border-red-400' : 'border-gray-200'}`}>
+      <div className="flex justify-between items-center mb-3">
+        <button type="button" onClick={() => moveWeek(-1)} disabled={!canGoBack} className="p-1 text-gray-500 hover:text-primary disabled:opacity-30" title={t('booking.prevWeek')}>
+          <ChevronLeft size={20} />
+        </button>
+        <span className="font-bold text-primary">{weekStart.toLocaleDateString(lang, { year: 'numeric', month: 'long', timeZone: SEOUL_TIME_ZONE })}</span>
+        <button type="button" onClick={() => moveWeek(1)} disabled={!canGoForward} className="p-1 text-gray-500 hover:text-primary disabled:opacity-30" title={t('booking.nextWeek')}>
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {days.map(day => {
+          const status = dayStatus(day, settings, now);
+          const available = status === 'open' ? openSlots(day).length : 0;
+          const isSelected = !!selectedDay && dateKey(selectedDay) === dateKey(day);
+          const hasValue = value.startsWith(dateKey(day));
+          return (
+            <button
+              key={dateKey(day)}
+              type="button"
+              onClick={() => setSelectedDay(day)}
+              disabled={status !== 'open'}
+              className={`py-2 rounded-lg text-center border transition-colors disabled:cursor-not-allowed ${
+                isSelected
+                  ? 'bg-primary text-white border-primary'
+                  : status === 'open'
+                    ? 'bg-white border-gray-200 hover:border-accent'
+                    : 'bg-transparent border-transparent text-gray-300'
+              }`}
+            >
+              <div className={`text-xs ${isSelected ? 'text-gray-300' : dayOfWeek(day) === 0 ? 'text-red-400' : 'text-gray-400'}`}>
+                {day.toLocaleDateString(lang, { weekday: 'short', timeZone: SEOUL_TIME_ZONE })}
+              </div>
+              <div className={`font-bold ${hasValue && !isSelected ? 'text-accent' : ''}`}>{dayOfMonth(day)}</div>
+              <div className={`text-[10px] ${isSelected ? 'text-accent' : 'text-gray-400'}`}>
+                {status === 'holiday' || status === 'closed'
+                  ? t('booking.closed')
+                  : status === 'open'
+                    ? (available > 0 ? t('booking.slotsLeft', { count: available }) : t('booking.full'))
+                    : ' '}
+              </div>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-4">
+        {!selectedDay ? (
+          <p className="text-sm text-gray-400 text-center py-2">{t('booking.pickDay')}</p>
+        ) : daySlots.length === 0 ? (
+          <p className="text-sm text-gray-400 text-center py-2">{t('booking.noSlots')}</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {daySlots.map(slot => {
+              const isBooked = booked.includes(slot.key);
+              return (
+                <button
+                  key={slot.key}
+                  type="button"
+                  onClick={() => onChange(slot.key)}
+                  disabled={isBooked}
+                  className={`py-2 rounded-lg text-sm font-bold border transition-colors disabled:cursor-not-allowed disabled:line-through disabled:text-gray-300 disabled:bg-transparent ${
+                    value === slot.key
+                      ? 'bg-accent text-white border-accent'
+                      : 'bg-white text-gray-600 border-gray-200 hover:border-accent'
+                  }`}
+                >
+                  {formatSlotTime(slot.start)}
+                </button>
+              );
+            })}
+          </div>
+        )}
+        {!isSeoulTime(now) && <p className="text-xs text-gray-400 mt-3">{t('booking.localTime')}</p>}
+      </div>
+    </div>
+  );
+};
+
 const ContactPage = () => {
-  const [formData, setFormData] = useState({ name: '', phone: '', time: '', type: '84A' });
-  const [submitted, setSubmitted] = useState(false);
+  const { isEditMode, content, updateContent } = useEdit();
+  const { locale, t } = useLocale();
+  const [formData, setFormData] = useState<ContactFormData>(() => {
+    const handoff = loadContactHandoff();
+    return handoff.type ? { ...EMPTY_CONTACT_FORM, type: handoff.type } : EMPTY_CONTACT_FORM;
+  });
+  const [memo, setMemo] = useState(() => loadContactHandoff().memo ?? '');
+  const [errors, setErrors] = useState<ContactFieldErrors>({});
+  const [confirmation, setConfirmation] = useState<{ slot: Slot; reservation: Reservation; type: string } | null>(null);
+  const [bookedVersion, setBookedVersion] = useState(0);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showConsentDetail, setShowConsentDetail] = useState(false);
+
+  // The same types as the floor plans, so their 상담 신청 buttons can preselect one
+  const unitTypes = useUnitPlans().map(plan => plan.type);
+
+  // Sites that never opened the booking settings keep the hours written in contact_time
+  const bookingSettings = readBookingSettings(content, parseBusinessHours(stripRichText(content['contact_time'] || DEFAULT_CONTACT_TIME)));
+
+  // Form funnel: started on the first focus, abandoned when the visitor leaves without sending
+  const formStage = useRef<'idle' | 'started' | 'submitted'>('idle');
+
+  const handleFormFocus = () => {
+    if (formStage.current === 'started') return;
+    formStage.current = 'started';
+    trackFormEvent('form_start');
+  };
+
+  useEffect(() => {
+    const abandon = () => {
+      if (formStage.current !== 'started') return;
+      formStage.current = 'idle';
+      trackFormEvent('form_abandon');
+    };
+    window.addEventListener('pagehide', abandon);
+    return () => {
+      window.removeEventListener('pagehide', abandon);
+      abandon();
+    };
+  }, []);
+
+  const updateField = <K extends keyof ContactFormData>(key: K, value: ContactFormData[K]) => {
+    setFormData(prev => ({ ...prev, [key]: value }));
+    if (errors[key]) setErrors(prev => ({ ...prev, [key]: undefined }));
+  };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const errorMessage = (field: keyof ContactFormData) => {
+    const key = errors[field];
+    return key && t(key, { hours: formatBusinessHours(bookingSettings) });
+  };
+
+  const handlePhoneBlur = () => {
+    const normalized = normalizePhone(formData.phone);
+    if (normalized) updateField('phone', normalized);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setSubmitted(true);
-    // Logic to send data would go here
+    if (isSubmitting) return;
+
+    const validation = validateContactForm(formData, { businessHours: bookingSettings });
+    const { normalized } = validation;
+    const nextErrors = validationKeys(validation.errors);
+    const slot = findSlot(normalized.time, bookingSettings);
+    if (!nextErrors.time && !slot) nextErrors.time = 'booking.unavailable';
+    setErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0 || !slot) {
+      setFormData(normalized);
+      return;
+    }
+
+    setIsSubmitting(true);
+    let reservation: Reservation | null = null;
+    try {
+      const { name, phone, time, type } = normalized;
+      reservation = await getReservationStore().reserve(slot.key);
+      await getLeadsAdapter().add({ name, phone, time, type, ...(memo ? { memo } : {}) });
+      clearContactHandoff();
+      setMemo('');
+      setFormData(EMPTY_CONTACT_FORM);
+      setConfirmation({ slot, reservation, type });
+      setBookedVersion(version => version + 1);
+      formStage.current = 'submitted';
+      trackFormEvent('form_submit');
+    } catch (err) {
+      if (err instanceof SlotTakenError) {
+        setErrors({ time: 'booking.taken' });
+        setFormData({ ...normalized, time: '' });
+        setBookedVersion(version => version + 1);
+      } else {
+        // The lead was not saved, so the slot must not stay blocked
+        if (reservation) getReservationStore().release(reservation.slot).catch(() => {});
+        alert(t('contact.submitError'));
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const downloadConfirmation = () => {
+    if (!confirmation) return;
+    const { slot, reservation, type } = confirmation;
+    const tel = stripRichText(content['contact_tel'] || '053-247-9599').trim();
+    const ics = buildIcs({
+      uid: reservationUid(reservation),
+      start: slot.start,
+      end: slot.end,
+      summary: t('booking.icsSummary', { site: SITE_NAME }),
+      description: [type && `${t('contact.unitType')}: ${type}`, `${t('contact.tel')}: ${tel}`].filter(Boolean).join('\n'),
+      location: stripRichText(content['footer_addr'] || '대구광역시 동구 신천동 325-1').trim(),
+    });
+    downloadFile(`consultation-${slot.key.replace(/\D/g, '')}.ics`, ics, 'text/calendar;charset=utf-8');
   };
 
   return (
@@ -930,7 +5028,7 @@ const ContactPage = () => {
         <SectionHeading idPrefix="contact" title="VIP 상담 예약" subtitle="상담 문의" />
 
         <div className="max-w-6xl mx-auto bg-white rounded-3xl shadow-2xl overflow-hidden flex flex-col md:flex-row">
-          <div className="w-full md:w-1/2 relative bg-[#0F172A] text-white p-12 md:p-16 flex flex-col justify-between">
+          <div className="w-full md:w-1/2 relative bg-primary text-white p-12 md:p-16 flex flex-col justify-between">
             <EditableImage id="consulting_bg" defaultSrc={DEFAULT_IMAGES.consulting} alt="bg" className="absolute inset-0 w-full h-full object-cover opacity-20" />
             <div className="relative z-10">
               <h3 className="text-3xl font-bold mb-6">
@@ -945,17 +5043,25 @@ const ContactPage = () => {
               </p>
               <ul className="space-y-8">
                 <li className="flex items-center gap-5">
-                  <div className="w-12 h-12 rounded-full bg-[#D4AF37] flex items-center justify-center text-[#0F172A] shadow-lg"><Phone size={24}/></div>
+                  <div className="w-12 h-12 rounded-full bg-accent flex items-center justify-center text-primary shadow-lg"><Phone size={24}/></div>
                   <div>
-                    <div className="text-sm text-gray-400 mb-1">대표 전화</div>
+                    <div className="text-sm text-gray-400 mb-1">{t('contact.tel')}</div>
                     <div className="font-bold text-2xl"><EditableText id="contact_tel" defaultText="053-247-9599" tag="span" /></div>
                   </div>
                 </li>
                 <li className="flex items-center gap-5">
-                  <div className="w-12 h-12 rounded-full bg-[#D4AF37] flex items-center justify-center text-[#0F172A] shadow-lg"><Calendar size={24}/></div>
+                  <div className="w-12 h-12 rounded-full bg-accent flex items-center justify-center text-primary shadow-lg"><Calendar size={24}/></div>
                   <div>
-                    <div className="text-sm text-gray-400 mb-1">상담 가능 시간</div>
-                    <div className="font-bold text-xl"><EditableText id="contact_time" defaultText="10:00 ~ 18:00 (연중무휴)" tag="span" /></div>
+                    <div className="text-sm text-gray-400 mb-1">{t('contact.hours')}</div>
+                    <div className="font-bold text-xl"><EditableText id="contact_time" defaultText={DEFAULT_CONTACT_TIME} tag="span" /></div>
+                    {isEditMode && (
+                      <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="mt-2 px-3 py-1 rounded-lg border border-dashed border-accent text-accent font-bold text-xs hover:bg-accent/10 flex items-center gap-1"
+                      >
+                        <CalendarClock size={12} /> 예약 설정
+                      </button>
+                    )}
                   </div>
                 </li>
               </ul>
@@ -970,41 +5076,44 @@ const ContactPage = () => {
           </div>
 
           <div className="w-full md:w-1/2 p-12 md:p-16 bg-white">
-            {!submitted ? (
-              <form onSubmit={handleSubmit} className="space-y-8">
+            {!confirmation ? (
+              <form onSubmit={handleSubmit} onFocus={handleFormFocus} noValidate className="space-y-8">
                 <div>
-                  <label className="block text-sm font-bold text-gray-800 mb-2">성함</label>
+                  <label className="block text-sm font-bold text-gray-800 mb-2">{t('contact.name')}</label>
                   <input 
                     type="text" 
                     required
-                    className="w-full px-5 py-4 rounded-xl border border-gray-200 bg-gray-50 focus:ring-2 focus:ring-[#D4AF37] focus:border-transparent outline-none transition-all"
-                    placeholder="홍길동"
+                    className={inputClass(!!errors.name)}
+                    placeholder={t('contact.namePlaceholder')}
                     value={formData.name}
-                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    onChange={(e) => updateField('name', e.target.value)}
                   />
+                  <FieldError message={errorMessage('name')} />
                 </div>
                 <div>
-                  <label className="block text-sm font-bold text-gray-800 mb-2">연락처</label>
+                  <label className="block text-sm font-bold text-gray-800 mb-2">{t('contact.phone')}</label>
                   <input 
                     type="tel" 
                     required
-                    className="w-full px-5 py-4 rounded-xl border border-gray-200 bg-gray-50 focus:ring-2 focus:ring-[#D4AF37] focus:border-transparent outline-none transition-all"
+                    className={inputClass(!!errors.phone)}
                     placeholder="010-1234-5678"
                     value={formData.phone}
-                    onChange={(e) => setFormData({...formData, phone: e.target.value})}
+                    onChange={(e) => updateField('phone', e.target.value)}
+                    onBlur={handlePhoneBlur}
                   />
+                  <FieldError message={errorMessage('phone')} />
                 </div>
                 <div>
-                   <label className="block text-sm font-bold text-gray-800 mb-2">관심 평형</label>
+                   <label className="block text-sm font-bold text-gray-800 mb-2">{t('contact.unitType')}</label>
                    <div className="grid grid-cols-4 gap-3">
-                     {['84A', '84B', '107','125'].map((type) => (
+                     {unitTypes.map((type) => (
                        <button
                         key={type}
                         type="button"
-                        onClick={() => setFormData({...formData, type})}
+                        onClick={() => updateField('type', type)}
                         className={`py-3 border rounded-xl text-sm font-bold transition-all ${
                           formData.type === type 
-                            ? 'bg-[#0F172A] text-white border-[#0F172A] shadow-md' 
+                            ? 'bg-primary text-white border-primary shadow-md' 
                             : 'bg-white text-gray-500 hover:bg-gray-50 border-gray-200'
                         }`}
                        >
@@ -1014,22 +5123,75 @@ const ContactPage = () => {
                    </div>
                 </div>
                 <div>
-                  <label className="block text-sm font-bold text-gray-800 mb-2">희망 상담 시간</label>
-                  <input 
-                    type="datetime-local" 
-                    className="w-full px-5 py-4 rounded-xl border border-gray-200 bg-gray-50 focus:ring-2 focus:ring-[#D4AF37] focus:border-transparent outline-none transition-all"
+                  <label className="block text-sm font-bold text-gray-800 mb-2">
+                    {t('contact.time')} <span className="font-normal text-gray-400">({formatBusinessHours(bookingSettings)})</span>
+                  </label>
+                  <SlotPicker
+                    settings={bookingSettings}
                     value={formData.time}
-                    onChange={(e) => setFormData({...formData, time: e.target.value})}
+                    onChange={(key) => updateField('time', key)}
+                    refreshKey={bookedVersion}
+                    hasError={!!errors.time}
                   />
+                  <FieldError message={errorMessage('time')} />
+                </div>
+
+                {memo && (
+                  <div className="p-4 bg-slate-50 rounded-xl border border-gray-200">
+                    <div className="flex justify-between items-center mb-2">
+                      <span className="text-sm font-bold text-gray-800 flex items-center gap-2">
+                        <Paperclip size={14} className="text-accent" /> {t('contact.memo')}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setMemo('');
+                          clearContactHandoff();
+                        }}
+                        className="text-gray-400 hover:text-red-500"
+                        title={t('contact.memoRemove')}
+                      >
+                        <X size={16} />
+                      </button>
+                    </div>
+                    <p className="text-xs text-gray-600 whitespace-pre-line leading-relaxed">{memo}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.consent}
+                      onChange={(e) => updateField('consent', e.target.checked)}
+                      className="mt-1 w-5 h-5 accent-primary"
+                    />
+                    <span className="text-sm text-gray-700">
+                      <span className="font-bold">{t('contact.consentRequired')}</span> {t('contact.consent')}
+                      <button
+                        type="button"
+                        onClick={() => setShowConsentDetail(!showConsentDetail)}
+                        className="ml-2 text-gray-400 underline hover:text-primary"
+                      >
+                        {showConsentDetail ? t('contact.consentClose') : t('contact.consentMore')}
+                      </button>
+                    </span>
+                  </label>
+                  {showConsentDetail && (
+                    <div className="mt-3 p-4 bg-gray-50 rounded-lg text-xs text-gray-500 leading-relaxed space-y-1">
+                      {t('contact.consentItems').split('\n').map(line => <p key={line}>{line}</p>)}
+                    </div>
+                  )}
+                  <FieldError message={errorMessage('consent')} />
                 </div>
                 
                 <div className="pt-6">
                   <Button className="w-full justify-center text-lg py-4" variant="primary">
-                    상담 예약 신청하기
+                    {isSubmitting ? t('contact.submitting') : t('contact.submit')}
                   </Button>
                 </div>
                 <p className="text-xs text-gray-400 text-center">
-                  개인정보는 상담 목적으로만 활용되며 안전하게 관리됩니다.
+                  {t('contact.privacy')}
                 </p>
               </form>
             ) : (
@@ -1037,28 +5199,237 @@ const ContactPage = () => {
                 <div className="w-20 h-20 bg-green-100 text-green-600 rounded-full flex items-center justify-center mb-8 shadow-inner">
                   <CheckCircle2 size={40} />
                 </div>
-                <h3 className="text-3xl font-bold text-[#0F172A] mb-4">예약이 접수되었습니다</h3>
-                <p className="text-gray-600 mb-10 text-lg leading-relaxed">
-                  전문 상담사가 확인 후<br/>빠른 시간 내에 연락드리겠습니다.
+                <h3 className="text-3xl font-bold text-primary mb-4">{t('contact.successTitle')}</h3>
+                <p className="font-bold text-accent mb-4">
+                  {t('booking.confirmedAt', { time: formatSlot(confirmation.slot, LOCALES.find(option => option.id === locale)?.htmlLang) })}
                 </p>
-                <Button onClick={() => setSubmitted(false)} variant="outline">
-                  다른 예약 작성하기
-                </Button>
+                <p className="text-gray-600 mb-10 text-lg leading-relaxed whitespace-pre-line">
+                  {t('contact.successDesc')}
+                </p>
+                <div className="flex flex-col sm:flex-row gap-3">
+                  <Button onClick={downloadConfirmation} variant="primary">
+                    <CalendarPlus size={18} /> {t('booking.addToCalendar')}
+                  </Button>
+                  <Button onClick={() => setConfirmation(null)} variant="outline">
+                    {t('contact.another')}
+                  </Button>
+                </div>
               </div>
             )}
           </div>
         </div>
       </div>
+      <BookingSettingsEditor
+        isOpen={isSettingsOpen}
+        settings={bookingSettings}
+        onClose={() => setIsSettingsOpen(false)}
+        onSave={(next) => {
+          updateContent(BOOKING_SETTINGS_KEY, writeContentJson(next));
+          setIsSettingsOpen(false);
+        }}
+      />
+    </div>
+  );
+};
+
+const NotFoundPage = () => (
+  <div className="pt-32 pb-20 bg-slate-50 min-h-screen flex items-center">
+    <div className="container mx-auto px-6 text-center">
+      <div className="text-accent font-bold tracking-widest text-sm mb-4">404 NOT FOUND</div>
+      <h2 className="text-3xl md:text-4xl font-bold text-primary mb-6">요청하신 페이지를 찾을 수 없습니다</h2>
+      <p className="text-gray-600 text-lg mb-12">주소가 변경되었거나 삭제된 페이지입니다.</p>
+      <div className="flex flex-col sm:flex-row gap-4 justify-center">
+        <Button to="main" source="not_found" variant="primary">
+          <Home size={18} /> 홈으로 가기
+        </Button>
+        <Button to="contact" source="not_found" variant="outline">
+          상담 문의하기
+        </Button>
+      </div>
+    </div>
+  </div>
+);
+
+const AdminLoginPage = () => {
+  const { session, signIn, signOut } = useAuth();
+  const { isEditMode, toggleEditMode } = useEdit();
+  const { navigate } = useRouter();
+  const [passcode, setPasscode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const startEditing = () => {
+    if (!isEditMode) toggleEditMode();
+    navigate('main');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError('');
+    try {
+      if (await signIn(passcode)) {
+        setPasscode('');
+        startEditing();
+      } else {
+        setError('비밀번호가 올바르지 않습니다.');
+      }
+    } catch (err) {
+      setError('로그인 중 문제가 발생했습니다. 잠시 후 다시 시도해주세요.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const roleLabel = ROLES.find(role => role.id === session?.role)?.label;
+
+  return (
+    <div className="pt-32 pb-20 bg-slate-50 min-h-screen flex items-center">
+      <div className="container mx-auto px-6">
+        <div className="max-w-md mx-auto bg-white rounded-2xl shadow-2xl overflow-hidden">
+          <div className="bg-primary text-white px-8 py-6 flex items-center gap-3">
+            <Lock size={20} className="text-accent" />
+            <h2 className="text-xl font-bold">관리자 로그인</h2>
+          </div>
+          {session ? (
+            <div className="p-8 space-y-6">
+              <p className="text-gray-600 flex items-center gap-2">
+                <ShieldCheck size={18} className="text-green-600" />
+                <span><span className="font-bold text-primary">{roleLabel}</span> 권한으로 로그인되어 있습니다.</span>
+              </p>
+              <p className="text-xs text-gray-400">세션 만료: {new Date(session.expiresAt).toLocaleString('ko-KR')}</p>
+              <div className="flex gap-3">
+                <Button onClick={startEditing} variant="primary" className="flex-1">
+                  <Pen size={16} /> 편집 시작
+                </Button>
+                <Button onClick={signOut} variant="outline">
+                  <LogOut size={16} /> 로그아웃
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} noValidate className="p-8 space-y-6">
+              <div>
+                <label className="block text-sm font-bold text-gray-800 mb-2">비밀번호</label>
+                <input
+                  type="password"
+                  autoComplete="current-password"
+                  autoFocus
+                  value={passcode}
+                  onChange={(e) => {
+                    setPasscode(e.target.value);
+                    setError('');
+                  }}
+                  className={inputClass(!!error)}
+                />
+                <FieldError message={error} />
+              </div>
+              <Button variant="primary" className="w-full">
+                {isSubmitting ? '확인 중...' : '로그인'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </div>
     </div>
   );
 };
 
 // --- App Container with Edit Provider ---
 
-const AppContent = () => {
-  const [currentPage, setCurrentPage] = useState<Page>('main');
+// Edit-mode helper for the current page: highlights EditableText elements that
+// still fall back to Korean and steps through them.
+const MissingTranslationsBar = ({ route }: { route: Route }) => {
+  const { content } = useEdit();
+  const { locale, showMissingTranslations, setShowMissingTranslations } = useLocale();
+  const [missingCount, setMissingCount] = useState(0);
+  const nextIndex = useRef(0);
+
+  useEffect(() => {
+    if (!showMissingTranslations) return;
+    // Count after the page has rendered the highlights
+    const frame = requestAnimationFrame(() => {
+      setMissingCount(document.querySelectorAll('[data-missing-translation]').length);
+      nextIndex.current = 0;
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [content, route, locale, showMissingTranslations]);
+
+  if (locale === DEFAULT_LOCALE) return null;
+
+  const scrollToNext = () => {
+    const elements = document.querySelectorAll('[data-missing-translation]');
+    if (elements.length === 0) return;
+    const element = elements[nextIndex.current % elements.length];
+    nextIndex.current += 1;
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const localeLabel = LOCALES.find(option => option.id === locale)?.label ?? locale;
+
+  return (
+    <div className="fixed top-44 left-1/2 -translate-x-1/2 z-50 bg-white text-primary pl-5 pr-2 py-2 rounded-full shadow-2xl border border-gray-200 flex items-center gap-3 text-sm">
+      <Languages size={16} className="text-accent" />
+      <label className="flex items-center gap-2 font-bold cursor-pointer">
+        <input
+          type="checkbox"
+          checked={showMissingTranslations}
+          onChange={(e) => setShowMissingTranslations(e.target.checked)}
+          className="accent-accent"
+        />
+        {localeLabel} 번역 누락 표시
+      </label>
+      {showMissingTranslations && (
+        <>
+          <span className={`font-bold ${missingCount > 0 ? 'text-red-500' : 'text-green-600'}`}>
+            {missingCount > 0 ? `이 페이지 ${missingCount}개` : '모두 번역됨'}
+          </span>
+          <button
+            onClick={scrollToNext}
+            disabled={missingCount === 0}
+            className="px-3 py-1.5 rounded-full bg-primary text-white text-xs font-bold hover:bg-accent disabled:opacity-40 transition-colors"
+          >
+            다음 항목
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+const AppContent = ({ initialRoute }: { initialRoute?: Route }) => {
+  const { isEditMode, toggleEditMode, resetContent, undo, redo, canUndo, canRedo, content, replaceContent } = useEdit();
+  const router = useHistoryRouter(initialRoute, customPageRoutes(readPageRegistry(content)));
   const [isScrolled, setIsScrolled] = useState(false);
-  const { isEditMode, toggleEditMode, resetContent, openEditor, content } = useEdit();
+  const { session, can, signOut, editable } = useAuth();
+  const { draft, published, preview, setPreview, restoreSnapshot } = useVersions();
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isSnapshotsOpen, setIsSnapshotsOpen] = useState(false);
+  const [isSeoOpen, setIsSeoOpen] = useState(false);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [isThemeOpen, setIsThemeOpen] = useState(false);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [isPagesOpen, setIsPagesOpen] = useState(false);
+  const layoutPage = isLayoutPage(router.route) ? router.route : null;
+  const hasUnpublishedChanges = !isContentEqual(draft, published);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [isLeadsOpen, setIsLeadsOpen] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    applyPageHead(buildPageHead(content, router.route, window.location.origin));
+  }, [content, router.route]);
+
+  // The theme panel shows its draft while open; closing it brings back the saved theme
+  const themeValue = content[THEME_KEY];
+  const isThemePreviewing = isThemeOpen && isEditMode;
+  useEffect(() => {
+    if (!isThemePreviewing) applyTheme(readTheme(content));
+  }, [themeValue, isThemePreviewing]);
+
+  // Returns the function that ends the visit and records the time spent
+  useEffect(() => trackPageVisit(analyticsPage(router.route)), [router.route]);
 
   useEffect(() => {
     const handleScroll = () => {
@@ -1068,150 +5439,568 @@ const AppContent = () => {
     return () => window.removeEventListener('scroll', handleScroll);
   }, []);
 
-  useEffect(() => {
-    window.scrollTo(0, 0);
-  }, [currentPage]);
-
-  const exportSettings = () => {
-    const json = JSON.stringify(content, null, 2);
-    const blob = new Blob([json], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = "site-content.json";
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportSettings = async () => {
+    // Uploaded images are embedded so the file works in another browser
+    const portable = await inlineAssets(content);
+    downloadFile("site-content.json", JSON.stringify(portable, null, 2), "application/json");
     alert("설정 파일이 다운로드되었습니다.");
   };
 
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = async (event) => {
+      try {
+        const parsed = parseContentFile(event.target?.result as string);
+        // Exported files carry images inline while the site holds asset refs,
+        // so both sides are compared by image hash
+        const [current, incoming] = await Promise.all([normalizeAssetValues(content), normalizeAssetValues(parsed.content)]);
+        setPendingImport({ fileName: file.name, ...parsed, diff: diffContent(current, incoming) });
+      } catch (err) {
+        alert(err instanceof ContentImportError ? err.message : '설정 파일을 읽을 수 없습니다.');
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const applyImport = (mode: ImportMode) => {
+    if (!pendingImport) return;
+    if (mode === 'replace') {
+      replaceContent(pendingImport.content);
+    } else {
+      // One history entry for the whole merge, so a single undo reverts it
+      const picked = Object.fromEntries(
+        [...pendingImport.diff.added, ...pendingImport.diff.changed].map((key) => [key, pendingImport.content[key]]),
+      );
+      replaceContent({ ...content, ...picked });
+    }
+    setPendingImport(null);
+  };
+
   const renderPage = () => {
-    switch (currentPage) {
+    switch (router.route) {
+      case 'main': return <MainPage />;
       case 'analysis': return <AnalysisPage />;
       case 'investment': return <InvestmentPage />;
       case 'profile': return <ProfilePage />;
       case 'contact': return <ContactPage />;
-      default: return <MainPage setPage={setCurrentPage} />;
+      case 'admin': return editable ? <AdminLoginPage /> : <NotFoundPage />;
+      case null: return <NotFoundPage />;
+      default: return <CustomPage id={router.route} />;
     }
   };
 
   return (
-    <div className="min-h-screen font-sans text-[#0F172A] selection:bg-[#D4AF37] selection:text-white">
-      <Header currentPage={currentPage} setPage={setCurrentPage} isScrolled={isScrolled || currentPage !== 'main'} />
-      <main>
-        {renderPage()}
-      </main>
-      <Footer setPage={setCurrentPage} />
-
-      {/* Admin Floating Action Button */}
-      <div className="fixed bottom-8 right-8 z-50 flex flex-col gap-3">
-         {isEditMode && (
-           <>
-            <button 
-              onClick={exportSettings}
-              className="bg-white text-[#0F172A] p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
-              title="설정 데이터 내보내기 (JSON)"
+    <RouterContext.Provider value={router}>
+      <div className="min-h-screen font-sans text-primary selection:bg-accent selection:text-white">
+        <Header isScrolled={isScrolled || router.route !== 'main'} />
+        <main>
+          {renderPage()}
+        </main>
+        <Footer />
+
+        {/* Admin Floating Action Button (signed-in users only) */}
+        {session && (
+          <div className="fixed bottom-8 right-8 z-50 flex flex-col gap-3">
+             {isEditMode && (
+               <>
+                {can('leads') && (
+                  <button 
+                    onClick={() => setIsLeadsOpen(true)}
+                    className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                    title="상담 신청 내역"
+                  >
+                    <Inbox size={24} />
+                  </button>
+                )}
+                {can('analytics') && (
+                  <button 
+                    onClick={() => setIsAnalyticsOpen(true)}
+                    className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                    title="방문 통계"
+                  >
+                    <BarChart3 size={24} />
+                  </button>
+                )}
+                {can('export') && (
+                  <button 
+                    onClick={exportSettings}
+                    className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                    title="설정 데이터 내보내기 (JSON)"
+                  >
+                    <Download size={24} />
+                  </button>
+                )}
+                {can('import') && (
+                  <>
+                    <input
+                      type="file"
+                      ref={importInputRef}
+                      onChange={handleImportFile}
+                      accept="application/json,.json"
+                      className="hidden"
+                    />
+                    <button 
+                      onClick={() => importInputRef.current?.click()}
+                      className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                      title="설정 데이터 가져오기 (JSON)"
+                    >
+                      <FileUp size={24} />
+                    </button>
+                  </>
+                )}
+                {can('publish') && (
+                  <button 
+                    onClick={() => setIsPublishOpen(true)}
+                    className="relative bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                    title={hasUnpublishedChanges ? '게시하기 (게시되지 않은 변경사항 있음)' : '게시하기'}
+                  >
+                    <Send size={24} />
+                    {hasUnpublishedChanges && <span className="absolute top-1 right-1 w-3 h-3 rounded-full bg-accent border-2 border-white"></span>}
+                  </button>
+                )}
+                <button 
+                  onClick={() => setIsSeoOpen(true)}
+                  className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                  title="검색·공유 설정 (SEO)"
+                >
+                  <FileSearch size={24} />
+                </button>
+                <button 
+                  onClick={() => setIsThemeOpen(true)}
+                  className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                  title="테마 설정"
+                >
+                  <Palette size={24} />
+                </button>
+                <button 
+                  onClick={() => setIsPagesOpen(true)}
+                  className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                  title="페이지 관리"
+                >
+                  <Files size={24} />
+                </button>
+                {layoutPage && (
+                  <button 
+                    onClick={() => setIsOutlineOpen(true)}
+                    className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                    title="섹션 구성"
+                  >
+                    <Layers size={24} />
+                  </button>
+                )}
+                <button 
+                  onClick={() => setIsSnapshotsOpen(true)}
+                  className="bg-white text-primary p-4 rounded-full shadow-xl hover:bg-gray-100 transition-all hover:scale-110 flex items-center justify-center group border border-gray-200"
+                  title="스냅샷"
+                >
+                  <History size={24} />
+                </button>
+                <div className="flex flex-col bg-white rounded-full shadow-xl border border-gray-200 overflow-hidden">
+                  <button 
+                    onClick={undo}
+                    disabled={!canUndo}
+                    className="text-primary p-4 hover:bg-gray-100 transition-colors flex items-center justify-center disabled:text-gray-300 disabled:hover:bg-white"
+                    title="실행 취소 (Ctrl+Z)"
+                  >
+                    <Undo2 size={24} />
+                  </button>
+                  <button 
+                    onClick={redo}
+                    disabled={!canRedo}
+                    className="text-primary p-4 hover:bg-gray-100 transition-colors flex items-center justify-center border-t border-gray-100 disabled:text-gray-300 disabled:hover:bg-white"
+                    title="다시 실행 (Ctrl+Shift+Z)"
+                  >
+                    <Redo2 size={24} />
+                  </button>
+                </div>
+                {can('reset') && (
+                  <button 
+                    onClick={resetContent}
+                    className="bg-red-500 text-white p-4 rounded-full shadow-xl hover:bg-red-600 transition-all hover:scale-110 flex items-center justify-center group"
+                    title="초기화"
+                  >
+                    <RotateCcw size={24} className="group-hover:rotate-180 transition-transform duration-500" />
+                  </button>
+                )}
+                <button 
+                  onClick={signOut}
+                  className="bg-white text-gray-500 p-4 rounded-full shadow-xl hover:bg-gray-100 hover:text-red-500 transition-all hover:scale-110 flex items-center justify-center border border-gray-200"
+                  title={`로그아웃 (${ROLES.find(role => role.id === session.role)?.label})`}
+                >
+                  <LogOut size={24} />
+                </button>
+               </>
+             )}
+             <button 
+               onClick={toggleEditMode}
+               className={`${isEditMode ? 'bg-accent ring-4 ring-accent/30' : 'bg-primary'} text-white p-5 rounded-full shadow-2xl hover:scale-110 transition-all flex items-center justify-center`}
+               title={isEditMode ? "편집 종료" : "페이지 편집"}
+             >
+               {isEditMode ? <Save size={28} /> : <Pen size={28} />}
+             </button>
+          </div>
+        )}
+        
+        {isEditMode && <MissingTranslationsBar route={router.route} />}
+
+        {preview && (
+          <div className="fixed top-0 inset-x-0 z-[60] bg-primary text-white px-6 py-3 flex flex-wrap items-center justify-center gap-4 text-sm shadow-xl">
+            <span className="flex items-center gap-2">
+              <Eye size={16} className="text-accent" />
+              스냅샷 미리보기: <span className="font-bold">{preview.name}</span>
+              <span className="text-gray-400">({new Date(preview.createdAt).toLocaleString('ko-KR')})</span>
+            </span>
+            <button
+              onClick={() => {
+                if (window.confirm(`'${preview.name}' 스냅샷을 초안으로 복원하시겠습니까?`)) restoreSnapshot(preview);
+              }}
+              className="px-3 py-1.5 rounded-full bg-accent font-bold hover:bg-accent-dark transition-colors"
             >
-              <Download size={24} />
+              초안으로 복원
             </button>
-            <button 
-              onClick={resetContent}
-              className="bg-red-500 text-white p-4 rounded-full shadow-xl hover:bg-red-600 transition-all hover:scale-110 flex items-center justify-center group"
-              title="초기화"
+            <button
+              onClick={() => setPreview(null)}
+              className="px-3 py-1.5 rounded-full border border-white/30 font-bold hover:bg-white/10 transition-colors"
             >
-              <RotateCcw size={24} className="group-hover:rotate-180 transition-transform duration-500" />
+              미리보기 종료
             </button>
-           </>
-         )}
-         <button 
-           onClick={toggleEditMode}
-           className={`${isEditMode ? 'bg-[#D4AF37] ring-4 ring-[#D4AF37]/30' : 'bg-[#0F172A]'} text-white p-5 rounded-full shadow-2xl hover:scale-110 transition-all flex items-center justify-center`}
-           title={isEditMode ? "편집 종료" : "페이지 편집"}
-         >
-           {isEditMode ? <Save size={28} /> : <Pen size={28} />}
-         </button>
+          </div>
+        )}
+
+        {/* Edit Mode Indicator */}
+        {isEditMode && (
+          <div className="fixed top-28 left-1/2 -translate-x-1/2 bg-accent text-white px-8 py-3 rounded-full shadow-2xl z-50 animate-bounce font-bold flex items-center gap-2 border-2 border-white/20">
+            <Pen size={16} /> 편집 모드 실행 중: 점선으로 표시된 영역을 클릭하여 수정하세요
+          </div>
+        )}
+
+        <ImportModal
+          pending={can('import') ? pendingImport : null}
+          onClose={() => setPendingImport(null)}
+          onApply={applyImport}
+        />
+        <LeadsPanel isOpen={isLeadsOpen && can('leads')} onClose={() => setIsLeadsOpen(false)} />
+        <AnalyticsPanel isOpen={isAnalyticsOpen && can('analytics')} onClose={() => setIsAnalyticsOpen(false)} />
+        <PublishModal isOpen={isPublishOpen && can('publish')} onClose={() => setIsPublishOpen(false)} />
+        <SnapshotsPanel isOpen={isSnapshotsOpen && !!session} onClose={() => setIsSnapshotsOpen(false)} />
+        <SeoPanel isOpen={isSeoOpen && isEditMode} onClose={() => setIsSeoOpen(false)} route={router.route} />
+        <ThemePanel isOpen={isThemeOpen && isEditMode} onClose={() => setIsThemeOpen(false)} />
+        <PagesPanel isOpen={isPagesOpen && isEditMode} onClose={() => setIsPagesOpen(false)} />
+        {layoutPage && (
+          <SectionOutlinePanel isOpen={isOutlineOpen && isEditMode} onClose={() => setIsOutlineOpen(false)} page={layoutPage} />
+        )}
       </div>
-      
-      {/* Edit Mode Indicator */}
-      {isEditMode && (
-        <div className="fixed top-28 left-1/2 -translate-x-1/2 bg-[#D4AF37] text-white px-8 py-3 rounded-full shadow-2xl z-50 animate-bounce font-bold flex items-center gap-2 border-2 border-white/20">
-          <Pen size={16} /> 편집 모드 실행 중: 점선으로 표시된 영역을 클릭하여 수정하세요
-        </div>
-      )}
-    </div>
+    </RouterContext.Provider>
   );
 };
 
+const readStoredContent = (key: string): Record<string, string> | null => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
 interface EditItem {
   id: string;
   value: string;
   type: EditType;
+  defaultValue?: string;
+  sourceText?: string;
+}
+
+export interface AppProps {
+  // Content baked in by the static build; the site then renders it as-is,
+  // without localStorage, sign-in or any editing UI.
+  staticContent?: Record<string, string>;
+  initialRoute?: Route;
 }
 
-const App = () => {
-  const [isEditMode, setIsEditMode] = useState(false);
+export const App = ({ staticContent, initialRoute }: AppProps) => {
+  const isStatic = !!staticContent;
+  const [session, setSession] = useState<AuthSession | null>(() => isStatic ? null : loadSession());
+  const [editModeOn, setIsEditMode] = useState(false);
+  // Edit mode never outlives the session
+  const isEditMode = editModeOn && !!session;
   const [editingItem, setEditingItem] = useState<EditItem | null>(null);
+  // Pre-rendered pages are Korean; the visitor's language is applied after hydration
+  const [locale, setLocale] = useState<Locale>(() => isStatic ? DEFAULT_LOCALE : detectLocale());
+  const [showMissingTranslations, setShowMissingTranslations] = useState(false);
+
+  useEffect(() => {
+    if (isStatic) setLocale(detectLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = LOCALES.find(option => option.id === locale)?.htmlLang ?? locale;
+    try {
+      localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch (e) {
+      // Storage disabled: the choice lasts for this visit only
+    }
+  }, [locale]);
   
-  // LocalStorage Persistence
-  const [content, setContent] = useState<Record<string, string>>(() => {
-      try {
-        const saved = localStorage.getItem('site_content');
-        return saved ? JSON.parse(saved) : {};
-      } catch (e) {
-        return {};
-      }
-  });
+  // LocalStorage Persistence (the undo/redo stack itself is kept in memory only).
+  // Saves from before drafts existed are the published content.
+  const [published, setPublished] = useState<Record<string, string>>(() =>
+    staticContent ?? readStoredContent(PUBLISHED_STORAGE_KEY) ?? {}
+  );
+  const [history, setHistory] = useState<HistoryState<Record<string, string>>>(() =>
+    createHistory(staticContent ?? readStoredContent(DRAFT_STORAGE_KEY) ?? readStoredContent(PUBLISHED_STORAGE_KEY) ?? {})
+  );
+  const draft = history.present;
+  const [preview, setPreview] = useState<Snapshot | null>(null);
+  // What the page renders: a previewed snapshot, the draft while editing, otherwise the live site
+  const content = preview ? preview.content : isEditMode ? draft : published;
+  const [storageWarning, setStorageWarning] = useState(false);
+
+  useEffect(() => {
+    if (isStatic) return;
+    try {
+      localStorage.setItem(PUBLISHED_STORAGE_KEY, JSON.stringify(published));
+      // An unchanged draft is not stored twice
+      if (isContentEqual(draft, published)) localStorage.removeItem(DRAFT_STORAGE_KEY);
+      else localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(draft));
+      setStorageWarning(false);
+    } catch (e) {
+      setStorageWarning(true);
+    }
+  }, [draft, published]);
+
+  // Inline images (older saves, imported files) move to the asset store. The
+  // swap is not an edit, so it replaces the present state without a history entry.
+  useEffect(() => {
+    if (isStatic) return;
+    let cancelled = false;
+    migrateDataUrls(draft)
+      .then(migrated => {
+        if (!migrated || cancelled) return;
+        setHistory(prev => prev.present === draft ? { ...prev, present: migrated } : prev);
+      })
+      .catch(() => {
+        // IndexedDB unavailable: keep the data URLs inline
+      });
+    return () => { cancelled = true; };
+  }, [draft]);
 
   useEffect(() => {
+    if (isStatic) return;
+    let cancelled = false;
+    migrateDataUrls(published)
+      .then(migrated => {
+        if (migrated && !cancelled) setPublished(prev => prev === published ? migrated : prev);
+      })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, [published]);
+
+  // Images nothing refers to any more (replaced uploads, deleted snapshots) are
+  // dropped once per visit. Undo/redo entries count as references too.
+  const latestContents = useRef({ history, published });
+  latestContents.current = { history, published };
+  useEffect(() => {
+    if (isStatic) return;
+    const startedAt = new Date();
+    getSnapshotsAdapter().list()
+      .then(snapshots => {
+        const { history: { past, present, future }, published: live } = latestContents.current;
+        return removeUnusedAssets([...past, present, ...future, live, ...snapshots.map(snapshot => snapshot.content)], startedAt);
+      })
+      .catch(() => {
+        // IndexedDB unavailable: nothing to clean up
+      });
+  }, []);
+
+  const publish = async () => {
+    if (!hasPermission(session?.role ?? null, 'publish')) return;
+    const next = draft;
+    setPublished(next);
     try {
-      localStorage.setItem('site_content', JSON.stringify(content));
+      await getSnapshotsAdapter().save(publishSnapshotName(), next, 'publish');
     } catch (e) {
-      console.warn("Storage quota exceeded. Changes may not persist after refresh.");
+      alert('게시되었지만 스냅샷을 저장하지 못했습니다.');
     }
-  }, [content]);
+  };
+
+  const discardDraft = () => {
+    setHistory(prev => commitHistory(prev, published));
+  };
+
+  const restoreSnapshot = (snapshot: Snapshot) => {
+    setPreview(null);
+    setHistory(prev => commitHistory(prev, snapshot.content));
+    setIsEditMode(true);
+  };
 
   const updateContent = (key: string, value: string) => {
-    setContent(prev => ({ ...prev, [key]: value }));
+    setHistory(prev => prev.present[key] === value ? prev : commitHistory(prev, { ...prev.present, [key]: value }));
+  };
+
+  const replaceContent = (next: Record<string, string>) => {
+    setHistory(prev => commitHistory(prev, next));
+  };
+
+  const revertContent = (...keys: string[]) => {
+    setHistory(prev => {
+      if (!keys.some(key => key in prev.present)) return prev;
+      const rest = { ...prev.present };
+      keys.forEach(key => delete rest[key]);
+      return commitHistory(prev, rest);
+    });
   };
 
   const resetContent = () => {
-    if(window.confirm('모든 수정사항을 초기화하시겠습니까?\n저장된 내용이 영구적으로 삭제됩니다.')) {
-      setContent({});
-      localStorage.removeItem('site_content');
+    if (!hasPermission(session?.role ?? null, 'reset')) return;
+    if(window.confirm('모든 수정사항을 초기화하시겠습니까?\n초기화 후에도 실행 취소(Ctrl+Z)로 되돌릴 수 있습니다.')) {
+      setHistory(prev => commitHistory(prev, {}));
+    }
+  };
+
+  const undo = () => setHistory(undoHistory);
+  const redo = () => setHistory(redoHistory);
+
+  useEffect(() => {
+    if (!isEditMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || editingItem) return;
+      const target = e.target as HTMLElement;
+      // Leave native undo alone while typing in a field
+      if (target.closest('input, textarea, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z') {
+        e.preventDefault();
+        setHistory(e.shiftKey ? redoHistory : undoHistory);
+      } else if (key === 'y') {
+        e.preventDefault();
+        setHistory(redoHistory);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isEditMode, editingItem]);
+
+  const signIn = async (passcode: string) => {
+    if (isStatic) return false;
+    const next = await getAuthAdapter().signIn(passcode);
+    if (next) setSession(next);
+    return !!next;
+  };
+
+  const signOut = () => {
+    if (session) getAuthAdapter().signOut(session).catch(() => {});
+    setSession(null);
+  };
+
+  useEffect(() => {
+    if (isStatic) return;
+    saveSession(session);
+    if (!session) {
+      setIsEditMode(false);
+      setEditingItem(null);
+      return;
     }
+    // setTimeout overflows past ~24.8 days
+    const remaining = Math.min(new Date(session.expiresAt).getTime() - Date.now(), 2 ** 31 - 1);
+    const timer = window.setTimeout(() => {
+      setSession(null);
+      alert('로그인 세션이 만료되었습니다. /admin 에서 다시 로그인해주세요.');
+    }, Math.max(0, remaining));
+    return () => window.clearTimeout(timer);
+  }, [session]);
+
+  // Signing in or out in another tab applies here too
+  useEffect(() => {
+    if (isStatic) return;
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key === SESSION_STORAGE_KEY) setSession(loadSession());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const can = (permission: Permission) => !!session && !isSessionExpired(session) && hasPermission(session.role, permission);
+
+  const openEditor = (id: string, initialValue: string, type: EditType, defaultValue?: string, sourceText?: string) => {
+    if (!can('edit') || preview) return;
+    setEditingItem({ id, value: initialValue, type, defaultValue, sourceText });
   };
 
-  const openEditor = (id: string, initialValue: string, type: EditType) => {
-    setEditingItem({ id, value: initialValue, type });
+  const handleSaveEdit = (value: string, focus: FocalPoint | null) => {
+    if (editingItem) {
+      const changes: Record<string, string> = { [editingItem.id]: value };
+      if (editingItem.type === 'image' && focus) changes[focalPointKey(editingItem.id)] = formatFocalPoint(focus);
+      const next = { ...draft, ...changes };
+      if (
+        projectedLocalStorageUsage(DRAFT_STORAGE_KEY, next) > LOCAL_STORAGE_BUDGET &&
+        !window.confirm('브라우저 저장 공간이 부족하여 이 변경사항은 새로고침 후 유지되지 않을 수 있습니다.\n그래도 적용하시겠습니까?')
+      ) {
+        return;
+      }
+      // Image and focal point land in one history entry
+      setHistory(prev => Object.keys(changes).every(key => prev.present[key] === changes[key])
+        ? prev
+        : commitHistory(prev, { ...prev.present, ...changes }));
+      setEditingItem(null);
+    }
   };
 
-  const handleSaveEdit = (value: string) => {
+  const handleRevertEdit = () => {
     if (editingItem) {
-      updateContent(editingItem.id, value);
+      revertContent(editingItem.id, focalPointKey(editingItem.id));
       setEditingItem(null);
     }
   };
 
   return (
-    <EditContext.Provider value={{ 
-      isEditMode, 
-      toggleEditMode: () => setIsEditMode(!isEditMode), 
-      content, 
-      updateContent,
-      resetContent,
-      openEditor
-    }}>
-      <AppContent />
-      {/* Modal is rendered at the top level */}
-      <EditModal 
-        isOpen={!!editingItem}
-        onClose={() => setEditingItem(null)}
-        onSave={handleSaveEdit}
-        initialValue={editingItem?.value || ''}
-        type={editingItem?.type || 'text'}
-      />
-    </EditContext.Provider>
+    <AuthContext.Provider value={{ session, can, signIn, signOut, editable: !isStatic }}>
+      <VersionContext.Provider value={{ draft, published, publish, discardDraft, preview, setPreview, restoreSnapshot }}>
+        <LocaleContext.Provider value={{ locale, setLocale, showMissingTranslations, setShowMissingTranslations }}>
+          <EditContext.Provider value={{ 
+            // Snapshot previews are read-only
+            isEditMode: isEditMode && !preview, 
+            toggleEditMode: () => setIsEditMode(!isEditMode && !!session), 
+            content, 
+            updateContent,
+            replaceContent,
+            resetContent,
+            undo,
+            redo,
+            canUndo: history.past.length > 0,
+            canRedo: history.future.length > 0,
+            openEditor
+          }}>
+            <AppContent initialRoute={initialRoute} />
+            {storageWarning && (
+              <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[90] bg-red-600 text-white px-6 py-3 rounded-lg shadow-2xl flex items-center gap-3 text-sm font-bold">
+                <AlertTriangle size={18} />
+                저장 공간이 부족하여 최근 변경사항이 저장되지 않았습니다. 설정 파일을 다운로드해 백업하세요.
+                <button onClick={() => setStorageWarning(false)} className="p-1 hover:bg-white/20 rounded"><X size={16} /></button>
+              </div>
+            )}
+            {/* Modal is rendered at the top level */}
+            <EditModal 
+              isOpen={!!editingItem}
+              onClose={() => setEditingItem(null)}
+              onSave={handleSaveEdit}
+              onRevert={handleRevertEdit}
+              initialValue={editingItem?.value || ''}
+              initialFocus={editingItem ? parseFocalPoint(draft[focalPointKey(editingItem.id)]) : null}
+              slot={imageSlot(editingItem?.id || '')}
+              defaultValue={editingItem?.defaultValue}
+              sourceText={editingItem?.sourceText}
+              isCustomized={!!editingItem && (editingItem.id in draft || focalPointKey(editingItem.id) in draft)}
+              type={editingItem?.type || 'text'}
+            />
+          </EditContext.Provider>
+        </LocaleContext.Provider>
+      </VersionContext.Provider>
+    </AuthContext.Provider>
   );
 };
-
-const root = createRoot(document.getElementById('root')!);
-root.render(<App />);
\ No newline at end of file
@@ -0,0 +1,314 @@
+import { openDatabase, requestToPromise } from './idb';
+import { loadSession } from './auth';
+
+// Anonymous usage events: which pages are read and which CTAs lead to a
+// consultation request. Nothing typed into forms is recorded, the session id
+// is random per browser tab, and Do Not Track is honoured.
+
+export type AnalyticsEventType = 'page_view' | 'page_time' | 'cta_click' | 'form_start' | 'form_abandon' | 'form_submit';
+
+export interface AnalyticsEvent {
+  id: string;
+  type: AnalyticsEventType;
+  at: string; // ISO timestamp
+  session: string;
+  page: string; // page id, '404' for unknown paths
+  source?: string; // cta_click: section the CTA sits in
+  target?: string; // cta_click: page it leads to
+  entry?: string; // contact page_view and form events: how the visitor reached the form
+  durationMs?: number; // page_time: visible time spent on the page
+}
+
+// Where events go. The browser keeps them in IndexedDB by default, so the
+// dashboard only sees this browser's visits until a collecting sink is swapped
+// in with setAnalyticsSink.
+export interface AnalyticsSink {
+  // True when events stay in the browser that recorded them
+  local?: boolean;
+  record: (event: AnalyticsEvent) => Promise<void>;
+  list: () => Promise<AnalyticsEvent[]>;
+  clear: () => Promise<void>;
+}
+
+const createEventId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const DB_NAME = 'centum_analytics';
+const STORE = 'events';
+
+// The browser store keeps a bounded history: events expire after the
+// retention period and only the newest ones are kept past the limit.
+export const ANALYTICS_RETENTION_DAYS = 180;
+export const ANALYTICS_EVENT_LIMIT = 5000;
+
+export const expiredEventIds = (events: AnalyticsEvent[], now = new Date()) => {
+  const since = new Date(now.getTime() - ANALYTICS_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const newestFirst = [...events].sort((a, b) => b.at.localeCompare(a.at));
+  return newestFirst
+    .filter((event, index) => event.at < since || index >= ANALYTICS_EVENT_LIMIT)
+    .map((event) => event.id);
+};
+
+export const createIndexedDBAnalyticsSink = (): AnalyticsSink => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await getDb();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  // Runs once per page load, after the first event is stored
+  let pruned: Promise<void> | null = null;
+  const prune = async () => {
+    const db = await getDb();
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      const request = store.getAll();
+      request.onsuccess = () => expiredEventIds(request.result).forEach((id) => store.delete(id));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  };
+
+  return {
+    local: true,
+    record: async (event) => {
+      await withStore('readwrite', (store) => store.add(event));
+      pruned ??= prune().catch(() => {});
+    },
+    list: async () => {
+      const events = await withStore<AnalyticsEvent[]>('readonly', (store) => store.getAll());
+      return events.sort((a, b) => a.at.localeCompare(b.at));
+    },
+    clear: async () => {
+      await withStore('readwrite', (store) => store.clear());
+    },
+  };
+};
+
+let activeSink: AnalyticsSink = createIndexedDBAnalyticsSink();
+
+export const getAnalyticsSink = () => activeSink;
+
+export const setAnalyticsSink = (sink: AnalyticsSink) => {
+  activeSink = sink;
+};
+
+// --- Tracking ---
+
+const SESSION_KEY = 'analytics_session';
+const PENDING_ENTRY_KEY = 'analytics_pending_entry';
+const ENTRY_KEY = 'analytics_entry';
+
+// Reached the contact page without a tracked CTA (typed URL, back button, bookmark)
+export const DIRECT_ENTRY = 'direct';
+
+const readSessionValue = (key: string) => {
+  try {
+    return sessionStorage.getItem(key);
+  } catch (e) {
+    return null;
+  }
+};
+
+const writeSessionValue = (key: string, value: string | null) => {
+  try {
+    if (value === null) sessionStorage.removeItem(key);
+    else sessionStorage.setItem(key, value);
+  } catch (e) {
+    // Storage disabled: attribution is lost on reload
+  }
+};
+
+let fallbackSession = '';
+
+const sessionId = () => {
+  const saved = readSessionValue(SESSION_KEY);
+  if (saved) return saved;
+  const id = fallbackSession || createEventId();
+  fallbackSession = id;
+  writeSessionValue(SESSION_KEY, id);
+  return id;
+};
+
+// Signed-in editors are browsing their own site; their visits are not counted.
+const isTrackingAllowed = () =>
+  typeof window !== 'undefined' && (typeof navigator === 'undefined' || navigator.doNotTrack !== '1') && !loadSession();
+
+const track = (event: Omit<AnalyticsEvent, 'id' | 'at' | 'session'>) => {
+  if (!isTrackingAllowed()) return;
+  getAnalyticsSink()
+    .record({ ...event, id: createEventId(), at: new Date().toISOString(), session: sessionId() })
+    .catch(() => {
+      // Analytics never gets in the visitor's way
+    });
+};
+
+export const trackCtaClick = (page: string, source: string, target: string) => {
+  track({ type: 'cta_click', page, source, target });
+  if (target === 'contact') writeSessionValue(PENDING_ENTRY_KEY, source);
+};
+
+// Records the view and starts timing it; call the returned function when the
+// visitor leaves the page. Only time with the tab visible is counted.
+export const trackPageVisit = (page: string) => {
+  if (page === 'contact') {
+    writeSessionValue(ENTRY_KEY, readSessionValue(PENDING_ENTRY_KEY) ?? DIRECT_ENTRY);
+    writeSessionValue(PENDING_ENTRY_KEY, null);
+    track({ type: 'page_view', page, entry: readSessionValue(ENTRY_KEY) ?? DIRECT_ENTRY });
+  } else {
+    track({ type: 'page_view', page });
+  }
+
+  let visibleSince: number | null = document.visibilityState === 'visible' ? Date.now() : null;
+  let total = 0;
+  let done = false;
+  const pause = () => {
+    if (visibleSince !== null) total += Date.now() - visibleSince;
+    visibleSince = null;
+  };
+  const handleVisibility = () => {
+    if (document.visibilityState === 'visible') visibleSince ??= Date.now();
+    else pause();
+  };
+  const finish = () => {
+    if (done) return;
+    done = true;
+    pause();
+    document.removeEventListener('visibilitychange', handleVisibility);
+    window.removeEventListener('pagehide', finish);
+    if (total > 0) track({ type: 'page_time', page, durationMs: total });
+  };
+  document.addEventListener('visibilitychange', handleVisibility);
+  window.addEventListener('pagehide', finish);
+  return finish;
+};
+
+export const trackFormEvent = (type: 'form_start' | 'form_abandon' | 'form_submit') =>
+  track({ type, page: 'contact', entry: readSessionValue(ENTRY_KEY) ?? DIRECT_ENTRY });
+
+// --- Dashboard ---
+
+export const CTA_SOURCE_LABELS: Record<string, string> = {
+  [DIRECT_ENTRY]: '직접 방문',
+  header: '상단 메뉴',
+  header_mobile: '모바일 메뉴',
+  footer: '하단 메뉴',
+  hero: '메인 히어로',
+  highlight: '메인 하이라이트',
+  cta_main: '메인 상담 배너',
+  calculator: '수익 계산기',
+  floorplan: '평면도',
+  not_found: '404 페이지',
+};
+
+export const ctaSourceLabel = (source: string) => CTA_SOURCE_LABELS[source] ?? source;
+
+export interface FunnelRow {
+  entry: string;
+  clicks: number; // CTA clicks toward the contact page; 0 for direct visits
+  views: number;
+  starts: number;
+  submits: number;
+  abandons: number;
+}
+
+export interface PageStats {
+  page: string;
+  views: number;
+  averageMs: number | null;
+}
+
+export interface AnalyticsSummary {
+  sessions: number;
+  pageViews: number;
+  submits: number;
+  pages: PageStats[];
+  ctaClicks: { source: string; target: string; count: number }[];
+  funnel: FunnelRow[];
+}
+
+export const summarizeAnalytics = (events: AnalyticsEvent[]): AnalyticsSummary => {
+  const pages = new Map<string, { views: number; totalMs: number; timed: number }>();
+  const ctaClicks = new Map<string, { source: string; target: string; count: number }>();
+  const funnel = new Map<string, FunnelRow>();
+  const funnelRow = (entry: string) => {
+    if (!funnel.has(entry)) funnel.set(entry, { entry, clicks: 0, views: 0, starts: 0, submits: 0, abandons: 0 });
+    return funnel.get(entry)!;
+  };
+  const pageRow = (page: string) => {
+    if (!pages.has(page)) pages.set(page, { views: 0, totalMs: 0, timed: 0 });
+    return pages.get(page)!;
+  };
+
+  events.forEach((event) => {
+    const entry = event.entry ?? DIRECT_ENTRY;
+    switch (event.type) {
+      case 'page_view':
+        pageRow(event.page).views += 1;
+        if (event.page === 'contact') funnelRow(entry).views += 1;
+        break;
+      case 'page_time':
+        pageRow(event.page).totalMs += event.durationMs ?? 0;
+        pageRow(event.page).timed += 1;
+        break;
+      case 'cta_click': {
+        const key = `${event.source}>${event.target}`;
+        const row = ctaClicks.get(key) ?? { source: event.source ?? '', target: event.target ?? '', count: 0 };
+        row.count += 1;
+        ctaClicks.set(key, row);
+        if (event.target === 'contact' && event.source) funnelRow(event.source).clicks += 1;
+        break;
+      }
+      case 'form_start':
+        funnelRow(entry).starts += 1;
+        break;
+      case 'form_submit':
+        funnelRow(entry).submits += 1;
+        break;
+      case 'form_abandon':
+        funnelRow(entry).abandons += 1;
+        break;
+    }
+  });
+
+  return {
+    sessions: new Set(events.map((event) => event.session)).size,
+    pageViews: events.filter((event) => event.type === 'page_view').length,
+    submits: events.filter((event) => event.type === 'form_submit').length,
+    pages: Array.from(pages, ([page, row]) => ({
+      page,
+      views: row.views,
+      averageMs: row.timed > 0 ? row.totalMs / row.timed : null,
+    })).sort((a, b) => b.views - a.views),
+    ctaClicks: Array.from(ctaClicks.values()).sort((a, b) => b.count - a.count),
+    funnel: Array.from(funnel.values()).sort((a, b) => b.submits - a.submits || b.views - a.views),
+  };
+};
+
+export const eventsSince = (events: AnalyticsEvent[], days: number | null, now = new Date()) => {
+  if (days === null) return events;
+  const since = new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+  return events.filter((event) => event.at >= since);
+};
+
+export const conversionRate = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : null);
+
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return '-';
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}초` : `${Math.floor(seconds / 60)}분 ${seconds % 60}초`;
+};
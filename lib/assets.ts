@@ -0,0 +1,231 @@
+import { openDatabase, requestToPromise } from './idb';
+
+// Uploaded images are kept as blobs in IndexedDB; `content` only stores a
+// lightweight "asset:<id>" reference so the localStorage payload stays small.
+
+export const ASSET_PREFIX = 'asset:';
+
+interface StoredAsset {
+  id: string;
+  blob: Blob;
+  createdAt: string;
+}
+
+const DB_NAME = 'centum_assets';
+const STORE = 'assets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+const getDb = () => {
+  if (!dbPromise) {
+    dbPromise = openDatabase(DB_NAME, 1, (db) => {
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await getDb();
+  return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const isAssetRef = (value: string) => value.startsWith(ASSET_PREFIX);
+
+export const isDataUrl = (value: string) => value.startsWith('data:image/');
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// Assets are keyed by the SHA-256 of their bytes, so the same image uploaded
+// or migrated twice is stored once. SubtleCrypto is missing outside secure
+// contexts (e.g. the dev server opened over a LAN address): hashBlob then
+// resolves to null and each stored blob gets a random id instead, giving up
+// de-duplication rather than risking two images sharing an id.
+export const hashBlob = async (blob: Blob): Promise<string | null> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return null;
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())));
+};
+
+const randomAssetId = (size: number) => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return `random-${toHex(bytes)}-${size}`;
+};
+
+export const putAsset = async (blob: Blob): Promise<string> => {
+  const id = (await hashBlob(blob)) ?? randomAssetId(blob.size);
+  const asset: StoredAsset = { id, blob, createdAt: new Date().toISOString() };
+  await withStore('readwrite', (store) => store.put(asset));
+  return ASSET_PREFIX + asset.id;
+};
+
+export const getAssetBlob = async (ref: string): Promise<Blob | null> => {
+  const asset = await withStore<StoredAsset | undefined>('readonly', (store) => store.get(ref.slice(ASSET_PREFIX.length)));
+  return asset?.blob ?? null;
+};
+
+// Object URLs are cached for the page lifetime so re-renders reuse the same URL.
+const objectUrls = new Map<string, string>();
+
+export const peekAssetUrl = (ref: string) => objectUrls.get(ref);
+
+export const resolveAssetUrl = async (ref: string): Promise<string> => {
+  const cached = objectUrls.get(ref);
+  if (cached) return cached;
+  const blob = await getAssetBlob(ref);
+  if (!blob) throw new Error(`Asset ${ref} not found`);
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(ref, url);
+  return url;
+};
+
+// --- Conversion ---
+
+export const dataUrlToBlob = async (dataUrl: string) => (await fetch(dataUrl)).blob();
+
+export const blobToDataUrl = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Moves inline data-URL images (older saves, imported files) into the asset
+// store. Resolves to null when there was nothing to migrate.
+export const migrateDataUrls = async (content: Record<string, string>): Promise<Record<string, string> | null> => {
+  const keys = Object.keys(content).filter((key) => isDataUrl(content[key]));
+  if (keys.length === 0) return null;
+
+  const migrated = { ...content };
+  const refs = new Map<string, string>();
+  for (const key of keys) {
+    const dataUrl = content[key];
+    if (!refs.has(dataUrl)) refs.set(dataUrl, await putAsset(await dataUrlToBlob(dataUrl)));
+    migrated[key] = refs.get(dataUrl)!;
+  }
+  return migrated;
+};
+
+// The reverse of migrateDataUrls, for exports that must be self-contained.
+export const inlineAssets = async (content: Record<string, string>): Promise<Record<string, string>> => {
+  const inlined = { ...content };
+  for (const key of Object.keys(content)) {
+    if (!isAssetRef(content[key])) continue;
+    const blob = await getAssetBlob(content[key]);
+    if (blob) inlined[key] = await blobToDataUrl(blob);
+  }
+  return inlined;
+};
+
+// The hash, or without SubtleCrypto the bytes themselves as a data URL.
+const fingerprint = async (blob: Blob) => (await hashBlob(blob)) ?? blobToDataUrl(blob);
+
+// Swaps every image, inline or stored, for a reference to the hash of its
+// bytes, so two contents can be compared by what they show rather than by how
+// the image happens to be held. Refs whose asset is missing stay as they are.
+export const normalizeAssetValues = async (content: Record<string, string>): Promise<Record<string, string>> => {
+  const normalized = { ...content };
+  for (const key of Object.keys(content)) {
+    const value = content[key];
+    try {
+      if (isDataUrl(value)) {
+        normalized[key] = ASSET_PREFIX + await fingerprint(await dataUrlToBlob(value));
+      } else if (isAssetRef(value)) {
+        const blob = await getAssetBlob(value);
+        if (blob) normalized[key] = ASSET_PREFIX + await fingerprint(blob);
+      }
+    } catch (e) {
+      // Unreadable image: compare the raw value
+    }
+  }
+  return normalized;
+};
+
+// --- Cleanup ---
+
+export const collectAssetIds = (contents: Record<string, string>[]) => {
+  const ids = new Set<string>();
+  contents.forEach((content) => {
+    Object.values(content).forEach((value) => {
+      if (isAssetRef(value)) ids.add(value.slice(ASSET_PREFIX.length));
+    });
+  });
+  return ids;
+};
+
+// Deletes stored images that none of `contents` (draft, published, history,
+// snapshots) refer to. Assets written after `createdBefore` are kept, so an
+// upload or migration still on its way into the content is never lost. Runs in
+// one transaction and resolves to the number of assets removed.
+export const removeUnusedAssets = async (contents: Record<string, string>[], createdBefore: Date): Promise<number> => {
+  const used = collectAssetIds(contents);
+  const cutoff = createdBefore.toISOString();
+  const db = await getDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE, 'readwrite');
+    const request = transaction.objectStore(STORE).openCursor();
+    let removed = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const asset = cursor.value as StoredAsset;
+      if (!used.has(asset.id) && asset.createdAt < cutoff) {
+        cursor.delete();
+        removed++;
+      }
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(removed);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+// --- Quota ---
+
+// Browsers allow roughly 5M UTF-16 characters of localStorage per origin.
+export const LOCAL_STORAGE_BUDGET = 5 * 1024 * 1024;
+
+export const localStorageUsage = () => {
+  let total = 0;
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i) ?? '';
+      total += key.length + (localStorage.getItem(key)?.length ?? 0);
+    }
+  } catch (e) {
+    // Storage disabled
+  }
+  return total;
+};
+
+// Characters the `site_content` entry would occupy once `content` is saved,
+// on top of everything else already in localStorage.
+export const projectedLocalStorageUsage = (storageKey: string, content: Record<string, string>) => {
+  let current = 0;
+  try {
+    current = localStorage.getItem(storageKey)?.length ?? 0;
+  } catch (e) {
+    // Storage disabled
+  }
+  return localStorageUsage() - current + JSON.stringify(content).length;
+};
+
+export interface AssetStorageEstimate {
+  usage: number;
+  quota: number;
+}
+
+export const estimateAssetStorage = async (): Promise<AssetStorageEstimate | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)}KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)}MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)}GB`;
+};
@@ -0,0 +1,104 @@
+export type Role = 'editor' | 'admin';
+
+export type Permission = 'edit' | 'publish' | 'reset' | 'import' | 'export' | 'leads' | 'analytics';
+
+export const ROLES: { id: Role; label: string }[] = [
+  { id: 'editor', label: '에디터' },
+  { id: 'admin', label: '관리자' },
+];
+
+// Editors change copy and images in the draft; publishing and site-wide
+// operations are admin only.
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  editor: ['edit', 'analytics'],
+  admin: ['edit', 'publish', 'reset', 'import', 'export', 'leads', 'analytics'],
+};
+
+export const hasPermission = (role: Role | null, permission: Permission) =>
+  !!role && ROLE_PERMISSIONS[role].includes(permission);
+
+export interface AuthSession {
+  role: Role;
+  expiresAt: string; // ISO timestamp
+}
+
+export const SESSION_TTL_MS = 4 * 60 * 60 * 1000;
+
+export const isSessionExpired = (session: AuthSession, now = new Date()) =>
+  !(new Date(session.expiresAt).getTime() > now.getTime());
+
+// Sign-in backend. The default checks hashed passcodes configured at build
+// time; a server-backed adapter can be swapped in with setAuthAdapter.
+export interface AuthAdapter {
+  signIn: (passcode: string) => Promise<AuthSession | null>;
+  signOut: (session: AuthSession) => Promise<void>;
+}
+
+// --- Local passcodes ---
+
+const PASSCODE_SALT = 'centum-square:';
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// SHA-256 of the salted passcode, hex encoded. Matches
+//   node -e "console.log(require('crypto').createHash('sha256').update('centum-square:' + process.argv[1]).digest('hex'))" <passcode>
+export const hashPasscode = async (passcode: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(PASSCODE_SALT + passcode)));
+
+export type PasscodeHashes = Partial<Record<Role, string>>;
+
+// The hashes ship with the static bundle, so this keeps the editing tools away
+// from visitors but is not a security boundary; use a backend adapter for that.
+export const createLocalAuthAdapter = (hashes: PasscodeHashes, ttlMs = SESSION_TTL_MS): AuthAdapter => ({
+  signIn: async (passcode) => {
+    if (!passcode) return null;
+    const hash = await hashPasscode(passcode);
+    // Check admin first in case both roles were configured with the same passcode
+    const role = (['admin', 'editor'] as Role[]).find((id) => hashes[id]?.toLowerCase() === hash);
+    return role ? { role, expiresAt: new Date(Date.now() + ttlMs).toISOString() } : null;
+  },
+  signOut: async () => {},
+});
+
+export const configuredPasscodeHashes = (): PasscodeHashes => ({
+  admin: process.env.ADMIN_PASSCODE_HASH || undefined,
+  editor: process.env.EDITOR_PASSCODE_HASH || undefined,
+});
+
+let activeAdapter: AuthAdapter = createLocalAuthAdapter(configuredPasscodeHashes());
+
+export const getAuthAdapter = () => activeAdapter;
+
+export const setAuthAdapter = (adapter: AuthAdapter) => {
+  activeAdapter = adapter;
+};
+
+// --- Session persistence ---
+
+export const SESSION_STORAGE_KEY = 'admin_session';
+
+const isAuthSession = (value: unknown): value is AuthSession =>
+  !!value &&
+  typeof value === 'object' &&
+  ROLES.some((role) => role.id === (value as AuthSession).role) &&
+  typeof (value as AuthSession).expiresAt === 'string';
+
+export const loadSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    const session: unknown = raw ? JSON.parse(raw) : null;
+    return isAuthSession(session) && !isSessionExpired(session) ? session : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const saveSession = (session: AuthSession | null) => {
+  try {
+    if (session) localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch (e) {
+    // Storage disabled: the session lasts until the page is closed
+  }
+};
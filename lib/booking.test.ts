@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { BookingSettings, DEFAULT_BOOKING_SETTINGS, buildIcs, findSlot, parseSlotKey, slotsForDay } from './booking';
+
+// Tuesday 2026-10-20, 09:00 in Korea
+const now = new Date('2026-10-20T00:00:00Z');
+
+const settings = (patch: Partial<BookingSettings> = {}): BookingSettings => ({
+  ...DEFAULT_BOOKING_SETTINGS,
+  open: 10 * 60,
+  close: 14 * 60,
+  days: [1, 2, 3, 4, 5],
+  slotMinutes: 60,
+  leadMinutes: 120,
+  holidays: [],
+  ...patch,
+});
+
+const keys = (date: string, options: BookingSettings) => slotsForDay(new Date(date), options, now).map((slot) => slot.key);
+
+describe('slotsForDay', () => {
+  it('keys slots by their Korea start time', () => {
+    const slots = slotsForDay(new Date('2026-10-21T03:00:00Z'), settings(), now);
+    expect(slots.map((slot) => slot.key)).toEqual(['2026-10-21T10:00', '2026-10-21T11:00', '2026-10-21T12:00', '2026-10-21T13:00']);
+    expect(slots[0].start.toISOString()).toBe('2026-10-21T01:00:00.000Z');
+    expect(slots[0].end.toISOString()).toBe('2026-10-21T02:00:00.000Z');
+  });
+
+  it('reads the day in Korea time', () => {
+    // 20:00 UTC on the 20th is already the 21st in Korea
+    expect(keys('2026-10-20T20:00:00Z', settings())[0]).toBe('2026-10-21T10:00');
+  });
+
+  it('skips slots inside the minimum notice', () => {
+    // 09:00 now with 2 hours' notice leaves 11:00 onwards
+    expect(keys('2026-10-20T03:00:00Z', settings())).toEqual(['2026-10-20T11:00', '2026-10-20T12:00', '2026-10-20T13:00']);
+    expect(keys('2026-10-20T03:00:00Z', settings({ leadMinutes: 0 }))[0]).toBe('2026-10-20T10:00');
+  });
+
+  it('has no slots on holidays, closed days or outside the horizon', () => {
+    expect(keys('2026-10-21T03:00:00Z', settings({ holidays: ['2026-10-21'] }))).toEqual([]);
+    expect(keys('2026-10-22T03:00:00Z', settings({ holidays: ['10-22'] }))).toEqual([]);
+    expect(keys('2026-10-22T03:00:00Z', settings({ holidays: ['2027-10-22'] }))).toHaveLength(4);
+    // Saturday
+    expect(keys('2026-10-24T03:00:00Z', settings())).toEqual([]);
+    expect(keys('2026-11-30T03:00:00Z', settings({ horizonDays: 28 }))).toEqual([]);
+    expect(keys('2026-10-19T03:00:00Z', settings())).toEqual([]);
+  });
+
+  it('only offers slots that end by closing time', () => {
+    expect(keys('2026-10-21T03:00:00Z', settings({ slotMinutes: 90 }))).toEqual(['2026-10-21T10:00', '2026-10-21T11:30']);
+  });
+});
+
+describe('findSlot', () => {
+  it('finds open slots by key', () => {
+    expect(findSlot('2026-10-21T11:00', settings(), now)?.start.toISOString()).toBe('2026-10-21T02:00:00.000Z');
+    expect(findSlot('2026-10-21T11:30', settings(), now)).toBeNull();
+    expect(findSlot('2026-10-21T25:00', settings(), now)).toBeNull();
+    expect(parseSlotKey('2026-02-30T10:00')).toBeNull();
+  });
+});
+
+describe('buildIcs', () => {
+  const event = {
+    uid: '202610211000-1@centum-square',
+    start: new Date('2026-10-21T01:00:00Z'),
+    end: new Date('2026-10-21T02:00:00Z'),
+    summary: '이편한세상 동대구역 센텀 스퀘어 모델하우스 VIP 상담 예약 (관심 평형 84A 타입 방문 상담)',
+    description: '관심 평형: 84A\n대표 전화: 053-247-9599; 주차 가능, 방문 전 연락 바랍니다',
+    location: '대구광역시 동구 신천동 325-1',
+  };
+  const ics = buildIcs(event, new Date('2026-10-20T00:00:00Z'));
+  const lines = ics.split('\r\n');
+
+  it('writes the event in UTC', () => {
+    expect(lines).toContain('DTSTART:20261021T010000Z');
+    expect(lines).toContain('DTEND:20261021T020000Z');
+    expect(lines).toContain('DTSTAMP:20261020T000000Z');
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('folds content lines at 75 octets without splitting characters', () => {
+    const encoder = new TextEncoder();
+    lines.forEach((line) => expect(encoder.encode(line).length).toBeLessThanOrEqual(75));
+    expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    expect(ics).not.toContain('�');
+  });
+
+  it('unfolds back to the escaped values', () => {
+    const unfolded = ics.replace(/\r\n /g, '').split('\r\n');
+    expect(unfolded).toContain(`SUMMARY:${event.summary}`);
+    expect(unfolded).toContain('DESCRIPTION:관심 평형: 84A\\n대표 전화: 053-247-9599\\; 주차 가능\\, 방문 전 연락 바랍니다');
+    expect(unfolded).toContain(`LOCATION:${event.location}`);
+  });
+});
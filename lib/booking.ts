@@ -0,0 +1,310 @@
+import { openDatabase, requestToPromise } from './idb';
+import { BusinessHours, DEFAULT_BUSINESS_HOURS, KOREA_UTC_OFFSET_MINUTES } from './contactValidation';
+
+// Consultation slots are generated from structured business hours and held in
+// a reservation store so two visitors cannot book the same time. The office is
+// in Korea, so days, hours and holidays are in Korea time (a fixed +09:00, no
+// daylight saving) wherever the visitor is. A slot is identified by its Korea
+// start time in datetime-local form ("2026-10-20T14:00"), which is also what
+// the contact form submits as `time`; the calendar shows it in the visitor's time.
+
+export interface BookingSettings extends BusinessHours {
+  slotMinutes: number;
+  leadMinutes: number; // minimum notice before a slot can be booked
+  horizonDays: number; // how far ahead slots are offered
+  holidays: string[]; // "YYYY-MM-DD" for one day, "MM-DD" for every year
+}
+
+export const BOOKING_SETTINGS_KEY = 'booking_settings';
+
+export const SLOT_LENGTHS = [30, 60, 90, 120];
+
+// Fixed-date public holidays; lunar ones (설날, 추석, 부처님오신날) move every year and are added as dates.
+export const FIXED_PUBLIC_HOLIDAYS = ['01-01', '03-01', '05-05', '06-06', '08-15', '10-03', '10-09', '12-25'];
+
+export const DEFAULT_BOOKING_SETTINGS: BookingSettings = {
+  ...DEFAULT_BUSINESS_HOURS,
+  slotMinutes: 60,
+  leadMinutes: 120,
+  horizonDays: 28,
+  holidays: FIXED_PUBLIC_HOLIDAYS,
+};
+
+const isDayList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+
+export const isHolidayEntry = (value: string) => /^(\d{4}-)?\d{2}-\d{2}$/.test(value);
+
+// Saved settings win; otherwise the hours parsed from the contact_time copy
+// are used so sites configured before booking existed keep their hours.
+export const parseBookingSettings = (value: unknown, fallbackHours: BusinessHours = DEFAULT_BUSINESS_HOURS): BookingSettings => {
+  const settings: BookingSettings = { ...DEFAULT_BOOKING_SETTINGS, ...fallbackHours };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return settings;
+  const record = value as Record<string, unknown>;
+
+  const minutes = (field: unknown) => (Number.isInteger(field) && (field as number) >= 0 && (field as number) <= 24 * 60 ? (field as number) : null);
+  const open = minutes(record.open);
+  const close = minutes(record.close);
+  if (open !== null && close !== null && open < close) {
+    settings.open = open;
+    settings.close = close;
+  }
+  if (isDayList(record.days)) settings.days = record.days;
+  if (SLOT_LENGTHS.includes(record.slotMinutes as number)) settings.slotMinutes = record.slotMinutes as number;
+  if (minutes(record.leadMinutes) !== null) settings.leadMinutes = record.leadMinutes as number;
+  if (Number.isInteger(record.horizonDays) && (record.horizonDays as number) > 0) settings.horizonDays = record.horizonDays as number;
+  if (Array.isArray(record.holidays)) {
+    settings.holidays = record.holidays.filter((entry): entry is string => typeof entry === 'string' && isHolidayEntry(entry));
+  }
+  return settings;
+};
+
+export const readBookingSettings = (content: Record<string, string>, fallbackHours?: BusinessHours) => {
+  const raw = content[BOOKING_SETTINGS_KEY];
+  try {
+    return parseBookingSettings(raw ? JSON.parse(raw) : null, fallbackHours);
+  } catch (e) {
+    return parseBookingSettings(null, fallbackHours);
+  }
+};
+
+// --- Slots ---
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const SEOUL_TIME_ZONE = 'Asia/Seoul';
+
+// The Korea wall-clock fields of an instant, read through the UTC getters.
+const seoulClock = (date: Date) => new Date(date.getTime() + KOREA_UTC_OFFSET_MINUTES * 60 * 1000);
+
+// The instant of a Korea date and time; `minute` may run past midnight.
+const seoulInstant = (year: number, month: number, day: number, minute = 0) =>
+  new Date(Date.UTC(year, month, day, 0, minute) - KOREA_UTC_OFFSET_MINUTES * 60 * 1000);
+
+// True when the visitor's clock already shows Korea time.
+export const isSeoulTime = (date = new Date()) => date.getTimezoneOffset() === -KOREA_UTC_OFFSET_MINUTES;
+
+export const dateKey = (date: Date) => {
+  const clock = seoulClock(date);
+  return `${clock.getUTCFullYear()}-${pad(clock.getUTCMonth() + 1)}-${pad(clock.getUTCDate())}`;
+};
+
+export const slotKey = (date: Date) => {
+  const clock = seoulClock(date);
+  return `${dateKey(date)}T${pad(clock.getUTCHours())}:${pad(clock.getUTCMinutes())}`;
+};
+
+// The start of a slot key, or null when it is not one.
+export const parseSlotKey = (key: string) => {
+  const match = key.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+  const [year, month, day, hours, minutes] = match.slice(1).map(Number);
+  const date = seoulInstant(year, month - 1, day, hours * 60 + minutes);
+  return slotKey(date) === key ? date : null;
+};
+
+// Day of the month and of the week (0 = Sunday) in Korea.
+export const dayOfMonth = (date: Date) => seoulClock(date).getUTCDate();
+
+export const dayOfWeek = (date: Date) => seoulClock(date).getUTCDay();
+
+// Midnight in Korea; calendar days are these instants.
+export const startOfDay = (date: Date) => {
+  const clock = seoulClock(date);
+  return seoulInstant(clock.getUTCFullYear(), clock.getUTCMonth(), clock.getUTCDate());
+};
+
+export const addDays = (date: Date, days: number) => {
+  const clock = seoulClock(date);
+  return seoulInstant(clock.getUTCFullYear(), clock.getUTCMonth(), clock.getUTCDate() + days);
+};
+
+// Monday-based weeks, as on Korean calendars
+export const startOfWeek = (date: Date) => addDays(startOfDay(date), -((dayOfWeek(date) + 6) % 7));
+
+export const isHoliday = (date: Date, settings: BookingSettings) => {
+  const key = dateKey(date);
+  return settings.holidays.includes(key) || settings.holidays.includes(key.slice(5));
+};
+
+export type DayStatus = 'open' | 'closed' | 'holiday' | 'past' | 'beyond';
+
+export const dayStatus = (date: Date, settings: BookingSettings, now = new Date()): DayStatus => {
+  const day = startOfDay(date);
+  if (day < startOfDay(now)) return 'past';
+  if (day >= addDays(startOfDay(now), settings.horizonDays)) return 'beyond';
+  if (isHoliday(day, settings)) return 'holiday';
+  return settings.days.includes(dayOfWeek(day)) ? 'open' : 'closed';
+};
+
+export interface Slot {
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+// Every slot of the day that starts after the minimum notice and ends by closing time.
+export const slotsForDay = (date: Date, settings: BookingSettings, now = new Date()): Slot[] => {
+  if (dayStatus(date, settings, now) !== 'open') return [];
+  const day = startOfDay(date);
+  const earliest = now.getTime() + settings.leadMinutes * 60 * 1000;
+  const slots: Slot[] = [];
+  for (let minute = settings.open; minute + settings.slotMinutes <= settings.close; minute += settings.slotMinutes) {
+    const start = new Date(day.getTime() + minute * 60 * 1000);
+    if (start.getTime() < earliest) continue;
+    slots.push({ key: slotKey(start), start, end: new Date(start.getTime() + settings.slotMinutes * 60 * 1000) });
+  }
+  return slots;
+};
+
+export const findSlot = (key: string, settings: BookingSettings, now = new Date()): Slot | null => {
+  const start = parseSlotKey(key);
+  if (!start) return null;
+  return slotsForDay(start, settings, now).find((slot) => slot.key === key) ?? null;
+};
+
+// Times are shown in the visitor's own time zone
+export const formatSlotTime = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const formatSlot = (slot: Slot, lang = 'ko') =>
+  `${slot.start.toLocaleDateString(lang, { year: 'numeric', month: 'long', day: 'numeric', weekday: 'short' })} ${formatSlotTime(slot.start)} ~ ${formatSlotTime(slot.end)}`;
+
+// --- Reservations ---
+
+export interface Reservation {
+  slot: string; // slot key
+  createdAt: string;
+}
+
+// Stable per booking, so re-importing the .ics updates the event instead of duplicating it.
+export const reservationUid = (reservation: Reservation) =>
+  `${reservation.slot.replace(/\D/g, '')}-${new Date(reservation.createdAt).getTime()}@centum-square`;
+
+export class SlotTakenError extends Error {
+  constructor(slot: string) {
+    super(`Slot ${slot} is already booked`);
+    this.name = 'SlotTakenError';
+  }
+}
+
+// Storage backend for booked slots. The default keeps them in this browser's
+// IndexedDB as a stand-in; a shared backend must make `reserve` atomic and
+// reject with SlotTakenError when the slot is gone.
+export interface ReservationStore {
+  listBooked: (fromKey: string, toKey: string) => Promise<string[]>;
+  reserve: (slot: string) => Promise<Reservation>;
+  release: (slot: string) => Promise<void>;
+}
+
+const DB_NAME = 'centum_reservations';
+const STORE = 'reservations';
+
+export const createIndexedDBReservationStore = (): ReservationStore => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          // Keyed by slot so a second add() for the same time fails
+          db.createObjectStore(STORE, { keyPath: 'slot' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await getDb();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  return {
+    listBooked: async (fromKey, toKey) => {
+      const keys = await withStore<IDBValidKey[]>('readonly', (store) => store.getAllKeys(IDBKeyRange.bound(fromKey, toKey)));
+      return keys.map(String);
+    },
+    reserve: async (slot) => {
+      const reservation: Reservation = { slot, createdAt: new Date().toISOString() };
+      try {
+        await withStore('readwrite', (store) => store.add(reservation));
+      } catch (e) {
+        if (e instanceof DOMException && e.name === 'ConstraintError') throw new SlotTakenError(slot);
+        throw e;
+      }
+      return reservation;
+    },
+    release: async (slot) => {
+      await withStore('readwrite', (store) => store.delete(slot));
+    },
+  };
+};
+
+let activeStore: ReservationStore = createIndexedDBReservationStore();
+
+export const getReservationStore = () => activeStore;
+
+export const setReservationStore = (store: ReservationStore) => {
+  activeStore = store;
+};
+
+// --- Calendar file ---
+
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+}
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeIcsText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const ICS_LINE_OCTETS = 75;
+
+// RFC 5545 §3.1: content lines longer than 75 octets are folded with CRLF and
+// a space. Korean text is 3 octets a character in UTF-8, so the split is
+// counted in octets and never falls inside a character.
+const foldIcsLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = lines.length === 0 ? ICS_LINE_OCTETS : ICS_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      lines.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n ');
+};
+
+// Single-event iCalendar file (RFC 5545) for the booking confirmation.
+export const buildIcs = (event: CalendarEvent, now = new Date()) =>
+  [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Centum Square//Consultation Booking//KO',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${icsDate(now)}`,
+    `DTSTART:${icsDate(event.start)}`,
+    `DTEND:${icsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeIcsText(event.location)}`] : []),
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
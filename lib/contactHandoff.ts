@@ -0,0 +1,34 @@
+// Carries context from other pages (e.g. a calculator scenario) into the
+// consultation form. Kept in sessionStorage so it survives a page refresh.
+
+export interface ContactHandoff {
+  type?: string;
+  memo?: string;
+}
+
+const STORAGE_KEY = 'contact_handoff';
+
+export const saveContactHandoff = (handoff: ContactHandoff) => {
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(handoff));
+  } catch (e) {
+    // Private mode or storage disabled: the form simply starts empty
+  }
+};
+
+export const loadContactHandoff = (): ContactHandoff => {
+  try {
+    const saved = sessionStorage.getItem(STORAGE_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    return {};
+  }
+};
+
+export const clearContactHandoff = () => {
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    // ignore
+  }
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { ContactFormData, DEFAULT_BUSINESS_HOURS, normalizePhone, parseBusinessHours, validateContactForm } from './contactValidation';
+
+// Tuesday 2026-10-20, 09:00 in Korea
+const now = new Date('2026-10-20T00:00:00Z');
+
+const form = (patch: Partial<ContactFormData> = {}): ContactFormData => ({
+  name: '홍길동',
+  phone: '010-1234-5678',
+  time: '2026-10-21T14:00',
+  type: '84A',
+  consent: true,
+  ...patch,
+});
+
+describe('normalizePhone', () => {
+  it('hyphenates mobile numbers', () => {
+    expect(normalizePhone('01012345678')).toBe('010-1234-5678');
+    expect(normalizePhone('010 1234 5678')).toBe('010-1234-5678');
+    expect(normalizePhone('+82 10-1234-5678')).toBe('010-1234-5678');
+    expect(normalizePhone('0111234567')).toBe('011-123-4567');
+  });
+
+  it('hyphenates Seoul and other landline numbers', () => {
+    expect(normalizePhone('021234567')).toBe('02-123-4567');
+    expect(normalizePhone('02)1234-5678')).toBe('02-1234-5678');
+    expect(normalizePhone('0532479599')).toBe('053-247-9599');
+    expect(normalizePhone('15881234')).toBe('1588-1234');
+  });
+
+  it('rejects malformed numbers', () => {
+    expect(normalizePhone('0101234567')).toBeNull();
+    expect(normalizePhone('010-1234-56789')).toBeNull();
+    expect(normalizePhone('0212345')).toBeNull();
+    expect(normalizePhone('099-123-4567')).toBeNull();
+    expect(normalizePhone('abc')).toBeNull();
+  });
+});
+
+describe('parseBusinessHours', () => {
+  it('reads the hours and days from the contact copy', () => {
+    expect(parseBusinessHours('월~금 09:30 - 19:00')).toEqual({ open: 570, close: 1140, days: [1, 2, 3, 4, 5] });
+    expect(parseBusinessHours('10:00 ~ 18:00 (연중무휴)')).toEqual(DEFAULT_BUSINESS_HOURS);
+  });
+
+  it('falls back to the default hours', () => {
+    expect(parseBusinessHours('상담 문의 환영')).toEqual(DEFAULT_BUSINESS_HOURS);
+    expect(parseBusinessHours('18:00 ~ 10:00')).toEqual(DEFAULT_BUSINESS_HOURS);
+  });
+});
+
+describe('validateContactForm', () => {
+  it('accepts a complete form and normalises it', () => {
+    const { errors, normalized } = validateContactForm(form({ name: ' 홍  길동 ', phone: '01012345678' }), { now });
+    expect(errors).toEqual({});
+    expect(normalized.name).toBe('홍 길동');
+    expect(normalized.phone).toBe('010-1234-5678');
+  });
+
+  it('reports missing and malformed fields', () => {
+    expect(validateContactForm(form({ name: '', phone: '' }), { now }).errors).toEqual({
+      name: 'nameRequired',
+      phone: 'phoneRequired',
+    });
+    expect(validateContactForm(form({ name: '홍', phone: '010-12' }), { now }).errors).toEqual({
+      name: 'nameTooShort',
+      phone: 'phoneInvalid',
+    });
+  });
+
+  it('requires a time in the future', () => {
+    expect(validateContactForm(form({ time: '' }), { now }).errors).toEqual({ time: 'timeRequired' });
+    expect(validateContactForm(form({ time: '2026-10-19T14:00' }), { now }).errors).toEqual({ time: 'timePast' });
+    expect(validateContactForm(form({ time: 'tomorrow' }), { now }).errors).toEqual({ time: 'timeInvalid' });
+  });
+
+  it('checks business hours in Korea time', () => {
+    const businessHours = parseBusinessHours('월~금 10:00 - 18:00');
+    const check = (time: string) => validateContactForm(form({ time }), { now, businessHours }).errors;
+    expect(check('2026-10-21T10:00')).toEqual({});
+    expect(check('2026-10-21T09:30')).toEqual({ time: 'timeOutsideHours' });
+    expect(check('2026-10-21T18:00')).toEqual({ time: 'timeOutsideHours' });
+    // Saturday
+    expect(check('2026-10-24T14:00')).toEqual({ time: 'timeOutsideHours' });
+  });
+
+  it('requires consent', () => {
+    expect(validateContactForm(form({ consent: false }), { now }).errors).toEqual({ consent: 'consentRequired' });
+  });
+});
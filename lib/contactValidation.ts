@@ -0,0 +1,158 @@
+export interface ContactFormData {
+  name: string;
+  phone: string;
+  time: string;
+  type: string;
+  consent: boolean;
+}
+
+// Codes rather than messages, so the page can show them in the visitor's
+// language (UI strings "validation.<code>").
+export type ContactFormErrorCode =
+  | 'nameRequired'
+  | 'nameTooShort'
+  | 'phoneRequired'
+  | 'phoneInvalid'
+  | 'timeRequired'
+  | 'timeInvalid'
+  | 'timePast'
+  | 'timeOutsideHours'
+  | 'consentRequired';
+
+export type ContactFormErrors = Partial<Record<keyof ContactFormData, ContactFormErrorCode>>;
+
+// Business hours and requested times are Korea time (UTC+9, no daylight
+// saving), wherever the visitor is.
+export interface BusinessHours {
+  open: number; // minutes from midnight
+  close: number;
+  days: number[]; // Date#getDay() values the office is open
+}
+
+export const KOREA_UTC_OFFSET_MINUTES = 9 * 60;
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+const DAY_NAMES = ['일', '월', '화', '수', '목', '금', '토'];
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = { open: 10 * 60, close: 18 * 60, days: ALL_DAYS };
+
+// --- Phone ---
+
+const MOBILE_PREFIXES = ['010', '011', '016', '017', '018', '019'];
+
+// Accepts any of "01012345678", "010 1234 5678", "+82 10-1234-5678", "02)123-4567" …
+// and returns the hyphenated form (010-1234-5678, 02-123-4567, 053-247-9599, 1588-1234),
+// or null when the digits do not form a Korean phone number.
+export const normalizePhone = (input: string): string | null => {
+  let digits = input.replace(/\D/g, '');
+  if (digits.startsWith('82')) digits = '0' + digits.slice(2).replace(/^0/, '');
+
+  // Representative numbers: 15XX / 16XX / 18XX-XXXX
+  if (/^1[568]\d{6}$/.test(digits)) {
+    return `${digits.slice(0, 4)}-${digits.slice(4)}`;
+  }
+
+  if (MOBILE_PREFIXES.includes(digits.slice(0, 3))) {
+    if (digits.startsWith('010') && digits.length !== 11) return null;
+    if (digits.length !== 10 && digits.length !== 11) return null;
+    return `${digits.slice(0, 3)}-${digits.slice(3, -4)}-${digits.slice(-4)}`;
+  }
+
+  // Seoul
+  if (digits.startsWith('02')) {
+    if (digits.length !== 9 && digits.length !== 10) return null;
+    return `02-${digits.slice(2, -4)}-${digits.slice(-4)}`;
+  }
+
+  // Other area codes (031~064) and 070 internet phones
+  if (/^0(3[1-3]|4[1-4]|5[1-5]|6[1-4]|70)/.test(digits)) {
+    if (digits.length !== 10 && digits.length !== 11) return null;
+    return `${digits.slice(0, 3)}-${digits.slice(3, -4)}-${digits.slice(-4)}`;
+  }
+
+  return null;
+};
+
+// --- Business hours ---
+
+const toMinutes = (h: string, m: string) => parseInt(h, 10) * 60 + parseInt(m, 10);
+
+const parseDays = (text: string): number[] => {
+  if (/연중무휴|매일/.test(text)) return ALL_DAYS;
+
+  const range = text.match(/([일월화수목금토])\s*[~\-]\s*([일월화수목금토])/);
+  if (range) {
+    const start = DAY_NAMES.indexOf(range[1]);
+    const end = DAY_NAMES.indexOf(range[2]);
+    const days: number[] = [];
+    for (let d = start; ; d = (d + 1) % 7) {
+      days.push(d);
+      if (d === end) break;
+    }
+    return days;
+  }
+
+  if (/평일/.test(text)) return [1, 2, 3, 4, 5];
+  return ALL_DAYS;
+};
+
+// Reads the free-text `contact_time` copy, e.g. "10:00 ~ 18:00 (연중무휴)" or
+// "월~토 09:30 - 19:00". Falls back to the default hours when no range is found.
+export const parseBusinessHours = (text: string): BusinessHours => {
+  const match = text.match(/(\d{1,2}):(\d{2})\s*[~\-–]\s*(\d{1,2}):(\d{2})/);
+  if (!match) return DEFAULT_BUSINESS_HOURS;
+
+  const open = toMinutes(match[1], match[2]);
+  const close = toMinutes(match[3], match[4]);
+  if (open >= close) return DEFAULT_BUSINESS_HOURS;
+
+  return { open, close, days: parseDays(text.replace(match[0], '')) };
+};
+
+const formatMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const formatBusinessHours = (hours: BusinessHours) => `${formatMinutes(hours.open)} ~ ${formatMinutes(hours.close)}`;
+
+export const isWithinBusinessHours = (date: Date, hours: BusinessHours) => {
+  // Korea wall-clock fields, read through the UTC getters
+  const korea = new Date(date.getTime() + KOREA_UTC_OFFSET_MINUTES * 60 * 1000);
+  const minutes = korea.getUTCHours() * 60 + korea.getUTCMinutes();
+  return hours.days.includes(korea.getUTCDay()) && minutes >= hours.open && minutes < hours.close;
+};
+
+// --- Form ---
+
+export const validateContactForm = (
+  data: ContactFormData,
+  options: { businessHours?: BusinessHours; now?: Date } = {}
+): { errors: ContactFormErrors; normalized: ContactFormData } => {
+  const hours = options.businessHours ?? DEFAULT_BUSINESS_HOURS;
+  const now = options.now ?? new Date();
+  const errors: ContactFormErrors = {};
+
+  const name = data.name.trim().replace(/\s+/g, ' ');
+  if (!name) errors.name = 'nameRequired';
+  else if (name.length < 2) errors.name = 'nameTooShort';
+
+  const phone = data.phone.trim() ? normalizePhone(data.phone) : null;
+  if (!data.phone.trim()) errors.phone = 'phoneRequired';
+  else if (!phone) errors.phone = 'phoneInvalid';
+
+  if (!data.time) {
+    errors.time = 'timeRequired';
+  } else {
+    // "2026-10-20T14:00" in Korea time
+    const requested = new Date(`${data.time}:00+09:00`);
+    if (isNaN(requested.getTime())) errors.time = 'timeInvalid';
+    else if (requested.getTime() <= now.getTime()) errors.time = 'timePast';
+    else if (!isWithinBusinessHours(requested, hours)) errors.time = 'timeOutsideHours';
+  }
+
+  if (!data.consent) errors.consent = 'consentRequired';
+
+  return {
+    errors,
+    normalized: { ...data, name, phone: phone ?? data.phone.trim() },
+  };
+};
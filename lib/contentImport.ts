@@ -0,0 +1,77 @@
+import { isKnownContentKey } from './contentKeys';
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ContentDiff {
+  added: string[];
+  changed: string[];
+  dropped: string[];
+  unchanged: string[];
+}
+
+export interface ParsedContentFile {
+  content: Record<string, string>;
+  unknownKeys: string[];
+  invalidKeys: string[];
+}
+
+export class ContentImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ContentImportError';
+  }
+}
+
+// Parses an exported site-content.json. Unknown ids and non-string values are
+// reported and left out of the returned content instead of failing the import.
+export const parseContentFile = (text: string): ParsedContentFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ContentImportError('JSON 형식이 올바르지 않습니다.');
+  }
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new ContentImportError('설정 파일은 키-값 객체여야 합니다.');
+  }
+
+  const content: Record<string, string> = {};
+  const unknownKeys: string[] = [];
+  const invalidKeys: string[] = [];
+
+  const entries = Object.entries(data as Record<string, unknown>);
+  // The list orders in the file decide which added list items are known
+  const values = Object.fromEntries(entries.filter(([, value]) => typeof value === 'string')) as Record<string, string>;
+
+  entries.forEach(([key, value]) => {
+    if (!isKnownContentKey(key, values)) {
+      unknownKeys.push(key);
+    } else if (typeof value !== 'string') {
+      invalidKeys.push(key);
+    } else {
+      content[key] = value;
+    }
+  });
+
+  return { content, unknownKeys, invalidKeys };
+};
+
+// "dropped" lists keys that only a replace would remove; a merge keeps them.
+export const diffContent = (
+  current: Record<string, string>,
+  incoming: Record<string, string>
+): ContentDiff => {
+  const diff: ContentDiff = { added: [], changed: [], dropped: [], unchanged: [] };
+
+  Object.keys(incoming).forEach((key) => {
+    if (!(key in current)) diff.added.push(key);
+    else if (current[key] !== incoming[key]) diff.changed.push(key);
+    else diff.unchanged.push(key);
+  });
+  Object.keys(current).forEach((key) => {
+    if (!(key in incoming)) diff.dropped.push(key);
+  });
+
+  return diff;
+};
@@ -0,0 +1,21 @@
+// Structured editable data (chart series, lists, ...) lives in the same string map
+// as the rest of `content`, serialized as JSON, so history, import/export and
+// persistence handle it without special cases.
+
+export const readContentJson = <T>(
+  content: Record<string, string>,
+  key: string,
+  fallback: T,
+  validate: (value: unknown) => value is T
+): T => {
+  const raw = content[key];
+  if (!raw) return fallback;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return validate(parsed) ? parsed : fallback;
+  } catch (e) {
+    return fallback;
+  }
+};
+
+export const writeContentJson = (value: unknown) => JSON.stringify(value);
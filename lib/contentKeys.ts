@@ -0,0 +1,111 @@
+import { CONTENT_LISTS, ListKey, listContentKey, isListItemContentKey } from './contentLists';
+import { focalPointKey } from './imageCrop';
+import { parseLocalizedKey } from './i18n';
+import { SEO_KEYS } from './seo';
+import { UNIT_CATALOG_KEY, isFloorPlanImageKey } from './unitCatalog';
+import { BOOKING_SETTINGS_KEY } from './booking';
+import { THEME_KEY } from './theme';
+import { isLayoutKey, unscopedContentKey } from './sections';
+import { PAGE_REGISTRY_KEY } from './pages';
+
+// Every id rendered through EditableText / EditableImage (or edited directly via openEditor).
+// Keep this list in sync when adding new editable fields.
+
+const SECTION_HEADING_PREFIXES = ['main_sec1', 'analysis', 'invest', 'profile', 'contact'];
+
+export const IMAGE_KEYS = [
+  'hero_img',
+  'exterior_img',
+  'expert_thumb',
+  'overview_img',
+  'chart_bg',
+  'profile_img_main',
+  'consulting_bg',
+  'block_image_img',
+];
+
+// "x,y" focal point saved alongside each image
+export const FOCAL_POINT_KEYS = IMAGE_KEYS.map(focalPointKey);
+
+export const TEXT_KEYS = [
+  // Header & Footer
+  'brand_main', 'brand_sub',
+  'footer_desc', 'footer_addr', 'footer_tel', 'footer_email',
+
+  // Section headings
+  ...SECTION_HEADING_PREFIXES.flatMap((prefix) => [`${prefix}_subtitle`, `${prefix}_title`]),
+
+  // Main
+  'hero_tag', 'hero_title', 'hero_desc', 'hero_cta_1', 'hero_cta_2',
+  ...['benefit_1', 'benefit_2', 'benefit_3'].flatMap((id) => [`${id}_title`, `${id}_desc`]),
+  'highlight_title',
+  ...[0, 1, 2, 3].map((i) => `highlight_item_${i}`),
+  'expert_quote', 'expert_name', 'expert_role',
+  'cta_main_title', 'cta_main_desc',
+
+  // Analysis
+  'overview_label', 'overview_sec1_title', 'overview_sec2_title', 'overview_sec2_desc',
+  'map_title',
+  'plans_title', 'plans_desc',
+  ...['loc_1', 'loc_2', 'loc_3', 'loc_4'].flatMap((id) => [`${id}_title`, `${id}_desc`]),
+
+  // Investment
+  'chart_title', 'chart_desc',
+  'timeline_title',
+  // Legacy fixed timeline fields, still read once to seed timeline_events
+  ...['time_1', 'time_2', 'time_3', 'time_4'].flatMap((id) => [`${id}_year`, `${id}_title`, `${id}_desc`]),
+  'invest_point_title', 'invest_point_1', 'invest_point_2', 'invest_point_3',
+  'calc_title', 'calc_desc',
+
+  // Profile
+  'profile_name', 'profile_role_en',
+  'profile_intro_1', 'profile_intro_2', 'profile_intro_3',
+  'career_title', 'career_1', 'career_2', 'career_3', 'career_4',
+  'field_title', 'field_1', 'field_2', 'field_3', 'field_4',
+
+  // Contact
+  'contact_info_title', 'contact_info_desc', 'contact_tel', 'contact_time', 'contact_quote',
+
+  // Section blocks (custom pages)
+  'block_text_title', 'block_text_body', 'block_image_caption',
+];
+
+// Structured values stored as JSON strings (see contentJson.ts)
+export const JSON_KEYS = [
+  'chart_series',
+  'timeline_events',
+  'project_facts',
+  'map_pois',
+  UNIT_CATALOG_KEY,
+  BOOKING_SETTINGS_KEY,
+  THEME_KEY,
+  PAGE_REGISTRY_KEY,
+  ...(Object.keys(CONTENT_LISTS) as ListKey[]).map(listContentKey),
+];
+
+const KNOWN_KEYS = new Set<string>([...TEXT_KEYS, ...IMAGE_KEYS, ...FOCAL_POINT_KEYS, ...JSON_KEYS, ...SEO_KEYS]);
+
+const TEXT_KEY_SET = new Set<string>(TEXT_KEYS);
+
+const isTextContentKey = (key: string): boolean => {
+  const unscoped = unscopedContentKey(key);
+  if (unscoped) return isTextContentKey(unscoped);
+  return TEXT_KEY_SET.has(key);
+};
+
+// Translations ("<id>@en") are known whenever their Korean id is a text key.
+// Items added in edit mode are known while `content` lists their id in the
+// list order, so the order has to come with them.
+export const isKnownContentKey = (key: string, content: Record<string, string>): boolean => {
+  const localized = parseLocalizedKey(key);
+  if (localized) return isTextContentKey(localized.id) || isListItemContentKey(localized.id, content);
+  if (isListItemContentKey(key, content)) return true;
+  // Content of duplicated page sections is stored under "<sectionId>__<id>"
+  const unscoped = unscopedContentKey(key);
+  if (unscoped) return isKnownContentKey(unscoped, {});
+  // Floor plan images (and their focal points) are keyed by catalogue entry id
+  if (isFloorPlanImageKey(key.replace(/_focus$/, ''))) return true;
+  // Section layouts of the main page and of custom pages
+  if (isLayoutKey(key)) return true;
+  return KNOWN_KEYS.has(key);
+};
@@ -0,0 +1,55 @@
+import { createItemId } from './reorder';
+import { readContentJson } from './contentJson';
+
+// A list stores only the order of its item ids (as JSON under `list_<key>`);
+// each item's text stays in regular content keys. Lists without fields use the
+// item id itself as the text key, e.g. career_1.
+export interface ListDefinition {
+  prefix: string;
+  fields: string[];
+  defaultIds: string[];
+}
+
+export const CONTENT_LISTS = {
+  benefits: { prefix: 'benefit', fields: ['title', 'desc'], defaultIds: ['benefit_1', 'benefit_2', 'benefit_3'] },
+  highlights: { prefix: 'highlight_item', fields: [], defaultIds: ['highlight_item_0', 'highlight_item_1', 'highlight_item_2', 'highlight_item_3'] },
+  locations: { prefix: 'loc', fields: ['title', 'desc'], defaultIds: ['loc_1', 'loc_2', 'loc_3', 'loc_4'] },
+  investPoints: { prefix: 'invest_point', fields: [], defaultIds: ['invest_point_1', 'invest_point_2', 'invest_point_3'] },
+  careers: { prefix: 'career', fields: [], defaultIds: ['career_1', 'career_2', 'career_3', 'career_4'] },
+  specialties: { prefix: 'field', fields: [], defaultIds: ['field_1', 'field_2', 'field_3', 'field_4'] },
+} satisfies Record<string, ListDefinition>;
+
+export type ListKey = keyof typeof CONTENT_LISTS;
+
+export const listContentKey = (key: ListKey) => `list_${key}`;
+
+export const itemContentKeys = (definition: ListDefinition, itemId: string) =>
+  definition.fields.length > 0 ? definition.fields.map((field) => `${itemId}_${field}`) : [itemId];
+
+export const createListItemId = (definition: ListDefinition) => `${definition.prefix}_${createItemId()}`;
+
+export const isItemIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((id) => typeof id === 'string');
+
+// Order keys are "list_<key>", prefixed with "<sectionId>__" in a duplicated section.
+const LIST_ORDER_KEY = /^((?:sec[a-z0-9]+__)?)list_(\w+)$/;
+
+const isListKey = (key: string): key is ListKey => key in CONTENT_LISTS;
+
+// Text keys of every item in the stored list orders of `content`, scope included.
+export const listItemContentKeys = (content: Record<string, string>) => {
+  const keys = new Set<string>();
+  Object.keys(content).forEach((orderKey) => {
+    const match = orderKey.match(LIST_ORDER_KEY);
+    if (!match || !isListKey(match[2])) return;
+    const definition: ListDefinition = CONTENT_LISTS[match[2]];
+    readContentJson(content, orderKey, [], isItemIdList)
+      .filter((itemId) => itemId.startsWith(`${definition.prefix}_`))
+      .forEach((itemId) => itemContentKeys(definition, itemId).forEach((key) => keys.add(match[1] + key)));
+  });
+  return keys;
+};
+
+// Matches the text keys of items added in edit mode: the item id has to be in
+// its list's stored order, so stray keys are not taken for list items.
+export const isListItemContentKey = (key: string, content: Record<string, string>) => listItemContentKeys(content).has(key);
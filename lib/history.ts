@@ -0,0 +1,38 @@
+export interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const createHistory = <T>(present: T): HistoryState<T> => ({ past: [], present, future: [] });
+
+// Records a new present value. Any redo branch is discarded and the oldest
+// entries fall off once the stack exceeds the limit.
+export const commitHistory = <T>(history: HistoryState<T>, next: T, limit = HISTORY_LIMIT): HistoryState<T> => {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-limit),
+    present: next,
+    future: [],
+  };
+};
+
+export const undoHistory = <T>(history: HistoryState<T>): HistoryState<T> => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoHistory = <T>(history: HistoryState<T>): HistoryState<T> => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+};
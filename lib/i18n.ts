@@ -0,0 +1,225 @@
+export type Locale = 'ko' | 'en' | 'zh';
+
+export const DEFAULT_LOCALE: Locale = 'ko';
+
+export const LOCALES: { id: Locale; label: string; short: string; htmlLang: string }[] = [
+  { id: 'ko', label: '한국어', short: 'KO', htmlLang: 'ko' },
+  { id: 'en', label: 'English', short: 'EN', htmlLang: 'en' },
+  { id: 'zh', label: '中文', short: '中文', htmlLang: 'zh-Hans' },
+];
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.some((locale) => locale.id === value);
+
+export const LOCALE_STORAGE_KEY = 'site_locale';
+
+// Saved choice first, then the browser language; Korean otherwise.
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch (e) {
+    // Storage disabled
+  }
+  const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : '';
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+// --- Localized content keys ---
+
+// Korean stays under the plain id; translations live next to it as "<id>@<locale>".
+export const localizedKey = (id: string, locale: Locale) => (locale === DEFAULT_LOCALE ? id : `${id}@${locale}`);
+
+export const parseLocalizedKey = (key: string): { id: string; locale: Locale } | null => {
+  const at = key.lastIndexOf('@');
+  if (at <= 0) return null;
+  const locale = key.slice(at + 1);
+  return isLocale(locale) && locale !== DEFAULT_LOCALE ? { id: key.slice(0, at), locale } : null;
+};
+
+// The translation for `locale`, or undefined when the Korean text is shown instead.
+export const readTranslation = (content: Record<string, string>, id: string, locale: Locale) =>
+  locale === DEFAULT_LOCALE ? content[id] : content[localizedKey(id, locale)] || undefined;
+
+// --- UI chrome ---
+
+// Fixed interface text that is not editable content. {name} placeholders are
+// filled by translate().
+export const UI_STRINGS = {
+  // Header
+  'nav.main': { ko: '홈', en: 'Home', zh: '首页' },
+  'nav.analysis': { ko: '상세분석', en: 'Analysis', zh: '项目分析' },
+  'nav.investment': { ko: '가치분석', en: 'Investment', zh: '投资价值' },
+  'nav.profile': { ko: '전문가소개', en: 'Consultant', zh: '顾问介绍' },
+  'nav.contact': { ko: '상담문의', en: 'Contact', zh: '咨询预约' },
+  'nav.language': { ko: '언어', en: 'Language', zh: '语言' },
+
+  // Contact page
+  'contact.tel': { ko: '대표 전화', en: 'Phone', zh: '咨询电话' },
+  'contact.hours': { ko: '상담 가능 시간', en: 'Consultation hours', zh: '咨询时间' },
+  'contact.name': { ko: '성함', en: 'Name', zh: '姓名' },
+  'contact.namePlaceholder': { ko: '홍길동', en: 'Jane Doe', zh: '张三' },
+  'contact.phone': { ko: '연락처', en: 'Phone number', zh: '联系电话' },
+  'contact.unitType': { ko: '관심 평형', en: 'Unit type of interest', zh: '意向户型' },
+  'contact.time': { ko: '희망 상담 시간', en: 'Preferred time', zh: '预约时间' },
+  'contact.memo': { ko: '첨부된 시뮬레이션', en: 'Attached simulation', zh: '附带的收益模拟' },
+  'contact.memoRemove': { ko: '첨부 삭제', en: 'Remove attachment', zh: '删除附件' },
+  'contact.consentRequired': { ko: '[필수]', en: '[Required]', zh: '[必选]' },
+  'contact.consent': {
+    ko: '개인정보 수집·이용에 동의합니다.',
+    en: 'I agree to the collection and use of my personal information.',
+    zh: '我同意收集和使用个人信息。',
+  },
+  'contact.consentMore': { ko: '자세히', en: 'Details', zh: '详情' },
+  'contact.consentClose': { ko: '닫기', en: 'Close', zh: '收起' },
+  'contact.consentItems': {
+    ko: '· 수집 항목: 성함, 연락처, 관심 평형, 희망 상담 시간\n· 수집 목적: 분양 상담 예약 확인 및 안내 연락\n· 보유 기간: 상담 종료 후 1년 (요청 시 즉시 파기)\n· 동의를 거부할 수 있으나, 거부 시 상담 예약이 제한됩니다.',
+    en: '· Collected: name, phone number, unit type, preferred time\n· Purpose: confirming your consultation and contacting you about it\n· Retention: one year after the consultation (deleted on request)\n· You may decline, but a booking cannot be made without consent.',
+    zh: '· 收集项目：姓名、联系电话、意向户型、预约时间\n· 收集目的：确认咨询预约并与您联系\n· 保存期限：咨询结束后1年（可应要求立即删除）\n· 您可以拒绝同意，但拒绝后将无法预约咨询。',
+  },
+  'contact.submit': { ko: '상담 예약 신청하기', en: 'Request a consultation', zh: '提交咨询预约' },
+  'contact.submitting': { ko: '접수 중...', en: 'Sending...', zh: '提交中...' },
+  'contact.submitError': {
+    ko: '예약 접수 중 문제가 발생했습니다. 대표 전화로 문의해주세요.',
+    en: 'Your request could not be sent. Please call us instead.',
+    zh: '预约提交失败，请拨打咨询电话。',
+  },
+  'contact.privacy': {
+    ko: '개인정보는 상담 목적으로만 활용되며 안전하게 관리됩니다.',
+    en: 'Your information is used only for this consultation and kept secure.',
+    zh: '您的个人信息仅用于咨询目的，并将被妥善保管。',
+  },
+  'contact.successTitle': { ko: '예약이 접수되었습니다', en: 'Request received', zh: '预约已提交' },
+  'contact.successDesc': {
+    ko: '전문 상담사가 확인 후\n빠른 시간 내에 연락드리겠습니다.',
+    en: 'A consultant will review it\nand contact you shortly.',
+    zh: '专业顾问确认后\n将尽快与您联系。',
+  },
+  'contact.another': { ko: '다른 예약 작성하기', en: 'Make another request', zh: '再次预约' },
+
+  // Contact form validation (codes from lib/contactValidation.ts)
+  'validation.nameRequired': { ko: '성함을 입력해주세요.', en: 'Please enter your name.', zh: '请输入姓名。' },
+  'validation.nameTooShort': { ko: '성함을 2자 이상 입력해주세요.', en: 'Please enter at least 2 characters.', zh: '姓名至少需要2个字符。' },
+  'validation.phoneRequired': { ko: '연락처를 입력해주세요.', en: 'Please enter your phone number.', zh: '请输入联系电话。' },
+  'validation.phoneInvalid': {
+    ko: '올바른 전화번호 형식이 아닙니다. (예: 010-1234-5678)',
+    en: 'This is not a valid Korean phone number. (e.g. 010-1234-5678)',
+    zh: '电话号码格式不正确。（例：010-1234-5678）',
+  },
+  'validation.timeRequired': { ko: '희망 상담 시간을 선택해주세요.', en: 'Please choose a preferred time.', zh: '请选择预约时间。' },
+  'validation.timeInvalid': { ko: '상담 시간을 다시 선택해주세요.', en: 'Please choose the time again.', zh: '请重新选择预约时间。' },
+  'validation.timePast': { ko: '지난 시간은 선택할 수 없습니다.', en: 'Past times cannot be chosen.', zh: '不能选择已过去的时间。' },
+  'validation.timeOutsideHours': {
+    ko: '상담 가능 시간({hours}) 내에서 선택해주세요.',
+    en: 'Please choose a time within consultation hours ({hours}, Korea time).',
+    zh: '请在咨询时间（{hours}，韩国时间）内选择。',
+  },
+  'validation.consentRequired': {
+    ko: '개인정보 수집·이용에 동의해주세요.',
+    en: 'Please agree to the collection and use of your personal information.',
+    zh: '请同意收集和使用个人信息。',
+  },
+
+  // Booking calendar
+  'booking.prevWeek': { ko: '이전 주', en: 'Previous week', zh: '上一周' },
+  'booking.nextWeek': { ko: '다음 주', en: 'Next week', zh: '下一周' },
+  'booking.closed': { ko: '휴무', en: 'Closed', zh: '休息' },
+  'booking.full': { ko: '마감', en: 'Full', zh: '已满' },
+  'booking.slotsLeft': { ko: '{count}타임', en: '{count} open', zh: '{count}个时段' },
+  'booking.pickDay': { ko: '날짜를 선택하면 예약 가능한 시간이 표시됩니다.', en: 'Pick a day to see the available times.', zh: '请选择日期查看可预约时间。' },
+  'booking.localTime': {
+    ko: '날짜는 한국 기준이며, 시간은 방문자의 현지 시간으로 표시됩니다.',
+    en: 'Dates follow the Korean calendar; times are shown in your local time.',
+    zh: '日期以韩国时间为准，时间按您的当地时间显示。',
+  },
+  'booking.noSlots': { ko: '이 날은 예약 가능한 시간이 없습니다.', en: 'No times are available on this day.', zh: '当天没有可预约的时间。' },
+  'booking.unavailable': { ko: '예약 가능한 시간을 다시 선택해주세요.', en: 'Please choose one of the available times.', zh: '请重新选择可预约的时间。' },
+  'booking.taken': {
+    ko: '방금 다른 분이 예약한 시간입니다. 다른 시간을 선택해주세요.',
+    en: 'Someone just booked this time. Please choose another.',
+    zh: '该时间刚刚已被预约，请选择其他时间。',
+  },
+  'booking.confirmedAt': { ko: '예약 시간: {time}', en: 'Booked for {time}', zh: '预约时间：{time}' },
+  'booking.addToCalendar': { ko: '캘린더에 추가 (.ics)', en: 'Add to calendar (.ics)', zh: '添加到日历 (.ics)' },
+  'booking.icsSummary': { ko: '{site} 상담 예약', en: '{site} consultation', zh: '{site} 咨询预约' },
+  // Weekday names by Date#getDay(), used by the booking settings
+  'booking.day0': { ko: '일', en: 'Sun', zh: '日' },
+  'booking.day1': { ko: '월', en: 'Mon', zh: '一' },
+  'booking.day2': { ko: '화', en: 'Tue', zh: '二' },
+  'booking.day3': { ko: '수', en: 'Wed', zh: '三' },
+  'booking.day4': { ko: '목', en: 'Thu', zh: '四' },
+  'booking.day5': { ko: '금', en: 'Fri', zh: '五' },
+  'booking.day6': { ko: '토', en: 'Sat', zh: '六' },
+
+  // Edit modal
+  'edit.titleText': { ko: '텍스트 수정', en: 'Edit text', zh: '编辑文本' },
+  'edit.titleImage': { ko: '이미지 변경', en: 'Change image', zh: '更换图片' },
+  'edit.promptText': { ko: '내용을 입력하세요', en: 'Enter the text', zh: '请输入内容' },
+  'edit.promptTranslation': { ko: '{locale} 번역을 입력하세요', en: 'Enter the {locale} translation', zh: '请输入{locale}译文' },
+  'edit.source': { ko: '원문 (한국어)', en: 'Source (Korean)', zh: '原文（韩语）' },
+  'edit.promptImage': { ko: '이미지 주소 입력 또는 파일 업로드', en: 'Enter an image URL or upload a file', zh: '输入图片地址或上传文件' },
+  'edit.bold': { ko: '굵게 (Ctrl+B)', en: 'Bold (Ctrl+B)', zh: '加粗 (Ctrl+B)' },
+  'edit.italic': { ko: '기울임 (Ctrl+I)', en: 'Italic (Ctrl+I)', zh: '斜体 (Ctrl+I)' },
+  'edit.accent': { ko: '골드 강조', en: 'Gold accent', zh: '金色强调' },
+  'edit.link': { ko: '링크', en: 'Link', zh: '链接' },
+  'edit.linkPrompt': {
+    ko: '링크 주소를 입력하세요 (https://..., tel:..., mailto:... 또는 /contact 같은 페이지 경로)',
+    en: 'Enter the link address (https://..., tel:..., mailto:... or a page path such as /contact)',
+    zh: '请输入链接地址（https://...、tel:...、mailto:... 或 /contact 等页面路径）',
+  },
+  'edit.linkInvalid': {
+    ko: 'https://, tel:, mailto: 또는 /로 시작하는 주소만 사용할 수 있습니다.',
+    en: 'Only addresses starting with https://, tel:, mailto: or / are allowed.',
+    zh: '只能使用以 https://、tel:、mailto: 或 / 开头的地址。',
+  },
+  'edit.newlineHint': { ko: 'Enter: 줄바꿈', en: 'Enter: line break', zh: 'Enter：换行' },
+  'edit.preview': { ko: '미리보기', en: 'Preview', zh: '预览' },
+  'edit.previewFocus': { ko: '미리보기 · 클릭하여 초점 지정', en: 'Preview · click to set the focal point', zh: '预览 · 点击设置焦点' },
+  'edit.upload': { ko: '내 PC', en: 'Upload', zh: '本地上传' },
+  'edit.processing': { ko: '처리중...', en: 'Processing...', zh: '处理中...' },
+  'edit.uploadNote': {
+    ko: '* 내 PC 이미지는 자동으로 최적화(압축)되어 브라우저 이미지 저장소에 보관됩니다.',
+    en: '* Uploaded images are optimised (compressed) and kept in the browser image store.',
+    zh: '* 上传的图片会自动优化（压缩）并保存在浏览器图片存储中。',
+  },
+  'edit.uploadedImage': { ko: '업로드한 이미지 사용 중', en: 'Using an uploaded image', zh: '正在使用已上传的图片' },
+  'edit.uploadFailed': {
+    ko: '이미지를 저장하지 못했습니다. 다른 이미지를 사용하거나 이미지 주소를 입력해주세요.',
+    en: 'The image could not be saved. Try another image or enter an image URL.',
+    zh: '图片保存失败，请使用其他图片或输入图片地址。',
+  },
+  'edit.quotaExceeded': {
+    ko: '저장 공간이 부족합니다. (필요: {needed}, 남은 공간: {free})',
+    en: 'Not enough storage. (Needed: {needed}, available: {free})',
+    zh: '存储空间不足。（需要：{needed}，剩余：{free}）',
+  },
+  'edit.recrop': { ko: '다시 자르기', en: 'Crop again', zh: '重新裁剪' },
+  'edit.revert': { ko: '기본값으로 되돌리기', en: 'Restore default', zh: '恢复默认' },
+  'edit.revertTitle': {
+    ko: '이 항목의 수정 내용을 지우고 기본값으로 되돌립니다',
+    en: 'Discard the changes to this item and restore the default',
+    zh: '清除此项的修改并恢复默认值',
+  },
+  'edit.cancel': { ko: '취소', en: 'Cancel', zh: '取消' },
+  'edit.save': { ko: '저장하기', en: 'Save', zh: '保存' },
+  'edit.storageText': { ko: '텍스트 저장 공간', en: 'Text storage', zh: '文本存储' },
+  'edit.storageImages': { ko: '이미지 저장 공간', en: 'Image storage', zh: '图片存储' },
+  'edit.cropSource': { ko: '자르기 원본', en: 'Crop source', zh: '裁剪原图' },
+  'edit.cropHint': {
+    ko: '이미지를 클릭하거나 드래그하여 초점(인물 얼굴 등)을 지정하세요.',
+    en: 'Click or drag on the image to set the focal point (e.g. a face).',
+    zh: '点击或拖动图片以设置焦点（如人物面部）。',
+  },
+  'edit.aspect': { ko: '비율', en: 'Ratio', zh: '比例' },
+  'edit.aspectOriginal': { ko: '원본', en: 'Original', zh: '原始' },
+  'edit.recommended': { ko: '(권장)', en: '(recommended)', zh: '（推荐）' },
+  'edit.zoom': { ko: '확대', en: 'Zoom', zh: '缩放' },
+  'edit.format': { ko: '형식', en: 'Format', zh: '格式' },
+  'edit.quality': { ko: '품질', en: 'Quality', zh: '质量' },
+  'edit.cropApply': { ko: '자르기 적용', en: 'Apply crop', zh: '应用裁剪' },
+  'edit.encodeFailed': { ko: '이미지를 변환하지 못했습니다.', en: 'The image could not be converted.', zh: '图片转换失败。' },
+} satisfies Record<string, Record<Locale, string>>;
+
+export type UiStringKey = keyof typeof UI_STRINGS;
+
+export const translate = (locale: Locale, key: UiStringKey, params: Record<string, string | number> = {}) =>
+  UI_STRINGS[key][locale].replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
@@ -0,0 +1,143 @@
+// Focal points and crop rectangles are expressed in percent of the image (0-100)
+// so they survive resizing; pixel maths only happens when encoding.
+
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_FOCAL_POINT: FocalPoint = { x: 50, y: 50 };
+
+export interface AspectPreset {
+  id: string;
+  label: string;
+  ratio: number | null; // width / height; null keeps the source ratio
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { id: 'original', label: '원본', ratio: null },
+  { id: '16:9', label: '16:9', ratio: 16 / 9 },
+  { id: '4:3', label: '4:3', ratio: 4 / 3 },
+  { id: '3:4', label: '3:4', ratio: 3 / 4 },
+  { id: '1:1', label: '1:1', ratio: 1 },
+];
+
+export interface ImageSlot {
+  aspect: AspectPreset['id'];
+  maxWidth: number;
+}
+
+// Recommended crop per editable image, matching how each slot is rendered.
+export const IMAGE_SLOTS: Record<string, ImageSlot> = {
+  hero_img: { aspect: '16:9', maxWidth: 1920 },
+  exterior_img: { aspect: '4:3', maxWidth: 1200 },
+  expert_thumb: { aspect: '1:1', maxWidth: 400 },
+  overview_img: { aspect: '16:9', maxWidth: 1200 },
+  chart_bg: { aspect: '16:9', maxWidth: 1600 },
+  profile_img_main: { aspect: '3:4', maxWidth: 900 },
+  consulting_bg: { aspect: '16:9', maxWidth: 1600 },
+};
+
+const DEFAULT_SLOT: ImageSlot = { aspect: 'original', maxWidth: 1200 };
+
+export const imageSlot = (id: string) => IMAGE_SLOTS[id] ?? DEFAULT_SLOT;
+
+export const aspectRatio = (aspectId: string) => ASPECT_PRESETS.find((preset) => preset.id === aspectId)?.ratio ?? null;
+
+// --- Focal point storage ---
+
+// Stored next to the image as "<id>_focus" = "x,y".
+export const focalPointKey = (imageId: string) => `${imageId}_focus`;
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+export const parseFocalPoint = (value: string | undefined): FocalPoint | null => {
+  const match = value?.match(/^(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return { x: clampPercent(Number(match[1])), y: clampPercent(Number(match[2])) };
+};
+
+export const formatFocalPoint = (point: FocalPoint) => `${Math.round(point.x)},${Math.round(point.y)}`;
+
+// CSS object-position / background-position for a focal point.
+export const focalPosition = (point: FocalPoint | null) => {
+  const { x, y } = point ?? DEFAULT_FOCAL_POINT;
+  return `${x}% ${y}%`;
+};
+
+// --- Crop ---
+
+// Largest rectangle of `ratio` that fits the image, shrunk by `zoom` and
+// centred on the focal point as far as the image edges allow.
+export const cropAroundFocus = (
+  imageWidth: number,
+  imageHeight: number,
+  ratio: number | null,
+  focus: FocalPoint,
+  zoom = 1
+): CropRect => {
+  const target = ratio ?? imageWidth / imageHeight;
+  let widthPx = imageWidth;
+  let heightPx = imageWidth / target;
+  if (heightPx > imageHeight) {
+    heightPx = imageHeight;
+    widthPx = imageHeight * target;
+  }
+  widthPx /= Math.max(1, zoom);
+  heightPx /= Math.max(1, zoom);
+
+  const width = (widthPx / imageWidth) * 100;
+  const height = (heightPx / imageHeight) * 100;
+  return {
+    x: Math.min(100 - width, Math.max(0, focus.x - width / 2)),
+    y: Math.min(100 - height, Math.max(0, focus.y - height / 2)),
+    width,
+    height,
+  };
+};
+
+// Re-expresses a focal point picked on the source image relative to the crop.
+export const focusWithinCrop = (focus: FocalPoint, crop: CropRect): FocalPoint => ({
+  x: clampPercent(((focus.x - crop.x) / crop.width) * 100),
+  y: clampPercent(((focus.y - crop.y) / crop.height) * 100),
+});
+
+// Pixel size of the encoded output: the crop at source resolution, capped at maxWidth.
+export const cropOutputSize = (imageWidth: number, imageHeight: number, crop: CropRect, maxWidth: number) => {
+  const width = (crop.width / 100) * imageWidth;
+  const height = (crop.height / 100) * imageHeight;
+  const scale = Math.min(1, maxWidth / width);
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+// --- Output ---
+
+export type OutputFormat = 'image/webp' | 'image/jpeg';
+
+export const OUTPUT_FORMATS: { id: OutputFormat; label: string }[] = [
+  { id: 'image/webp', label: 'WebP' },
+  { id: 'image/jpeg', label: 'JPEG' },
+];
+
+let webpSupport: boolean | null = null;
+
+// Some browsers (older Safari) silently fall back to PNG when asked for WebP.
+export const supportsWebpEncoding = () => {
+  if (webpSupport === null) {
+    try {
+      const canvas = document.createElement('canvas');
+      canvas.width = canvas.height = 1;
+      webpSupport = canvas.toDataURL('image/webp').startsWith('data:image/webp');
+    } catch (e) {
+      webpSupport = false;
+    }
+  }
+  return webpSupport;
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { InvestmentInput, calculateInvestment, estimateAcquisitionTaxRate, monthlyPayment } from './investmentCalculator';
+
+const input = (patch: Partial<InvestmentInput> = {}): InvestmentInput => ({
+  unitType: '84A',
+  price: 50000,
+  downPayment: 40000,
+  loanRate: 4.2,
+  termYears: 30,
+  acquisitionTaxRate: 1.1,
+  appreciationRate: 0,
+  ...patch,
+});
+
+describe('monthlyPayment', () => {
+  it('levels principal and interest over the term', () => {
+    // 1억 at 4.2% over 30 years: 489,017원 a month
+    expect(monthlyPayment(10000, 4.2, 30)).toBeCloseTo(48.9017, 4);
+  });
+
+  it('splits the principal evenly at a zero rate', () => {
+    expect(monthlyPayment(12000, 0, 10)).toBe(100);
+  });
+
+  it('is zero without a term or a principal', () => {
+    expect(monthlyPayment(10000, 4.2, 0)).toBe(0);
+    expect(monthlyPayment(0, 4.2, 30)).toBe(0);
+  });
+});
+
+describe('calculateInvestment', () => {
+  it('totals the interest over the whole term', () => {
+    const result = calculateInvestment(input());
+    expect(result.loanAmount).toBe(10000);
+    expect(result.monthlyPayment).toBeCloseTo(48.9017, 4);
+    expect(result.totalInterest).toBeCloseTo(48.9017 * 360 - 10000, 1);
+  });
+
+  it('charges no interest at a zero rate', () => {
+    const result = calculateInvestment(input({ loanRate: 0, termYears: 10 }));
+    expect(result.monthlyPayment).toBeCloseTo(10000 / 120, 6);
+    expect(result.totalInterest).toBe(0);
+    expect(result.projections[4].loanBalance).toBeCloseTo(5000, 6);
+  });
+
+  it('has no payments with a zero term', () => {
+    const result = calculateInvestment(input({ termYears: 0 }));
+    expect(result.monthlyPayment).toBe(0);
+    expect(result.totalInterest).toBe(0);
+    expect(result.projections[0].interestPaid).toBe(0);
+    expect(result.projections[0].loanBalance).toBe(10000);
+  });
+
+  it('adds the acquisition tax to the initial cash', () => {
+    const result = calculateInvestment(input());
+    expect(result.acquisitionTax).toBeCloseTo(550, 6);
+    expect(result.initialCash).toBeCloseTo(40550, 6);
+  });
+});
+
+describe('estimateAcquisitionTaxRate', () => {
+  it('is 1.1% up to 6억', () => {
+    expect(estimateAcquisitionTaxRate(30000)).toBe(1.1);
+    expect(estimateAcquisitionTaxRate(60000)).toBe(1.1);
+  });
+
+  it('slides between 6억 and 9억', () => {
+    expect(estimateAcquisitionTaxRate(60001)).toBe(1.1);
+    expect(estimateAcquisitionTaxRate(75000)).toBe(2.2);
+    expect(estimateAcquisitionTaxRate(90000)).toBe(3.3);
+  });
+
+  it('is 3.3% above 9억', () => {
+    expect(estimateAcquisitionTaxRate(90001)).toBe(3.3);
+    expect(estimateAcquisitionTaxRate(150000)).toBe(3.3);
+  });
+});
@@ -0,0 +1,122 @@
+// All amounts are in 만원 (10,000 KRW) and all rates in percent.
+
+export interface InvestmentInput {
+  unitType: string;
+  price: number;
+  downPayment: number;
+  loanRate: number; // annual
+  termYears: number;
+  acquisitionTaxRate: number;
+  appreciationRate: number; // annual
+}
+
+export interface YearProjection {
+  year: number;
+  propertyValue: number;
+  loanBalance: number;
+  equity: number;
+  cashInvested: number;
+  interestPaid: number;
+  roi: number;
+}
+
+export interface InvestmentResult {
+  loanAmount: number;
+  monthlyPayment: number;
+  totalInterest: number;
+  acquisitionTax: number;
+  initialCash: number;
+  projections: YearProjection[];
+}
+
+// Housing acquisition tax incl. local education tax for a single-home buyer:
+// 1.1% up to 6억, sliding (price×2/3−3)% + edu tax between 6억 and 9억, 3.3% above.
+export const estimateAcquisitionTaxRate = (price: number) => {
+  const eok = price / 10000;
+  if (eok <= 6) return 1.1;
+  if (eok > 9) return 3.3;
+  const base = (eok * 2) / 3 - 3;
+  return Math.round(base * 1.1 * 100) / 100;
+};
+
+// Level monthly payment (원리금균등상환).
+export const monthlyPayment = (principal: number, annualRate: number, termYears: number) => {
+  const n = Math.round(termYears * 12);
+  if (principal <= 0 || n <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return principal / n;
+  return (principal * r) / (1 - Math.pow(1 + r, -n));
+};
+
+export const remainingBalance = (principal: number, annualRate: number, termYears: number, monthsPaid: number) => {
+  const n = Math.round(termYears * 12);
+  if (principal <= 0) return 0;
+  // Without a term nothing is ever repaid.
+  if (n <= 0) return principal;
+  if (monthsPaid >= n) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return principal * (1 - monthsPaid / n);
+  const payment = monthlyPayment(principal, annualRate, termYears);
+  const growth = Math.pow(1 + r, monthsPaid);
+  return Math.max(0, principal * growth - payment * ((growth - 1) / r));
+};
+
+// Projects value, debt and return year by year. ROI compares equity against
+// everything paid out of pocket so far (down payment, tax and loan payments).
+export const calculateInvestment = (input: InvestmentInput, horizonYears = 10): InvestmentResult => {
+  const price = Math.max(0, input.price);
+  const downPayment = Math.min(price, Math.max(0, input.downPayment));
+  const loanAmount = price - downPayment;
+  const payment = monthlyPayment(loanAmount, input.loanRate, input.termYears);
+  const termMonths = Math.round(input.termYears * 12);
+  const acquisitionTax = (price * input.acquisitionTaxRate) / 100;
+  const initialCash = downPayment + acquisitionTax;
+
+  const projections: YearProjection[] = [];
+  for (let year = 1; year <= horizonYears; year++) {
+    const months = Math.min(year * 12, termMonths);
+    const loanBalance = remainingBalance(loanAmount, input.loanRate, input.termYears, months);
+    const paid = payment * months;
+    const interestPaid = paid - (loanAmount - loanBalance);
+    const propertyValue = price * Math.pow(1 + input.appreciationRate / 100, year);
+    const equity = propertyValue - loanBalance;
+    const cashInvested = initialCash + paid;
+    projections.push({
+      year,
+      propertyValue,
+      loanBalance,
+      equity,
+      cashInvested,
+      interestPaid,
+      roi: cashInvested > 0 ? ((equity - cashInvested) / cashInvested) * 100 : 0,
+    });
+  }
+
+  return {
+    loanAmount,
+    monthlyPayment: payment,
+    totalInterest: Math.max(0, payment * termMonths - loanAmount),
+    acquisitionTax,
+    initialCash,
+    projections,
+  };
+};
+
+export const formatManwon = (amount: number) => {
+  const rounded = Math.round(amount);
+  const eok = Math.trunc(rounded / 10000);
+  const rest = Math.abs(rounded % 10000);
+  if (eok === 0) return `${rounded.toLocaleString('ko-KR')}만원`;
+  return rest === 0 ? `${eok}억원` : `${eok}억 ${rest.toLocaleString('ko-KR')}만원`;
+};
+
+export const summarizeScenario = (input: InvestmentInput, result: InvestmentResult) => {
+  const last = result.projections[result.projections.length - 1];
+  return [
+    `[수익률 시뮬레이션] ${input.unitType}타입`,
+    `분양가 ${formatManwon(input.price)} / 자기자본 ${formatManwon(input.downPayment)} / 대출 ${formatManwon(result.loanAmount)}`,
+    `금리 ${input.loanRate}% · ${input.termYears}년 · 취득세율 ${input.acquisitionTaxRate}% · 연 상승률 ${input.appreciationRate}%`,
+    `월 상환액 약 ${formatManwon(result.monthlyPayment)}, 총 이자 ${formatManwon(result.totalInterest)}`,
+    last ? `${last.year}년 후 예상 순자산 ${formatManwon(last.equity)} (ROI ${last.roi.toFixed(1)}%)` : '',
+  ].filter(Boolean).join('\n');
+};
@@ -0,0 +1,124 @@
+import { openDatabase, requestToPromise } from './idb';
+
+export type LeadStatus = 'new' | 'called' | 'visited' | 'closed';
+
+export const LEAD_STATUSES: { id: LeadStatus; label: string }[] = [
+  { id: 'new', label: '신규' },
+  { id: 'called', label: '통화 완료' },
+  { id: 'visited', label: '방문 완료' },
+  { id: 'closed', label: '종료' },
+];
+
+export interface LeadInput {
+  name: string;
+  phone: string;
+  type: string;
+  time: string;
+  memo?: string;
+}
+
+export interface Lead extends LeadInput {
+  id: string;
+  status: LeadStatus;
+  createdAt: string;
+}
+
+// Storage backend for consultation requests. The browser uses IndexedDB by
+// default; a server-backed adapter can be swapped in with setLeadsAdapter.
+export interface LeadsAdapter {
+  list: () => Promise<Lead[]>;
+  add: (input: LeadInput) => Promise<Lead>;
+  updateStatus: (id: string, status: LeadStatus) => Promise<void>;
+}
+
+const createLeadId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createLead = (input: LeadInput): Lead => ({
+  ...input,
+  id: createLeadId(),
+  status: 'new',
+  createdAt: new Date().toISOString(),
+});
+
+const DB_NAME = 'centum_leads';
+const STORE = 'leads';
+
+export const createIndexedDBLeadsAdapter = (): LeadsAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await getDb();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  return {
+    list: async () => {
+      const leads = await withStore<Lead[]>('readonly', (store) => store.getAll());
+      return leads.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    add: async (input) => {
+      const lead = createLead(input);
+      await withStore('readwrite', (store) => store.add(lead));
+      return lead;
+    },
+    updateStatus: async (id, status) => {
+      const lead = await withStore<Lead | undefined>('readonly', (store) => store.get(id));
+      if (!lead) throw new Error(`Lead ${id} not found`);
+      await withStore('readwrite', (store) => store.put({ ...lead, status }));
+    },
+  };
+};
+
+let activeAdapter: LeadsAdapter = createIndexedDBLeadsAdapter();
+
+export const getLeadsAdapter = () => activeAdapter;
+
+export const setLeadsAdapter = (adapter: LeadsAdapter) => {
+  activeAdapter = adapter;
+};
+
+export const filterLeads = (leads: Lead[], query: string, status: LeadStatus | 'all' = 'all') => {
+  const q = query.trim().toLowerCase();
+  const digits = q.replace(/\D/g, '');
+  return leads.filter((lead) => {
+    if (status !== 'all' && lead.status !== status) return false;
+    if (!q) return true;
+    return (
+      lead.name.toLowerCase().includes(q) ||
+      lead.type.toLowerCase().includes(q) ||
+      (digits.length > 0 && lead.phone.replace(/\D/g, '').includes(digits))
+    );
+  });
+};
+
+// Values from the public form starting with = + - @ (or a tab or carriage
+// return) would run as formulas in Excel, so they get a leading apostrophe.
+const escapeCsv = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const leadsToCsv = (leads: Lead[]) => {
+  const statusLabel = (status: LeadStatus) => LEAD_STATUSES.find((s) => s.id === status)?.label ?? status;
+  const rows = [
+    ['접수일시', '성함', '연락처', '관심 평형', '희망 상담 시간', '상태', '메모'],
+    ...leads.map((lead) => [
+      lead.createdAt, lead.name, lead.phone, lead.type, lead.time, statusLabel(lead.status), lead.memo ?? '',
+    ]),
+  ];
+  // BOM so Excel opens the Korean text as UTF-8
+  return '\uFEFF' + rows.map((row) => row.map(escapeCsv).join(',')).join('\r\n');
+};
@@ -0,0 +1,121 @@
+import { createItemId } from './reorder';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export interface PointOfInterest extends GeoPoint {
+  id: string;
+  name: string;
+  category: string; // id of the matching item in the `locations` list (loc_1 ...)
+}
+
+export interface LocationMapData {
+  center: GeoPoint & { name: string };
+  pois: PointOfInterest[];
+}
+
+export const LOCATION_MAP_KEY = 'map_pois';
+
+// Approximate coordinates; editors can correct them in edit mode.
+export const DEFAULT_LOCATION_MAP: LocationMapData = {
+  center: { name: '센텀스퀘어', lat: 35.8762, lng: 128.6238 },
+  pois: [
+    { id: 'poi_station', name: '동대구역', lat: 35.8797, lng: 128.6286, category: 'loc_1' },
+    { id: 'poi_shinsegae', name: '신세계백화점', lat: 35.8781, lng: 128.6283, category: 'loc_3' },
+    { id: 'poi_school', name: '신암초등학교', lat: 35.8817, lng: 128.6218, category: 'loc_2' },
+    { id: 'poi_fatima', name: '파티마병원', lat: 35.8849, lng: 128.6244, category: 'loc_3' },
+    { id: 'poi_sinam_park', name: '신암공원', lat: 35.8851, lng: 128.6313, category: 'loc_4' },
+    { id: 'poi_weather_park', name: '기상대기념공원', lat: 35.8832, lng: 128.6183, category: 'loc_4' },
+  ],
+};
+
+const isGeoPoint = (value: unknown): value is GeoPoint => {
+  if (!value || typeof value !== 'object') return false;
+  const point = value as GeoPoint;
+  return Number.isFinite(point.lat) && Number.isFinite(point.lng);
+};
+
+export const isLocationMapData = (value: unknown): value is LocationMapData => {
+  const data = value as LocationMapData;
+  return (
+    !!data &&
+    isGeoPoint(data.center) &&
+    typeof data.center.name === 'string' &&
+    Array.isArray(data.pois) &&
+    data.pois.every(
+      (poi) => isGeoPoint(poi) && typeof poi.id === 'string' && typeof poi.name === 'string' && typeof poi.category === 'string'
+    )
+  );
+};
+
+export const createPoi = (point: GeoPoint, category: string): PointOfInterest => ({
+  id: `poi_${createItemId()}`,
+  name: '새 지점',
+  category,
+  ...point,
+});
+
+// --- Distance ---
+
+const EARTH_RADIUS_M = 6371000;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// Great-circle (straight-line) distance in metres.
+export const distanceMeters = (a: GeoPoint, b: GeoPoint) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Walking estimate: 4.5 km/h with a 1.3× detour factor for real streets vs. the straight line.
+const WALKING_METERS_PER_MINUTE = 4500 / 60;
+const DETOUR_FACTOR = 1.3;
+
+export const walkingMinutes = (meters: number) => Math.max(1, Math.round((meters * DETOUR_FACTOR) / WALKING_METERS_PER_MINUTE));
+
+export const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10}m` : `${(meters / 1000).toFixed(1)}km`;
+
+// --- Projection ---
+
+// Local equirectangular projection around the complex: accurate enough for a
+// few kilometres and needs no map tiles.
+export interface MapProjection {
+  toXY: (point: GeoPoint) => { x: number; y: number };
+  toGeo: (x: number, y: number) => GeoPoint;
+  metersPerUnit: number;
+}
+
+const METERS_PER_DEG_LAT = 110574;
+
+export const createProjection = (
+  center: GeoPoint,
+  points: GeoPoint[],
+  width: number,
+  height: number,
+  minRadiusMeters = 700
+): MapProjection => {
+  const metersPerDegLng = METERS_PER_DEG_LAT * Math.cos(toRad(center.lat));
+  const offsets = points.map((p) => ({
+    dx: (p.lng - center.lng) * metersPerDegLng,
+    dy: (p.lat - center.lat) * METERS_PER_DEG_LAT,
+  }));
+  const halfWidthMeters = Math.max(minRadiusMeters, ...offsets.map((o) => Math.abs(o.dx)), ...offsets.map((o) => Math.abs(o.dy) * (width / height)));
+  // 15% padding so markers and labels at the edge stay visible
+  const metersPerUnit = (halfWidthMeters * 1.15) / (width / 2);
+
+  return {
+    metersPerUnit,
+    toXY: (p) => ({
+      x: width / 2 + ((p.lng - center.lng) * metersPerDegLng) / metersPerUnit,
+      y: height / 2 - ((p.lat - center.lat) * METERS_PER_DEG_LAT) / metersPerUnit,
+    }),
+    toGeo: (x, y) => ({
+      lat: center.lat + ((height / 2 - y) * metersPerUnit) / METERS_PER_DEG_LAT,
+      lng: center.lng + ((x - width / 2) * metersPerUnit) / metersPerDegLng,
+    }),
+  };
+};
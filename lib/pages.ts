@@ -0,0 +1,132 @@
+import { readContentJson } from './contentJson';
+import { createItemId } from './reorder';
+import { CustomPageId, CustomPageRoute, Page, PageId, PAGE_PATHS, isCustomPageId } from './router';
+import { SectionInstance, SectionType, createSection, layoutContentKeys, layoutKey } from './sections';
+
+// Registry of the site's pages: their order, titles and whether they appear in
+// the header nav and the footer. Built-in pages keep their components and
+// paths; custom pages are created in edit mode from a template and render
+// their own section layout (layout_<id>) at "/<slug>". Stored as JSON under
+// PAGE_REGISTRY_KEY, so it is drafted and published with the rest of the content.
+
+export interface PageEntry {
+  id: PageId;
+  title: string; // '' keeps the translated nav label of a built-in page
+  slug: string; // custom pages only; served at "/<slug>"
+  inNav: boolean;
+  inFooter: boolean;
+}
+
+export const PAGE_REGISTRY_KEY = 'page_registry';
+
+type BuiltInPage = Exclude<Page, 'admin'>;
+
+const BUILT_IN_PAGES: BuiltInPage[] = ['main', 'analysis', 'investment', 'profile', 'contact'];
+
+const builtIn = (id: BuiltInPage): PageEntry => ({ id, title: '', slug: '', inNav: true, inFooter: id !== 'main' });
+
+export const DEFAULT_PAGE_REGISTRY: PageEntry[] = BUILT_IN_PAGES.map(builtIn);
+
+const isBuiltInPage = (value: unknown): value is BuiltInPage => BUILT_IN_PAGES.some((page) => page === value);
+
+const isPageEntry = (value: unknown): value is PageEntry => {
+  if (!value || typeof value !== 'object') return false;
+  const entry = value as PageEntry;
+  return (
+    typeof entry.id === 'string' &&
+    (isBuiltInPage(entry.id) || isCustomPageId(entry.id)) &&
+    typeof entry.title === 'string' &&
+    typeof entry.slug === 'string' &&
+    typeof entry.inNav === 'boolean' &&
+    typeof entry.inFooter === 'boolean'
+  );
+};
+
+export const isPageRegistry = (value: unknown): value is PageEntry[] =>
+  Array.isArray(value) && value.every(isPageEntry) && new Set(value.map((entry) => entry.id)).size === value.length;
+
+// Built-in pages missing from a saved registry are appended so they stay reachable.
+export const readPageRegistry = (content: Record<string, string>) => {
+  const registry = readContentJson(content, PAGE_REGISTRY_KEY, DEFAULT_PAGE_REGISTRY, isPageRegistry);
+  const missing = BUILT_IN_PAGES.filter((page) => !registry.some((entry) => entry.id === page));
+  return missing.length > 0 ? [...registry, ...missing.map(builtIn)] : registry;
+};
+
+// Pages saved with a slug that has since become reserved get no route, so the
+// static build never writes over its own files.
+export const customPageRoutes = (registry: PageEntry[]): CustomPageRoute[] =>
+  registry.flatMap((entry) =>
+    isCustomPageId(entry.id) && entry.slug && !RESERVED_SLUGS.includes(entry.slug) ? [{ id: entry.id, path: `/${entry.slug}` }] : []
+  );
+
+export const findPageEntry = (registry: PageEntry[], id: PageId) => registry.find((entry) => entry.id === id);
+
+// --- Slugs ---
+
+const SLUG_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+// Paths the site already serves, or that the static build writes: "assets"
+// holds Vite's bundles. Slugs cannot contain dots, so robots.txt and
+// sitemap.xml need no entry.
+const RESERVED_SLUGS = [...Object.values(PAGE_PATHS).map((path) => path.slice(1)), 'assets', 'content', '404'].filter(Boolean);
+
+// A message for the editor, or null when the slug can be used for page `id`.
+export const slugError = (slug: string, registry: PageEntry[], id?: PageId) => {
+  if (!slug) return '주소를 입력하세요.';
+  if (!SLUG_PATTERN.test(slug)) return '영문 소문자, 숫자와 하이픈(-)만 사용할 수 있습니다.';
+  if (RESERVED_SLUGS.includes(slug)) return '기본 페이지나 사이트 파일이 사용하는 주소입니다.';
+  if (registry.some((entry) => entry.id !== id && entry.slug === slug)) return '다른 페이지가 사용하는 주소입니다.';
+  return null;
+};
+
+// --- Templates ---
+
+export interface PageTemplate {
+  id: string;
+  label: string;
+  description: string;
+  sections: { type: SectionType; settings?: Record<string, string> }[];
+}
+
+export const PAGE_TEMPLATES: PageTemplate[] = [
+  {
+    id: 'blank',
+    label: '빈 페이지',
+    description: '제목과 본문 블록 하나로 시작합니다.',
+    sections: [{ type: 'text' }],
+  },
+  {
+    id: 'guide',
+    label: '안내',
+    description: '청약 일정이나 절차처럼 여러 단락으로 설명하는 페이지',
+    sections: [{ type: 'text' }, { type: 'text', settings: { background: 'slate' } }, { type: 'cta' }],
+  },
+  {
+    id: 'directions',
+    label: '오시는 길',
+    description: '안내 문구, 약도 이미지와 상담 배너',
+    sections: [{ type: 'text' }, { type: 'image' }, { type: 'cta' }],
+  },
+  {
+    id: 'event',
+    label: '이벤트',
+    description: '큰 이미지로 시작하는 이벤트 소개와 참여 안내',
+    sections: [{ type: 'image', settings: { width: 'wide' } }, { type: 'text', settings: { align: 'center' } }, { type: 'cta', settings: { background: 'primary' } }],
+  },
+];
+
+export const createPageId = (): CustomPageId => `page${createItemId()}`;
+
+// The registry entry and starting layout for a new page.
+export const createCustomPage = (title: string, slug: string, template: PageTemplate) => {
+  const id = createPageId();
+  const entry: PageEntry = { id, title, slug, inNav: true, inFooter: true };
+  const layout: SectionInstance[] = template.sections.map((section) => createSection(section.type, { ...section.settings }));
+  return { id, entry, layout };
+};
+
+// The layout and the content of its sections, removed together with the page.
+export const pageContentKeys = (id: CustomPageId, layout: SectionInstance[], content: Record<string, string>) => [
+  layoutKey(id),
+  ...layoutContentKeys(layout, content),
+];
@@ -0,0 +1,44 @@
+export interface PricePoint {
+  year: string;
+  price: number; // 평당 평균 매매가 (만원)
+  note: string;
+  projected: boolean;
+}
+
+export const PRICE_SERIES_KEY = 'chart_series';
+
+export const DEFAULT_PRICE_SERIES: PricePoint[] = [
+  { year: '2021', price: 1650, note: '동대구역 반경 1km 신축 아파트 평균 (예시)', projected: false },
+  { year: '2022', price: 1780, note: '동대구역 반경 1km 신축 아파트 평균 (예시)', projected: false },
+  { year: '2023', price: 1850, note: '동대구역 반경 1km 신축 아파트 평균 (예시)', projected: false },
+  { year: '2024', price: 1960, note: '동대구역 반경 1km 신축 아파트 평균 (예시)', projected: false },
+  { year: '입주 시점', price: 2300, note: '전문가 전망치', projected: true },
+];
+
+const isPricePoint = (value: unknown): value is PricePoint => {
+  if (!value || typeof value !== 'object') return false;
+  const point = value as Record<string, unknown>;
+  return (
+    typeof point.year === 'string' &&
+    typeof point.price === 'number' &&
+    Number.isFinite(point.price) &&
+    typeof point.note === 'string' &&
+    typeof point.projected === 'boolean'
+  );
+};
+
+export const isPriceSeries = (value: unknown): value is PricePoint[] => Array.isArray(value) && value.every(isPricePoint);
+
+const NICE_STEPS = [1, 1.2, 1.5, 2, 2.5, 3, 4, 5, 6, 8, 10];
+
+// Rounds the axis maximum up to a readable value with ~10% headroom above the tallest bar.
+export const niceMax = (max: number) => {
+  if (max <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(max)));
+  const step = NICE_STEPS.find((s) => s * magnitude >= max * 1.1) ?? 10;
+  return step * magnitude;
+};
+
+export const formatPrice = (price: number) => `${price.toLocaleString('ko-KR')}만원`;
+
+export const changeRate = (from: number, to: number) => (from > 0 ? ((to - from) / from) * 100 : 0);
@@ -0,0 +1,119 @@
+export interface UnitMixEntry {
+  type: string;
+  households: number | null; // null until the count is published
+}
+
+export interface ProjectFacts {
+  name: string;
+  location: string;
+  floorsBelow: number;
+  floorsAbove: number;
+  buildings: number;
+  totalHouseholds: number;
+  householdNote: string;
+  completionDate: string; // YYYY-MM, '' when not announced
+  builder: string;
+  unitMix: UnitMixEntry[];
+}
+
+export const PROJECT_FACTS_KEY = 'project_facts';
+
+// Only what the site stated before the record existed; the rest stays empty
+// (and hidden) until it is entered in edit mode.
+
+export const DEFAULT_PROJECT_FACTS: ProjectFacts = {
+  name: '이편한세상 동대구역 센텀스퀘어',
+  location: '대구광역시 동구 신천동 일원',
+  floorsBelow: 5,
+  floorsAbove: 24,
+  buildings: 4,
+  totalHouseholds: 322,
+  householdNote: '아파트/오피스텔 포함',
+  completionDate: '',
+  builder: 'DL E&C',
+  unitMix: [
+    { type: '84A', households: null },
+    { type: '84B', households: null },
+    { type: '107', households: null },
+    { type: '125', households: null },
+  ],
+};
+
+type ScalarFactKey = Exclude<keyof ProjectFacts, 'unitMix'>;
+
+export interface FactFieldSpec {
+  key: ScalarFactKey;
+  label: string;
+  input: 'text' | 'number' | 'month';
+  unit?: string;
+}
+
+// Edit form schema: one input per scalar field, typed by `input`.
+export const FACT_FIELDS: FactFieldSpec[] = [
+  { key: 'name', label: '사업명', input: 'text' },
+  { key: 'location', label: '위치', input: 'text' },
+  { key: 'floorsBelow', label: '지하 층수', input: 'number', unit: '층' },
+  { key: 'floorsAbove', label: '지상 층수', input: 'number', unit: '층' },
+  { key: 'buildings', label: '동 수', input: 'number', unit: '개동' },
+  { key: 'totalHouseholds', label: '총 세대수', input: 'number', unit: '세대' },
+  { key: 'householdNote', label: '세대수 비고', input: 'text' },
+  { key: 'completionDate', label: '입주 예정', input: 'month' },
+  { key: 'builder', label: '시공사', input: 'text' },
+];
+
+export const formatCompletionDate = (date: string) => {
+  const match = date.match(/^(\d{4})-(\d{2})$/);
+  return match ? `${match[1]}년 ${Number(match[2])}월 예정` : date;
+};
+
+export const formatUnitMix = (unitMix: UnitMixEntry[]) =>
+  unitMix
+    .map((entry) => (entry.households === null ? entry.type : `${entry.type} (${entry.households.toLocaleString('ko-KR')}세대)`))
+    .join(' · ');
+
+// Rows shown in the 사업 개요 spec table; rows that format to '' are hidden.
+export const FACT_ROWS: { label: string; format: (facts: ProjectFacts) => string; emphasis?: boolean }[] = [
+  { label: '사업명', format: (f) => f.name, emphasis: true },
+  { label: '위치', format: (f) => f.location },
+  { label: '규모', format: (f) => `지하 ${f.floorsBelow}층 ~ 지상 ${f.floorsAbove}층, ${f.buildings}개동` },
+  {
+    label: '세대수',
+    format: (f) => `총 ${f.totalHouseholds.toLocaleString('ko-KR')}세대${f.householdNote ? ` (${f.householdNote})` : ''}`,
+  },
+  { label: '평형 구성', format: (f) => formatUnitMix(f.unitMix) },
+  { label: '입주', format: (f) => (f.completionDate ? formatCompletionDate(f.completionDate) : '') },
+  { label: '시공사', format: (f) => f.builder },
+];
+
+const isUnitMix = (value: unknown): value is UnitMixEntry[] =>
+  Array.isArray(value) &&
+  value.every(
+    (entry) => entry && typeof entry.type === 'string' && (entry.households === null || typeof entry.households === 'number')
+  );
+
+// Accepts partial records (e.g. saved before a field existed) and fills the gaps with defaults.
+export const parseProjectFacts = (value: unknown): ProjectFacts | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const record = value as Record<string, unknown>;
+  const facts: ProjectFacts = { ...DEFAULT_PROJECT_FACTS };
+
+  FACT_FIELDS.forEach(({ key, input }) => {
+    const field = record[key];
+    if (input === 'number' ? typeof field === 'number' && Number.isFinite(field) : typeof field === 'string') {
+      (facts as unknown as Record<string, unknown>)[key] = field;
+    }
+  });
+  if (isUnitMix(record.unitMix)) facts.unitMix = record.unitMix;
+
+  return facts;
+};
+
+export const readProjectFacts = (content: Record<string, string>): ProjectFacts => {
+  const raw = content[PROJECT_FACTS_KEY];
+  if (!raw) return DEFAULT_PROJECT_FACTS;
+  try {
+    return parseProjectFacts(JSON.parse(raw)) ?? DEFAULT_PROJECT_FACTS;
+  } catch (e) {
+    return DEFAULT_PROJECT_FACTS;
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { RichNode, parseRichText, stripRichText } from './richText';
+
+const text = (value: string): RichNode => ({ type: 'text', text: value });
+
+describe('parseRichText', () => {
+  it('reads bold, italic and accent', () => {
+    expect(parseRichText('**굵게** *기울임* ==강조==')).toEqual([
+      { type: 'bold', children: [text('굵게')] },
+      text(' '),
+      { type: 'italic', children: [text('기울임')] },
+      text(' '),
+      { type: 'accent', children: [text('강조')] },
+    ]);
+  });
+
+  it('nests styles', () => {
+    expect(parseRichText('**a *b* c**')).toEqual([
+      { type: 'bold', children: [text('a '), { type: 'italic', children: [text('b')] }, text(' c')] },
+    ]);
+    expect(parseRichText('==**a**==')).toEqual([
+      { type: 'accent', children: [{ type: 'bold', children: [text('a')] }] },
+    ]);
+  });
+
+  it('reads a triple marker as italic bold', () => {
+    expect(parseRichText('***a***')).toEqual([
+      { type: 'italic', children: [{ type: 'bold', children: [text('a')] }] },
+    ]);
+    expect(parseRichText('***a** b*')).toEqual([
+      { type: 'italic', children: [{ type: 'bold', children: [text('a')] }, text(' b')] },
+    ]);
+    expect(parseRichText('***a* b**')).toEqual([
+      { type: 'bold', children: [{ type: 'italic', children: [text('a')] }, text(' b')] },
+    ]);
+  });
+
+  it('leaves unclosed and unbalanced markers literal', () => {
+    expect(parseRichText('**열림')).toEqual([text('**열림')]);
+    expect(parseRichText('==a')).toEqual([text('==a')]);
+    expect(parseRichText('**a*')).toEqual([text('*'), { type: 'italic', children: [text('a')] }]);
+    expect(parseRichText('*a**')).toEqual([{ type: 'italic', children: [text('a')] }, text('*')]);
+    expect(parseRichText('****')).toEqual([text('****')]);
+  });
+
+  it('keeps plain values as written', () => {
+    ['5 * 3', '2*3*4', '가*나*다', '== 참고 ==', 'a==b==c'].forEach((value) => {
+      expect(parseRichText(value)).toEqual([text(value)]);
+    });
+    expect(parseRichText('**서울역**에서')).toEqual([{ type: 'bold', children: [text('서울역')] }, text('에서')]);
+  });
+
+  it('reads safe links with styled labels', () => {
+    expect(parseRichText('[**상담**](/contact) 예약')).toEqual([
+      { type: 'link', href: '/contact', children: [{ type: 'bold', children: [text('상담')] }] },
+      text(' 예약'),
+    ]);
+    expect(parseRichText('[전화](tel:053-247-9599)')).toEqual([
+      { type: 'link', href: 'tel:053-247-9599', children: [text('전화')] },
+    ]);
+  });
+
+  it('leaves unsafe or incomplete links as text', () => {
+    expect(parseRichText('[x](javascript:alert(1))')).toEqual([text('[x](javascript:alert(1))')]);
+    expect(parseRichText('[x](//evil.com)')).toEqual([text('[x](//evil.com)')]);
+    expect(parseRichText('[]( /a)')).toEqual([text('[]( /a)')]);
+    expect(parseRichText('[a] (b)')).toEqual([text('[a] (b)')]);
+  });
+
+  it('does not pair emphasis across link brackets', () => {
+    expect(parseRichText('*[a*](/b)')).toEqual([
+      text('*'),
+      { type: 'link', href: '/b', children: [text('a*')] },
+    ]);
+  });
+
+  it('escapes marker characters only', () => {
+    expect(parseRichText('\\*a\\*')).toEqual([text('*a*')]);
+    expect(parseRichText('\\[a\\](/b)')).toEqual([text('[a](/b)')]);
+    expect(parseRichText('a\\\\b')).toEqual([text('a\\b')]);
+    expect(parseRichText('C:\\Users\\a.txt')).toEqual([text('C:\\Users\\a.txt')]);
+    expect(parseRichText('1\\=2 a\\.b')).toEqual([text('1\\=2 a\\.b')]);
+  });
+
+  it('turns newlines into breaks', () => {
+    expect(parseRichText('a\nb')).toEqual([text('a'), { type: 'break' }, text('b')]);
+  });
+
+  it('stays linear on long unmatched input', () => {
+    const started = Date.now();
+    parseRichText('*a '.repeat(30000) + '[x'.repeat(10000));
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe('stripRichText', () => {
+  it('drops the markup', () => {
+    expect(stripRichText('***a*** [b](/c) ==d==\n2*3')).toBe('a b d\n2*3');
+  });
+});
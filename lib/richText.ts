@@ -0,0 +1,231 @@
+// Restricted inline markup for EditableText values:
+//   **bold**  *italic*  ***both***  ==gold accent==  [label](url)  and newlines.
+// A backslash escapes the characters the toolbar writes markup with
+// (* _ [ ] ( ) and the backslash itself); before anything else it is kept as
+// typed. A marker only opens at the start of a word (after a space,
+// punctuation or the start of the value) and before non-space text, and only
+// closes after non-space text. Unmatched markers stay literal, so plain values
+// ("5 * 3", "2*3*4", "== 참고 ==") render exactly as written, while
+// "**서울역**에서" still works.
+
+export type RichNode =
+  | { type: 'text'; text: string }
+  | { type: 'break' }
+  | { type: 'bold' | 'italic' | 'accent'; children: RichNode[] }
+  | { type: 'link'; href: string; children: RichNode[] };
+
+const ESCAPABLE = '*_[]()\\';
+
+// http(s), mail, phone and same-site paths only; anything else stays plain text.
+export const isSafeHref = (href: string) =>
+  /^(https?:\/\/|mailto:|tel:)/i.test(href) || (href.startsWith('/') && !href.startsWith('//'));
+
+// "*" comes in runs of any length ("*", "**", "***"); "==" is always a pair.
+type StyleMarker = '*' | '==';
+
+const isSpace = (char: string | undefined) => char === undefined || /\s/.test(char);
+
+const isWordChar = (char: string | undefined) => char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+const LINK_TARGET = /\(([^\s()]+)\)/y;
+
+// A marker run or "[" that has not been matched yet. Its placeholder in the
+// output turns back into literal text if it never is.
+interface Opener {
+  marker: StyleMarker | '[';
+  index: number;
+  length: number; // characters of the run still unmatched
+}
+
+type Pending = RichNode | { literal: string };
+
+const isLiteral = (item: Pending): item is { literal: string } => 'literal' in item;
+
+// Turns unmatched markers back into text and merges neighbouring text.
+const finish = (items: Pending[]): RichNode[] => {
+  const nodes: RichNode[] = [];
+  items.forEach((item) => {
+    const node: RichNode = isLiteral(item) ? { type: 'text', text: item.literal } : item;
+    const last = nodes[nodes.length - 1];
+    if (node.type === 'text' && last?.type === 'text') last.text += node.text;
+    else nodes.push(node);
+  });
+  return nodes;
+};
+
+const markerText = (marker: StyleMarker, length: number) => (marker === '*' ? '*'.repeat(length) : marker);
+
+// Single pass with a stack of open markers, as in CommonMark: a closing run
+// pairs with the nearest open run of its kind, and the markers left open in
+// between become literal. Two stars of each run make bold and one italic, so
+// "***a***" is italic bold. Emphasis does not pair across a link's brackets.
+// Opener counts per bracket level make the "is there an opener" check O(1), so
+// every scan of the stack ends in a match and the whole parse stays linear.
+export const parseRichText = (source: string): RichNode[] => {
+  const out: Pending[] = [];
+  const stack: Opener[] = [];
+  const counts: Record<StyleMarker, number>[] = [{ '*': 0, '==': 0 }];
+  let text = '';
+
+  const flush = () => {
+    if (text) out.push({ type: 'text', text });
+    text = '';
+  };
+  const level = () => counts[counts.length - 1];
+  // Stack position of the "[" of the link being read; links do not nest
+  let bracket: number | null = null;
+
+  // Removes openers down to and including stack[depth]; the ones above it stay literal.
+  const unwind = (depth: number) => {
+    while (stack.length > depth) {
+      const opener = stack.pop()!;
+      if (opener.marker !== '[') level()[opener.marker] -= 1;
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '\\' && i + 1 < source.length && ESCAPABLE.includes(source[i + 1])) {
+      text += source[i + 1];
+      i += 2;
+      continue;
+    }
+    if (char === '\n') {
+      flush();
+      out.push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '*' || source.startsWith('==', i)) {
+      const marker: StyleMarker = char === '*' ? '*' : '==';
+      let end = i + marker.length;
+      if (marker === '*') while (source[end] === '*') end += 1;
+      const before = source[i - 1];
+      const after = source[end];
+      const canClose = !isSpace(before);
+      const canOpen = !isSpace(after) && !isWordChar(before);
+      let length = end - i;
+      flush();
+
+      while (canClose && length > 0 && level()[marker] > 0) {
+        let depth = stack.length - 1;
+        while (stack[depth].marker !== marker) depth -= 1;
+        const opener = stack[depth];
+        // An empty pair ("****") is not a style
+        if (opener.index >= out.length - 1) break;
+        unwind(depth + 1);
+        const used = marker === '==' ? 2 : Math.min(length, opener.length) >= 2 ? 2 : 1;
+        const children = finish(out.splice(opener.index + 1));
+        opener.length -= used;
+        length -= used;
+        if (opener.length === 0) {
+          out.pop();
+          unwind(depth);
+        } else {
+          out[opener.index] = { literal: markerText(marker, opener.length) };
+        }
+        out.push({ type: marker === '==' ? 'accent' : used === 2 ? 'bold' : 'italic', children });
+      }
+
+      if (length > 0) {
+        if (canOpen) {
+          stack.push({ marker, index: out.length, length });
+          level()[marker] += 1;
+        }
+        out.push({ literal: markerText(marker, length) });
+      }
+      i = end;
+      continue;
+    }
+
+    if (char === '[' && bracket === null) {
+      flush();
+      bracket = stack.length;
+      stack.push({ marker: '[', index: out.length, length: 1 });
+      counts.push({ '*': 0, '==': 0 });
+      out.push({ literal: '[' });
+      i += 1;
+      continue;
+    }
+
+    if (char === ']' && bracket !== null) {
+      flush();
+      const opener = stack[bracket];
+      LINK_TARGET.lastIndex = i + 1;
+      const target = LINK_TARGET.exec(source);
+      if (target && opener.index < out.length - 1 && isSafeHref(target[1])) {
+        unwind(bracket);
+        counts.pop();
+        const children = out.splice(opener.index).slice(1);
+        out.push({ type: 'link', href: target[1], children: finish(children) });
+        bracket = null;
+        i += 1 + target[0].length;
+        continue;
+      }
+      // Not a link: the brackets stay literal and markers inside may still pair outside them
+      const inner = counts.pop()!;
+      level()['*'] += inner['*'];
+      level()['=='] += inner['=='];
+      bracket = null;
+      out.push({ literal: ']' });
+      i += 1;
+      continue;
+    }
+
+    text += char;
+    i += 1;
+  }
+
+  flush();
+  return finish(out);
+};
+
+const nodesToPlainText = (nodes: RichNode[]): string =>
+  nodes
+    .map((node) => {
+      if (node.type === 'text') return node.text;
+      if (node.type === 'break') return '\n';
+      return nodesToPlainText(node.children);
+    })
+    .join('');
+
+// The visible text without markup, e.g. for titles and attributes.
+export const stripRichText = (source: string) => nodesToPlainText(parseRichText(source));
+
+// --- Editing helpers ---
+
+export interface TextEdit {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+}
+
+// Wraps the selection in `before`/`after`, or unwraps it when already wrapped.
+export const toggleWrap = (value: string, start: number, end: number, before: string, after = before, placeholder = '텍스트'): TextEdit => {
+  const selected = value.slice(start, end);
+  if (value.slice(start - before.length, start) === before && value.slice(end, end + after.length) === after) {
+    return {
+      value: value.slice(0, start - before.length) + selected + value.slice(end + after.length),
+      selectionStart: start - before.length,
+      selectionEnd: end - before.length,
+    };
+  }
+  const text = selected || placeholder;
+  return {
+    value: value.slice(0, start) + before + text + after + value.slice(end),
+    selectionStart: start + before.length,
+    selectionEnd: start + before.length + text.length,
+  };
+};
+
+export const insertLink = (value: string, start: number, end: number, href: string): TextEdit => {
+  const label = value.slice(start, end) || '링크';
+  const markup = `[${label}](${href})`;
+  return {
+    value: value.slice(0, start) + markup + value.slice(end),
+    selectionStart: start + 1,
+    selectionEnd: start + 1 + label.length,
+  };
+};
@@ -0,0 +1,48 @@
+export type Page = 'main' | 'analysis' | 'investment' | 'profile' | 'contact' | 'admin';
+
+// Pages created in edit mode (lib/pages.ts); their paths come from the page registry.
+export type CustomPageId = `page${string}`;
+
+export type PageId = Page | CustomPageId;
+
+// null is the 404 route: a path that does not belong to any page.
+export type Route = PageId | null;
+
+export const isCustomPageId = (value: string): value is CustomPageId => /^page[a-z0-9]+$/.test(value);
+
+export interface CustomPageRoute {
+  id: CustomPageId;
+  path: string;
+}
+
+export const PAGE_PATHS: Record<Page, string> = {
+  main: '/',
+  analysis: '/analysis',
+  investment: '/investment',
+  profile: '/profile',
+  contact: '/contact',
+  admin: '/admin', // sign-in for editors; not linked from the site
+};
+
+export const pathForPage = (page: Page) => PAGE_PATHS[page];
+
+// null for a custom page that no longer exists.
+export const pathForRoute = (page: PageId, customPages: CustomPageRoute[] = []) =>
+  isCustomPageId(page) ? customPages.find((entry) => entry.id === page)?.path ?? null : PAGE_PATHS[page];
+
+export const pageForPath = (pathname: string, customPages: CustomPageRoute[] = []): Route => {
+  const normalized = pathname.replace(/\/index\.html$/, '/').replace(/\/+$/, '') || '/';
+  const match = (Object.keys(PAGE_PATHS) as Page[]).find((page) => PAGE_PATHS[page] === normalized);
+  return match ?? customPages.find((entry) => entry.path === normalized)?.id ?? null;
+};
+
+export interface HistoryEntryState {
+  key: string;
+}
+
+export const createEntryKey = () => Math.random().toString(36).slice(2, 10);
+
+export const readEntryKey = (state: unknown): string | null =>
+  state && typeof state === 'object' && typeof (state as HistoryEntryState).key === 'string'
+    ? (state as HistoryEntryState).key
+    : null;
@@ -0,0 +1,180 @@
+import { createItemId } from './reorder';
+import { CustomPageId, Route, isCustomPageId } from './router';
+
+// Pages built from an ordered list of registered section types. The layout is
+// stored as JSON in the content map (layout_<page>), so drafts, publishing,
+// undo and export cover it like any other edit.
+//
+// The built-in sections of the main page use the plain content ids (hero_title, ...).
+// Duplicates and added blocks get their own id and their text and images live
+// under "<sectionId>__<content id>", so copies can be edited independently.
+
+export type SectionType = 'hero' | 'benefits' | 'highlight' | 'quote' | 'cta' | 'text' | 'image';
+
+export interface SectionSettingSpec {
+  key: string;
+  label: string;
+  options: { value: string; label: string }[]; // the first one is the default
+}
+
+export interface SectionTypeDefinition {
+  label: string;
+  // Content ids owned by the section: copied on duplicate, removed with a duplicate
+  keyPrefixes: string[];
+  settings: SectionSettingSpec[];
+}
+
+export const SECTION_TYPES: Record<SectionType, SectionTypeDefinition> = {
+  hero: {
+    label: '메인 히어로',
+    keyPrefixes: ['hero_'],
+    settings: [
+      { key: 'height', label: '높이', options: [{ value: 'full', label: '전체 화면' }, { value: 'compact', label: '보통' }] },
+    ],
+  },
+  benefits: {
+    label: '투자 핵심 포인트',
+    keyPrefixes: ['main_sec1_', 'benefit_', 'list_benefits'],
+    settings: [
+      { key: 'background', label: '배경', options: [{ value: 'white', label: '흰색' }, { value: 'slate', label: '회색' }] },
+    ],
+  },
+  highlight: {
+    label: '핵심 프리미엄',
+    keyPrefixes: ['highlight_', 'exterior_img', 'list_highlights'],
+    settings: [
+      { key: 'imageSide', label: '이미지 위치', options: [{ value: 'left', label: '왼쪽' }, { value: 'right', label: '오른쪽' }] },
+    ],
+  },
+  quote: {
+    label: '전문가 인사이트',
+    keyPrefixes: ['expert_'],
+    settings: [
+      { key: 'background', label: '배경', options: [{ value: 'slate', label: '회색' }, { value: 'white', label: '흰색' }] },
+    ],
+  },
+  cta: {
+    label: '상담 배너',
+    keyPrefixes: ['cta_main_'],
+    settings: [
+      { key: 'background', label: '배경', options: [{ value: 'accent', label: '강조 색상' }, { value: 'primary', label: '주 색상' }] },
+    ],
+  },
+  // General-purpose blocks, mainly for custom pages
+  text: {
+    label: '제목과 본문',
+    keyPrefixes: ['block_text_'],
+    settings: [
+      { key: 'background', label: '배경', options: [{ value: 'white', label: '흰색' }, { value: 'slate', label: '회색' }] },
+      { key: 'align', label: '정렬', options: [{ value: 'left', label: '왼쪽' }, { value: 'center', label: '가운데' }] },
+    ],
+  },
+  image: {
+    label: '이미지',
+    keyPrefixes: ['block_image_'],
+    settings: [
+      { key: 'width', label: '너비', options: [{ value: 'wide', label: '넓게' }, { value: 'narrow', label: '좁게' }] },
+    ],
+  },
+};
+
+export const isSectionType = (value: unknown): value is SectionType =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SECTION_TYPES, value);
+
+export interface SectionInstance {
+  id: string;
+  type: SectionType;
+  hidden: boolean;
+  settings: Record<string, string>;
+}
+
+export type LayoutPage = 'main' | CustomPageId;
+
+export const layoutKey = (page: LayoutPage) => `layout_${page}`;
+
+export const isLayoutPage = (route: Route): route is LayoutPage => route === 'main' || (!!route && isCustomPageId(route));
+
+export const isLayoutKey = (key: string) => /^layout_(main|page[a-z0-9]+)$/.test(key);
+
+const section = (type: SectionType): SectionInstance => ({ id: type, type, hidden: false, settings: {} });
+
+export const DEFAULT_LAYOUTS: Partial<Record<LayoutPage, SectionInstance[]>> = {
+  main: [section('hero'), section('benefits'), section('highlight'), section('quote'), section('cta')],
+};
+
+// A new block with its own content scope; it starts from the component's default text.
+export const createSection = (type: SectionType, settings: Record<string, string> = {}): SectionInstance => ({
+  id: `sec${createItemId()}`,
+  type,
+  hidden: false,
+  settings,
+});
+
+const isSectionInstance = (value: unknown): value is SectionInstance => {
+  if (!value || typeof value !== 'object') return false;
+  const instance = value as SectionInstance;
+  return (
+    typeof instance.id === 'string' &&
+    /^[a-z0-9]+$/.test(instance.id) &&
+    isSectionType(instance.type) &&
+    typeof instance.hidden === 'boolean' &&
+    !!instance.settings &&
+    typeof instance.settings === 'object' &&
+    Object.values(instance.settings).every((setting) => typeof setting === 'string')
+  );
+};
+
+export const isPageLayout = (value: unknown): value is SectionInstance[] =>
+  Array.isArray(value) &&
+  value.every(isSectionInstance) &&
+  new Set(value.map((instance) => instance.id)).size === value.length;
+
+// The saved value, or the registry default when a setting is unset or no longer offered.
+export const sectionSetting = (instance: SectionInstance, key: string) => {
+  const spec = SECTION_TYPES[instance.type].settings.find((setting) => setting.key === key);
+  if (!spec) return '';
+  const value = instance.settings[key];
+  return spec.options.some((option) => option.value === value) ? value : spec.options[0].value;
+};
+
+// --- Content scoping ---
+
+export const isPrimarySection = (instance: SectionInstance) => instance.id === instance.type;
+
+export const sectionScope = (instance: SectionInstance) => (isPrimarySection(instance) ? '' : `${instance.id}__`);
+
+const SCOPED_KEY = /^sec[a-z0-9]+__(.+)$/;
+
+// "sec1a2b3c4d__hero_title" -> "hero_title"; null for keys outside a duplicate.
+export const unscopedContentKey = (key: string) => key.match(SCOPED_KEY)?.[1] ?? null;
+
+const ownsKey = (type: SectionType, key: string) => SECTION_TYPES[type].keyPrefixes.some((prefix) => key.startsWith(prefix));
+
+const sectionContentKeys = (instance: SectionInstance, content: Record<string, string>) => {
+  const scope = sectionScope(instance);
+  return Object.keys(content).filter((key) => key.startsWith(scope) && ownsKey(instance.type, key.slice(scope.length)));
+};
+
+// Inserts a copy right after the section, along with copies of its edited content.
+export const duplicateSection = (layout: SectionInstance[], index: number, content: Record<string, string>) => {
+  const source = layout[index];
+  const copy = createSection(source.type, { ...source.settings });
+  copy.hidden = source.hidden;
+  const sourceScope = sectionScope(source);
+  const patch: Record<string, string> = {};
+  sectionContentKeys(source, content).forEach((key) => {
+    patch[sectionScope(copy) + key.slice(sourceScope.length)] = content[key];
+  });
+  return { layout: [...layout.slice(0, index + 1), copy, ...layout.slice(index + 1)], patch };
+};
+
+// Only added sections can be removed; the built-in ones are hidden instead.
+export const removeSection = (layout: SectionInstance[], index: number, content: Record<string, string>) => {
+  const instance = layout[index];
+  if (!instance || isPrimarySection(instance)) return { layout, removeKeys: [] };
+  return { layout: layout.filter((_, i) => i !== index), removeKeys: sectionContentKeys(instance, content) };
+};
+
+// Everything stored for a layout's added sections, e.g. when its page is deleted.
+export const layoutContentKeys = (layout: SectionInstance[], content: Record<string, string>) =>
+  layout.filter((instance) => !isPrimarySection(instance)).flatMap((instance) => sectionContentKeys(instance, content));
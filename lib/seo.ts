@@ -0,0 +1,275 @@
+import { Page, Route, PAGE_PATHS, isCustomPageId } from './router';
+import { readPageRegistry, findPageEntry, customPageRoutes } from './pages';
+
+// Per-page search and social metadata, edited in the SEO panel and stored in
+// the content map like any other field:
+//   seo_<page>_title, seo_<page>_desc, seo_<page>_image (an image key), seo_<page>_canonical
+// Empty fields fall back to DEFAULT_PAGE_SEO.
+
+export type SeoPage = Exclude<Page, 'admin'>;
+
+export const SEO_PAGES: SeoPage[] = ['main', 'analysis', 'investment', 'profile', 'contact'];
+
+export type SeoField = 'title' | 'desc' | 'image' | 'canonical';
+
+const SEO_FIELDS: SeoField[] = ['title', 'desc', 'image', 'canonical'];
+
+export const seoKey = (page: SeoPage, field: SeoField) => `seo_${page}_${field}`;
+
+// Public origin of the deployed site (e.g. https://example.com), used for
+// canonical and Open Graph URLs and the sitemap.
+export const SEO_SITE_URL_KEY = 'seo_site_url';
+
+export const SEO_KEYS = [SEO_SITE_URL_KEY, ...SEO_PAGES.flatMap((page) => SEO_FIELDS.map((field) => seoKey(page, field)))];
+
+export const SITE_NAME = '이편한세상 동대구역 센텀스퀘어';
+
+// Lengths search engines usually show in full; longer values are allowed but get cut.
+export const TITLE_LIMIT = 60;
+export const DESCRIPTION_LIMIT = 160;
+
+export interface PageSeoDefaults {
+  title: string;
+  description: string;
+  image: string; // image key
+}
+
+export const DEFAULT_PAGE_SEO: Record<SeoPage, PageSeoDefaults> = {
+  main: {
+    title: '동대구역 센텀스퀘어 - 전문가 분석 리포트',
+    description: '이편한세상 동대구역 센텀스퀘어의 입지, 시세, 투자 가치를 부동산 투자 컨설턴트가 분석합니다.',
+    image: 'hero_img',
+  },
+  analysis: {
+    title: `상세분석 | ${SITE_NAME}`,
+    description: '사업 개요와 교통·생활 인프라 등 동대구역 센텀스퀘어의 입지를 자세히 살펴봅니다.',
+    image: 'overview_img',
+  },
+  investment: {
+    title: `가치분석 | ${SITE_NAME}`,
+    description: '동대구 역세권 시세 추이와 개발 일정, 예상 수익 계산으로 투자 가치를 확인하세요.',
+    image: 'chart_bg',
+  },
+  profile: {
+    title: `전문가소개 | ${SITE_NAME}`,
+    description: '대구·경북 부동산 시장을 10년간 경험한 투자 컨설턴트를 소개합니다.',
+    image: 'profile_img_main',
+  },
+  contact: {
+    title: `상담문의 | ${SITE_NAME}`,
+    description: '분양 조건과 투자 상담을 예약하세요. 전문 상담사가 빠르게 연락드립니다.',
+    image: 'consulting_bg',
+  },
+};
+
+export const isSeoPage = (route: Route): route is SeoPage => SEO_PAGES.some((page) => page === route);
+
+// "https://example.com/" -> "https://example.com"; anything that is not an http(s) origin is ignored.
+export const normalizeSiteUrl = (value: string | undefined) => {
+  const trimmed = value?.trim().replace(/\/+$/, '') ?? '';
+  return /^https?:\/\/[^/\s]+$/i.test(trimmed) ? trimmed : '';
+};
+
+export const isSitePath = (value: string) => value.startsWith('/') && !value.startsWith('//') && !/\s/.test(value);
+
+// Browser-local images (asset:, data:, blob:) have no address a crawler can fetch.
+export const publicImageUrl = (src: string) => (/^https?:\/\//i.test(src) || isSitePath(src) ? src : null);
+
+const absoluteUrl = (origin: string, url: string) => (isSitePath(url) ? origin + url : url);
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  image: string | null;
+  canonical: string | null;
+  noindex: boolean;
+}
+
+export const canonicalPath = (content: Record<string, string>, page: SeoPage) => {
+  const custom = content[seoKey(page, 'canonical')]?.trim() ?? '';
+  return isSitePath(custom) ? custom : PAGE_PATHS[page];
+};
+
+// `fallbackOrigin` is used when no site URL is configured (the current origin
+// in the browser, empty when pre-rendering, which leaves the URLs relative).
+export const resolvePageMeta = (
+  content: Record<string, string>,
+  route: Route,
+  imageSrc: (imageId: string) => string,
+  fallbackOrigin = ''
+): PageMeta => {
+  const origin = normalizeSiteUrl(content[SEO_SITE_URL_KEY]) || fallbackOrigin;
+
+  // Custom pages take their title from the page registry and have no SEO fields of their own
+  const customPage = route && isCustomPageId(route) ? findPageEntry(readPageRegistry(content), route) : undefined;
+  if (customPage) {
+    return {
+      title: `${customPage.title} | ${SITE_NAME}`,
+      description: '',
+      image: null,
+      canonical: absoluteUrl(origin, `/${customPage.slug}`),
+      noindex: false,
+    };
+  }
+
+  if (!isSeoPage(route)) {
+    return {
+      title: `${route === 'admin' ? '관리자 로그인' : '페이지를 찾을 수 없습니다'} | ${SITE_NAME}`,
+      description: '',
+      image: null,
+      canonical: null,
+      noindex: true,
+    };
+  }
+
+  const defaults = DEFAULT_PAGE_SEO[route];
+  const image = publicImageUrl(imageSrc(content[seoKey(route, 'image')] || defaults.image));
+  return {
+    title: content[seoKey(route, 'title')]?.trim() || defaults.title,
+    description: content[seoKey(route, 'desc')]?.trim() || defaults.description,
+    image: image && absoluteUrl(origin, image),
+    canonical: absoluteUrl(origin, canonicalPath(content, route)),
+    noindex: false,
+  };
+};
+
+// --- Structured data (schema.org JSON-LD) ---
+
+export interface ProjectInfo {
+  name: string;
+  description: string;
+  address: string;
+  telephone: string;
+  image: string | null;
+  url: string | null;
+}
+
+export const projectStructuredData = (project: ProjectInfo) => ({
+  '@context': 'https://schema.org',
+  '@type': 'RealEstateListing',
+  name: project.name,
+  description: project.description,
+  ...(project.url && { url: project.url }),
+  ...(project.image && { image: project.image }),
+  about: {
+    '@type': 'ApartmentComplex',
+    name: project.name,
+    telephone: project.telephone,
+    address: { '@type': 'PostalAddress', streetAddress: project.address, addressCountry: 'KR' },
+  },
+});
+
+export interface ConsultantInfo {
+  name: string;
+  jobTitle: string;
+  description: string;
+  telephone: string;
+  email: string;
+  image: string | null;
+  url: string | null;
+}
+
+export const consultantStructuredData = (consultant: ConsultantInfo) => ({
+  '@context': 'https://schema.org',
+  '@type': 'Person',
+  name: consultant.name,
+  jobTitle: consultant.jobTitle,
+  description: consultant.description,
+  telephone: consultant.telephone,
+  ...(consultant.email && { email: consultant.email }),
+  ...(consultant.url && { url: consultant.url }),
+  ...(consultant.image && { image: consultant.image }),
+});
+
+// --- Head tags ---
+
+export interface PageHead {
+  title: string;
+  meta: { attr: 'name' | 'property'; key: string; content: string }[];
+  canonical: string | null;
+  structuredData: object[];
+}
+
+export const pageHead = (meta: PageMeta, structuredData: object[]): PageHead => {
+  const tags: PageHead['meta'] = [];
+  const add = (attr: 'name' | 'property', key: string, content: string | null) => {
+    if (content) tags.push({ attr, key, content });
+  };
+  add('name', 'description', meta.description);
+  if (meta.noindex) add('name', 'robots', 'noindex');
+  add('property', 'og:type', 'website');
+  add('property', 'og:site_name', SITE_NAME);
+  add('property', 'og:locale', 'ko_KR');
+  add('property', 'og:title', meta.title);
+  add('property', 'og:description', meta.description);
+  add('property', 'og:url', meta.canonical);
+  add('property', 'og:image', meta.image);
+  add('name', 'twitter:card', meta.image ? 'summary_large_image' : 'summary');
+  return { title: meta.title, meta: tags, canonical: meta.canonical, structuredData: meta.noindex ? [] : structuredData };
+};
+
+// Everything added here carries data-seo so the next page can replace it.
+const SEO_ATTRIBUTE = 'data-seo';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// "<" is escaped so text cannot close the script element.
+const serializeJsonLd = (data: object) => JSON.stringify(data).replace(/</g, '\\u003c');
+
+// Markup for the pre-rendered <head>, in place of index.html's <title>.
+export const renderPageHead = (head: PageHead) =>
+  [
+    `<title>${escapeHtml(head.title)}</title>`,
+    ...head.meta.map(({ attr, key, content }) => `<meta ${attr}="${key}" content="${escapeHtml(content)}" ${SEO_ATTRIBUTE}>`),
+    ...(head.canonical ? [`<link rel="canonical" href="${escapeHtml(head.canonical)}" ${SEO_ATTRIBUTE}>`] : []),
+    ...head.structuredData.map((data) => `<script type="application/ld+json" ${SEO_ATTRIBUTE}>${serializeJsonLd(data)}</script>`),
+  ].join('\n    ');
+
+export const applyPageHead = (head: PageHead) => {
+  document.title = head.title;
+  document.head.querySelectorAll(`[${SEO_ATTRIBUTE}]`).forEach((element) => element.remove());
+
+  const append = (element: HTMLElement) => {
+    element.setAttribute(SEO_ATTRIBUTE, '');
+    document.head.appendChild(element);
+  };
+  head.meta.forEach(({ attr, key, content }) => {
+    const meta = document.createElement('meta');
+    meta.setAttribute(attr, key);
+    meta.content = content;
+    append(meta);
+  });
+  if (head.canonical) {
+    const link = document.createElement('link');
+    link.rel = 'canonical';
+    link.href = head.canonical;
+    append(link);
+  }
+  head.structuredData.forEach((data) => {
+    const script = document.createElement('script');
+    script.type = 'application/ld+json';
+    script.textContent = serializeJsonLd(data);
+    append(script);
+  });
+};
+
+// --- Crawler files ---
+
+export const buildSitemap = (siteUrl: string, paths: string[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...Array.from(new Set(paths)).map((path) => `  <url><loc>${escapeHtml(siteUrl + path)}</loc></url>`),
+    '</urlset>',
+    '',
+  ].join('\n');
+
+export const buildRobots = (siteUrl: string) =>
+  ['User-agent: *', `Disallow: ${PAGE_PATHS.admin}`, ...(siteUrl ? [`Sitemap: ${siteUrl}/sitemap.xml`] : []), ''].join('\n');
+
+// The pages to list: each page's canonical path on the configured site.
+export const sitemapPaths = (content: Record<string, string>) => [
+  ...SEO_PAGES.map((page) => canonicalPath(content, page)),
+  ...customPageRoutes(readPageRegistry(content)).map((page) => page.path),
+];
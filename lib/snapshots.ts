@@ -0,0 +1,89 @@
+import { openDatabase, requestToPromise } from './idb';
+
+export type SnapshotKind = 'manual' | 'publish';
+
+export interface Snapshot {
+  id: string;
+  name: string;
+  kind: SnapshotKind; // 'publish' snapshots are taken automatically on every publish
+  createdAt: string;
+  content: Record<string, string>;
+}
+
+// Storage backend for named content snapshots, kept out of localStorage so
+// the live content stays within its quota. Swap with setSnapshotsAdapter.
+export interface SnapshotsAdapter {
+  list: () => Promise<Snapshot[]>;
+  save: (name: string, content: Record<string, string>, kind?: SnapshotKind) => Promise<Snapshot>;
+  remove: (id: string) => Promise<void>;
+}
+
+const createSnapshotId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+export const createSnapshot = (name: string, content: Record<string, string>, kind: SnapshotKind = 'manual'): Snapshot => ({
+  id: createSnapshotId(),
+  name: name.trim() || new Date().toLocaleString('ko-KR'),
+  kind,
+  createdAt: new Date().toISOString(),
+  content: { ...content },
+});
+
+const DB_NAME = 'centum_snapshots';
+const STORE = 'snapshots';
+
+export const createIndexedDBSnapshotsAdapter = (): SnapshotsAdapter => {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const getDb = () => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(DB_NAME, 1, (db) => {
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await getDb();
+    return requestToPromise(run(db.transaction(STORE, mode).objectStore(STORE)));
+  };
+
+  return {
+    list: async () => {
+      const snapshots = await withStore<Snapshot[]>('readonly', (store) => store.getAll());
+      return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    },
+    save: async (name, content, kind) => {
+      const snapshot = createSnapshot(name, content, kind);
+      await withStore('readwrite', (store) => store.add(snapshot));
+      return snapshot;
+    },
+    remove: async (id) => {
+      await withStore('readwrite', (store) => store.delete(id));
+    },
+  };
+};
+
+let activeAdapter: SnapshotsAdapter = createIndexedDBSnapshotsAdapter();
+
+export const getSnapshotsAdapter = () => activeAdapter;
+
+export const setSnapshotsAdapter = (adapter: SnapshotsAdapter) => {
+  activeAdapter = adapter;
+};
+
+// --- Draft / published ---
+
+export const PUBLISHED_STORAGE_KEY = 'site_content';
+export const DRAFT_STORAGE_KEY = 'site_content_draft';
+
+export const isContentEqual = (a: Record<string, string>, b: Record<string, string>) => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => key in b && a[key] === b[key]);
+};
+
+export const publishSnapshotName = (date = new Date()) => `게시 ${date.toLocaleString('ko-KR')}`;
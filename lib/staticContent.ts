@@ -0,0 +1,23 @@
+// The static build embeds the published content in each pre-rendered page so
+// the client can hydrate with exactly what the server rendered.
+
+export const STATIC_CONTENT_ELEMENT_ID = 'site-content';
+
+// JSON for an inline <script type="application/json">. "<" is escaped so a
+// value containing "</script>" cannot end the element early.
+export const serializeStaticContent = (content: Record<string, string>) =>
+  JSON.stringify(content).replace(/</g, '\\u003c');
+
+export const staticContentScript = (content: Record<string, string>) =>
+  `<script type="application/json" id="${STATIC_CONTENT_ELEMENT_ID}">${serializeStaticContent(content)}</script>`;
+
+// null when the page was not pre-rendered (dev server, plain build).
+export const readStaticContent = (): Record<string, string> | null => {
+  const element = document.getElementById(STATIC_CONTENT_ELEMENT_ID);
+  if (!element?.textContent) return null;
+  try {
+    return JSON.parse(element.textContent);
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,188 @@
+import { readContentJson } from './contentJson';
+
+// Brand tokens for the whole site. Components use the Tailwind colours
+// `primary`, `accent` and `accent-dark`, `font-serif` and the rounded-* scale,
+// which index.html maps to the CSS variables set here, so a theme change needs
+// no class edits. The theme is stored in the content map under THEME_KEY and
+// goes through drafts, publishing and snapshots like any other field.
+
+export interface Theme {
+  primary: string; // #rrggbb
+  accent: string;
+  fontSans: string; // FONT_OPTIONS id
+  fontSerif: string;
+  radiusScale: number; // multiplies Tailwind's rounded-* sizes
+}
+
+export const THEME_KEY = 'site_theme';
+
+// Keep in sync with the :root defaults in index.html.
+export const DEFAULT_THEME: Theme = {
+  primary: '#0F172A',
+  accent: '#D4AF37',
+  fontSans: 'Noto Sans KR',
+  fontSerif: 'Noto Serif KR',
+  radiusScale: 1,
+};
+
+export interface FontOption {
+  id: string; // Google Fonts family name
+  label: string;
+  weights: number[];
+  fallback: 'sans-serif' | 'serif';
+}
+
+export const SANS_FONTS: FontOption[] = [
+  { id: 'Noto Sans KR', label: '본고딕 (Noto Sans KR)', weights: [300, 400, 500, 700], fallback: 'sans-serif' },
+  { id: 'Nanum Gothic', label: '나눔고딕', weights: [400, 700, 800], fallback: 'sans-serif' },
+  { id: 'IBM Plex Sans KR', label: 'IBM Plex Sans KR', weights: [300, 400, 500, 700], fallback: 'sans-serif' },
+  { id: 'Gothic A1', label: '고딕 A1', weights: [300, 400, 500, 700], fallback: 'sans-serif' },
+];
+
+export const SERIF_FONTS: FontOption[] = [
+  { id: 'Noto Serif KR', label: '본명조 (Noto Serif KR)', weights: [400, 700], fallback: 'serif' },
+  { id: 'Nanum Myeongjo', label: '나눔명조', weights: [400, 700, 800], fallback: 'serif' },
+  { id: 'Gowun Batang', label: '고운바탕', weights: [400, 700], fallback: 'serif' },
+];
+
+export const RADIUS_OPTIONS = [
+  { value: 0, label: '각지게' },
+  { value: 0.5, label: '작게' },
+  { value: 1, label: '기본' },
+  { value: 1.5, label: '둥글게' },
+];
+
+const isHexColor = (value: unknown): value is string => typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+export const isTheme = (value: unknown): value is Theme => {
+  if (!value || typeof value !== 'object') return false;
+  const theme = value as Theme;
+  return (
+    isHexColor(theme.primary) &&
+    isHexColor(theme.accent) &&
+    SANS_FONTS.some((font) => font.id === theme.fontSans) &&
+    SERIF_FONTS.some((font) => font.id === theme.fontSerif) &&
+    RADIUS_OPTIONS.some((option) => option.value === theme.radiusScale)
+  );
+};
+
+export const readTheme = (content: Record<string, string>) => readContentJson(content, THEME_KEY, DEFAULT_THEME, isTheme);
+
+// --- Colour ---
+
+const toChannels = (hex: string) => [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+
+const toHex = (channels: number[]) =>
+  `#${channels.map((c) => Math.round(Math.min(255, Math.max(0, c))).toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+// Hover shade for accent buttons: the accent mixed with 13% black.
+export const darken = (hex: string, amount = 0.13) => toHex(toChannels(hex).map((c) => c * (1 - amount)));
+
+// WCAG 2.1 relative luminance and contrast ratio
+const luminance = (hex: string) => {
+  const [r, g, b] = toChannels(hex).map((c) => {
+    const s = c / 255;
+    return s <= 0.03928 ? s / 12.92 : ((s + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const contrastRatio = (a: string, b: string) => {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+};
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export const contrastLevel = (ratio: number): ContrastLevel =>
+  ratio >= 7 ? 'AAA' : ratio >= 4.5 ? 'AA' : ratio >= 3 ? 'AA Large' : 'Fail';
+
+export interface ContrastCheck {
+  id: string;
+  label: string; // where the pair appears on the site
+  foreground: string;
+  background: string;
+  ratio: number;
+  level: ContrastLevel;
+}
+
+// The colour pairs the layout actually uses for text.
+export const themeContrastChecks = (theme: Theme): ContrastCheck[] =>
+  [
+    { id: 'on-primary', label: '흰 글자 / 주 색상 배경 (헤더, 기본 버튼)', foreground: '#FFFFFF', background: theme.primary },
+    { id: 'accent-on-primary', label: '강조 색상 글자 / 주 색상 배경 (제목 강조)', foreground: theme.accent, background: theme.primary },
+    { id: 'primary-on-white', label: '주 색상 글자 / 흰 배경 (본문 제목)', foreground: theme.primary, background: '#FFFFFF' },
+    { id: 'on-accent', label: '흰 글자 / 강조 색상 배경 (강조 버튼)', foreground: '#FFFFFF', background: theme.accent },
+    { id: 'accent-on-white', label: '강조 색상 글자 / 흰 배경 (라벨, 아이콘)', foreground: theme.accent, background: '#FFFFFF' },
+  ].map((pair) => {
+    const ratio = contrastRatio(pair.foreground, pair.background);
+    return { ...pair, ratio, level: contrastLevel(ratio) };
+  });
+
+// --- CSS ---
+
+const fontOption = (options: FontOption[], id: string) => options.find((font) => font.id === id) ?? options[0];
+
+const fontStack = (font: FontOption) => `'${font.id}', ${font.fallback}`;
+
+// Tailwind's <alpha-value> needs the colours as space-separated channels.
+export const themeVariables = (theme: Theme): Record<string, string> => ({
+  '--color-primary': toChannels(theme.primary).join(' '),
+  '--color-accent': toChannels(theme.accent).join(' '),
+  '--color-accent-dark': toChannels(darken(theme.accent)).join(' '),
+  '--font-sans': fontStack(fontOption(SANS_FONTS, theme.fontSans)),
+  '--font-serif': fontStack(fontOption(SERIF_FONTS, theme.fontSerif)),
+  '--radius-scale': String(theme.radiusScale),
+});
+
+export const themeFontsUrl = (theme: Theme) => {
+  const family = (font: FontOption) => `family=${font.id.replace(/ /g, '+')}:wght@${font.weights.join(';')}`;
+  return `https://fonts.googleapis.com/css2?${family(fontOption(SANS_FONTS, theme.fontSans))}&${family(fontOption(SERIF_FONTS, theme.fontSerif))}&display=swap`;
+};
+
+// index.html's font stylesheet; its href is swapped when the fonts change.
+export const THEME_FONTS_ELEMENT_ID = 'theme-fonts';
+
+// Markup for the pre-rendered <head>.
+export const renderThemeStyle = (theme: Theme) => {
+  const declarations = Object.entries(themeVariables(theme)).map(([name, value]) => `${name}: ${value};`).join(' ');
+  return `<style data-theme>:root { ${declarations} }</style>`;
+};
+
+export const applyTheme = (theme: Theme) => {
+  const root = document.documentElement;
+  Object.entries(themeVariables(theme)).forEach(([name, value]) => root.style.setProperty(name, value));
+  const link = document.getElementById(THEME_FONTS_ELEMENT_ID);
+  const href = themeFontsUrl(theme);
+  if (link instanceof HTMLLinkElement && link.href !== href) link.href = href;
+};
+
+// --- Theme files ---
+
+const THEME_FILE_TYPE = 'centum-theme';
+
+export class ThemeImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThemeImportError';
+  }
+}
+
+export const serializeTheme = (theme: Theme) => JSON.stringify({ type: THEME_FILE_TYPE, version: 1, theme }, null, 2);
+
+export const parseThemeFile = (text: string): Theme => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new ThemeImportError('JSON 형식이 올바르지 않습니다.');
+  }
+  const file = data as { type?: unknown; theme?: unknown } | null;
+  if (!file || typeof file !== 'object' || file.type !== THEME_FILE_TYPE) {
+    throw new ThemeImportError('테마 파일이 아닙니다.');
+  }
+  if (!isTheme(file.theme)) {
+    throw new ThemeImportError('테마 값이 올바르지 않거나 지원하지 않는 글꼴입니다.');
+  }
+  return file.theme;
+};
@@ -0,0 +1,113 @@
+import { createItemId } from './reorder';
+import { isSafeHref } from './richText';
+
+export type MilestoneStatus = 'planned' | 'construction' | 'completed';
+
+export const MILESTONE_STATUSES: { id: MilestoneStatus; label: string }[] = [
+  { id: 'planned', label: '계획' },
+  { id: 'construction', label: '공사 중' },
+  { id: 'completed', label: '완료' },
+];
+
+export interface TimelineEvent {
+  id: string;
+  date: string; // 'YYYY', 'YYYY-MM' or 'YYYY-MM-DD'; empty when undated
+  label: string; // optional display text such as "현재" or "미래" that replaces the date
+  title: string;
+  desc: string;
+  status: MilestoneStatus;
+  sourceUrl: string;
+}
+
+export const TIMELINE_KEY = 'timeline_events';
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/;
+
+export const isValidMilestoneDate = (date: string) => date === '' || DATE_PATTERN.test(date);
+
+// Source links are optional, but a "javascript:" or other unsafe URL is never accepted.
+export const isValidSourceUrl = (url: string) => url === '' || isSafeHref(url);
+
+// The last day covered by a partial date, e.g. "2024" ends on 2024-12-31.
+export const milestoneEnd = (date: string): Date | null => {
+  const match = date.match(DATE_PATTERN);
+  if (!match) return null;
+  const year = Number(match[1]);
+  if (!match[2]) return new Date(year, 11, 31, 23, 59, 59);
+  const month = Number(match[2]) - 1;
+  if (!match[3]) return new Date(year, month + 1, 0, 23, 59, 59);
+  return new Date(year, month, Number(match[3]), 23, 59, 59);
+};
+
+// Once a dated milestone's period is over it is shown as completed regardless of the stored status.
+export const effectiveStatus = (event: TimelineEvent, now = new Date()): MilestoneStatus => {
+  if (event.status === 'completed') return 'completed';
+  const end = milestoneEnd(event.date);
+  return end && end.getTime() < now.getTime() ? 'completed' : event.status;
+};
+
+export const formatMilestoneDate = (event: TimelineEvent) => {
+  if (event.label) return event.label;
+  const match = event.date.match(DATE_PATTERN);
+  if (!match) return event.date;
+  if (match[3]) return `${match[1]}.${match[2]}.${match[3]}`;
+  if (match[2]) return `${match[1]}.${match[2]}`;
+  return match[1];
+};
+
+// Dated events are ordered chronologically within the slots they occupy;
+// undated events stay exactly where the editor placed them.
+export const orderTimeline = (events: TimelineEvent[]): TimelineEvent[] => {
+  const dated = events
+    .filter((event) => milestoneEnd(event.date))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  let next = 0;
+  return events.map((event) => (milestoneEnd(event.date) ? dated[next++] : event));
+};
+
+const isTimelineEvent = (value: unknown): value is TimelineEvent => {
+  if (!value || typeof value !== 'object') return false;
+  const event = value as Record<string, unknown>;
+  return (
+    ['id', 'date', 'label', 'title', 'desc'].every((field) => typeof event[field] === 'string') &&
+    typeof event.sourceUrl === 'string' &&
+    isValidSourceUrl(event.sourceUrl) &&
+    MILESTONE_STATUSES.some((status) => status.id === event.status)
+  );
+};
+
+export const isTimeline = (value: unknown): value is TimelineEvent[] => Array.isArray(value) && value.every(isTimelineEvent);
+
+export const createTimelineEvent = (): TimelineEvent => ({
+  id: createItemId(),
+  date: '',
+  label: '',
+  title: '',
+  desc: '',
+  status: 'planned',
+  sourceUrl: '',
+});
+
+const LEGACY_EVENTS = [
+  { id: 'time_1', year: '현재', title: '동대구 벤처밸리 활성화', desc: '지식서비스산업 거점 조성 중', status: 'construction' },
+  { id: 'time_2', year: '2024', title: '대구권 광역철도 개통 예정', desc: '구미~대구~경산 40분대 연결로 광역 교통망 확충', status: 'planned' },
+  { id: 'time_3', year: '2028', title: '엑스코선(4호선) 개통 예정', desc: '수성구민운동장~동대구역~이시아폴리스 연결', status: 'planned' },
+  { id: 'time_4', year: '미래', title: '대구경북통합신공항', desc: '글로벌 물류 경제 공항으로 도약 및 배후 도시 성장', status: 'planned' },
+] as const;
+
+// Builds the initial timeline from the old fixed time_1..time_4 fields so
+// edits saved before the timeline became structured carry over.
+export const legacyTimeline = (content: Record<string, string>): TimelineEvent[] =>
+  LEGACY_EVENTS.map((legacy) => {
+    const year = (content[`${legacy.id}_year`] || legacy.year).trim();
+    const isDate = year !== '' && DATE_PATTERN.test(year);
+    return {
+      id: legacy.id,
+      date: isDate ? year : '',
+      label: isDate ? '' : year,
+      title: content[`${legacy.id}_title`] || legacy.title,
+      desc: content[`${legacy.id}_desc`] || legacy.desc,
+      status: legacy.status,
+      sourceUrl: '',
+    };
+  });
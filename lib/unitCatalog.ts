@@ -0,0 +1,185 @@
+import { formatManwon } from './investmentCalculator';
+import { UnitMixEntry } from './projectFacts';
+
+// Unit types shown in the 평면도 section. The types and their household
+// counts come from the project facts unit mix, so the floor plans, the
+// calculator and the contact form's 관심 평형 choices always list the same
+// types; this catalogue only adds the details of each type. Areas are in ㎡ and
+// prices in 만원, like the investment calculator, and 0 means "not entered yet"
+// (shown empty). Each unit's floor plan image is a regular image content key
+// (floorPlanImageKey) so it gets the usual upload and crop.
+
+export interface BalconyOption {
+  label: string;
+  price: number; // 만원, 0 when included in the base price
+}
+
+// Stored per type under UNIT_CATALOG_KEY
+export interface UnitDetails {
+  id: string;
+  type: string; // a type of the project facts unit mix
+  exclusiveArea: number;
+  supplyArea: number;
+  rooms: number;
+  baths: number;
+  priceMin: number;
+  priceMax: number;
+  layout: string; // short description, e.g. "4Bay 판상형"
+  balconyOptions: BalconyOption[];
+}
+
+export interface UnitPlan extends UnitDetails {
+  households: number | null; // from the unit mix
+}
+
+export const UNIT_CATALOG_KEY = 'unit_catalog';
+
+// No details until real values are entered in edit mode
+export const DEFAULT_UNIT_CATALOG: UnitDetails[] = [];
+
+// A stable id for a type's floor plan image: "84A" -> "84a"; types without
+// latin letters or digits get a hash of their name.
+export const unitPlanId = (type: string) => {
+  const slug = type.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (slug) return slug;
+  const hash = Array.from(type).reduce((sum, char) => (sum * 31 + char.codePointAt(0)!) >>> 0, 7);
+  return `type${hash.toString(36)}`;
+};
+
+const emptyDetails = (type: string): UnitDetails => ({
+  id: unitPlanId(type),
+  type,
+  exclusiveArea: 0,
+  supplyArea: 0,
+  rooms: 0,
+  baths: 0,
+  priceMin: 0,
+  priceMax: 0,
+  layout: '',
+  balconyOptions: [],
+});
+
+// One plan per unit mix type, in unit mix order, with its saved details if any.
+export const buildUnitPlans = (unitMix: UnitMixEntry[], catalog: UnitDetails[]): UnitPlan[] => {
+  const seen = new Set<string>();
+  return unitMix.flatMap((entry) => {
+    if (seen.has(entry.type)) return [];
+    seen.add(entry.type);
+    const details = catalog.find((plan) => plan.type === entry.type) ?? emptyDetails(entry.type);
+    return [{ ...details, households: entry.households }];
+  });
+};
+
+// The stored form of the edited plans.
+export const toUnitDetails = ({ households, ...details }: UnitPlan): UnitDetails => details;
+
+export const floorPlanImageKey = (unitId: string) => `floorplan_${unitId}`;
+
+// Matches floorplan_<id> for any catalogue entry, including ones added in edit mode.
+export const isFloorPlanImageKey = (key: string) => /^floorplan_[a-z0-9]+$/.test(key);
+
+type UnitNumberField = 'exclusiveArea' | 'supplyArea' | 'rooms' | 'baths' | 'priceMin' | 'priceMax';
+
+export interface UnitFieldSpec {
+  key: 'layout' | UnitNumberField;
+  label: string;
+  input: 'text' | 'number';
+  unit?: string;
+}
+
+// Edit form schema, as FACT_FIELDS in projectFacts.ts. The type and its
+// households are edited with the unit mix.
+export const UNIT_FIELDS: UnitFieldSpec[] = [
+  { key: 'layout', label: '구조', input: 'text' },
+  { key: 'exclusiveArea', label: '전용면적', input: 'number', unit: '㎡' },
+  { key: 'supplyArea', label: '공급면적', input: 'number', unit: '㎡' },
+  { key: 'rooms', label: '방', input: 'number', unit: '개' },
+  { key: 'baths', label: '욕실', input: 'number', unit: '개' },
+  { key: 'priceMin', label: '최저 분양가', input: 'number', unit: '만원' },
+  { key: 'priceMax', label: '최고 분양가', input: 'number', unit: '만원' },
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isBalconyOption = (value: unknown): value is BalconyOption =>
+  !!value && typeof (value as BalconyOption).label === 'string' && isFiniteNumber((value as BalconyOption).price);
+
+const NUMBER_FIELDS: UnitNumberField[] = ['exclusiveArea', 'supplyArea', 'rooms', 'baths', 'priceMin', 'priceMax'];
+
+const isUnitDetails = (value: unknown): value is UnitDetails => {
+  if (!value || typeof value !== 'object') return false;
+  const plan = value as UnitDetails;
+  return (
+    typeof plan.id === 'string' &&
+    /^[a-z0-9]+$/.test(plan.id) &&
+    typeof plan.type === 'string' &&
+    typeof plan.layout === 'string' &&
+    NUMBER_FIELDS.every((field) => isFiniteNumber(plan[field])) &&
+    Array.isArray(plan.balconyOptions) &&
+    plan.balconyOptions.every(isBalconyOption)
+  );
+};
+
+export const isUnitCatalog = (value: unknown): value is UnitDetails[] => Array.isArray(value) && value.every(isUnitDetails);
+
+// --- Formatting ---
+
+const SQUARE_METERS_PER_PYEONG = 3.305785;
+
+export const toPyeong = (squareMeters: number) => Math.round((squareMeters / SQUARE_METERS_PER_PYEONG) * 10) / 10;
+
+// Empty strings for values that have not been entered.
+export const formatArea = (squareMeters: number) =>
+  squareMeters > 0 ? `${squareMeters.toLocaleString('ko-KR')}㎡ (${toPyeong(squareMeters)}평)` : '';
+
+export const formatPriceRange = (plan: UnitPlan) => {
+  if (plan.priceMin <= 0) return '';
+  return plan.priceMin === plan.priceMax || plan.priceMax === 0
+    ? formatManwon(plan.priceMin)
+    : `${formatManwon(plan.priceMin)} ~ ${formatManwon(plan.priceMax)}`;
+};
+
+export const formatBalconyOption = (option: BalconyOption) =>
+  `${option.label} ${option.price > 0 ? `+${option.price.toLocaleString('ko-KR')}만원` : '(기본 제공)'}`;
+
+// --- Comparison ---
+
+export const MAX_COMPARED_UNITS = 4;
+
+export interface CompareRow {
+  id: 'exclusive' | 'supply' | 'ratio' | 'rooms' | 'layout' | 'households' | 'price' | 'balcony';
+  label: string;
+  format: (plan: UnitPlan) => string;
+  // Numeric value used to mark the best column; omitted for descriptive rows
+  value?: (plan: UnitPlan) => number;
+}
+
+// Rows format to '' when the value is not entered; the spec table hides them
+// and the comparison shows a dash.
+export const COMPARE_ROWS: CompareRow[] = [
+  { id: 'exclusive', label: '전용면적', format: (p) => formatArea(p.exclusiveArea), value: (p) => p.exclusiveArea },
+  { id: 'supply', label: '공급면적', format: (p) => formatArea(p.supplyArea), value: (p) => p.supplyArea },
+  {
+    id: 'ratio',
+    label: '전용률',
+    format: (p) => (p.supplyArea > 0 && p.exclusiveArea > 0 ? `${Math.round((p.exclusiveArea / p.supplyArea) * 1000) / 10}%` : ''),
+    value: (p) => (p.supplyArea > 0 ? p.exclusiveArea / p.supplyArea : 0),
+  },
+  { id: 'rooms', label: '방 / 욕실', format: (p) => (p.rooms > 0 ? `방 ${p.rooms} · 욕실 ${p.baths}` : '') },
+  { id: 'layout', label: '구조', format: (p) => p.layout },
+  {
+    id: 'households',
+    label: '세대수',
+    format: (p) => (p.households === null ? '' : `${p.households.toLocaleString('ko-KR')}세대`),
+    value: (p) => p.households ?? 0,
+  },
+  { id: 'price', label: '분양가', format: formatPriceRange },
+  { id: 'balcony', label: '발코니 확장', format: (p) => p.balconyOptions.map(formatBalconyOption).join('\n') },
+];
+
+// Index of the column with the highest value, or null when all are equal.
+export const bestColumn = (plans: UnitPlan[], value: (plan: UnitPlan) => number) => {
+  const values = plans.map(value);
+  const max = Math.max(...values);
+  return values.every((v) => v === max) ? null : values.indexOf(max);
+};
@@ -0,0 +1,106 @@
+// Pre-renders every page with an exported site-content.json baked in.
+// Run through `npm run build:static -- <content file>` (default: site-content.json);
+// expects the client build in dist/ and the server build in dist-ssr/.
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+const root = process.cwd();
+const distDir = path.join(root, 'dist');
+const contentFile = path.resolve(root, process.argv[2] ?? 'site-content.json');
+const ROOT_ELEMENT = '<div id="root"></div>';
+const TITLE_ELEMENT = /<title>[\s\S]*?<\/title>/;
+const THEME_FONTS_HREF = /(<link id="theme-fonts" href=")[^"]*(")/;
+const HEAD_END = '</head>';
+
+const {
+  render, renderHead, renderTheme, parseContentFile, staticContentScript, PAGE_PATHS, readPageRegistry, customPageRoutes,
+  SEO_SITE_URL_KEY, normalizeSiteUrl, buildSitemap, buildRobots, sitemapPaths,
+} = await import(
+  pathToFileURL(path.join(root, 'dist-ssr', 'entry-server.js')).href
+);
+
+const fail = (message) => {
+  console.error(`prerender: ${message}`);
+  process.exit(1);
+};
+
+const readContent = async () => {
+  let text;
+  try {
+    text = await readFile(contentFile, 'utf8');
+  } catch (e) {
+    fail(`cannot read ${path.relative(root, contentFile)}. Export it from the admin toolbar after publishing.`);
+  }
+  let parsed;
+  try {
+    parsed = parseContentFile(text);
+  } catch (e) {
+    fail(`${path.relative(root, contentFile)}: ${e.message}`);
+  }
+  if (parsed.unknownKeys.length > 0) console.warn(`prerender: ignoring unknown keys: ${parsed.unknownKeys.join(', ')}`);
+  if (parsed.invalidKeys.length > 0) console.warn(`prerender: ignoring non-string values: ${parsed.invalidKeys.join(', ')}`);
+  return parsed.content;
+};
+
+const EXTENSIONS = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+// Exports inline uploaded images as data URLs; write them out as files so
+// every page does not carry them twice (markup and embedded content).
+const extractImages = async (content) => {
+  const result = {};
+  for (const [key, value] of Object.entries(content)) {
+    const match = value.match(/^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/s);
+    if (!match) {
+      result[key] = value;
+      continue;
+    }
+    const data = Buffer.from(match[2], 'base64');
+    const name = `${createHash('sha256').update(data).digest('hex').slice(0, 16)}.${EXTENSIONS[match[1]] ?? 'bin'}`;
+    await mkdir(path.join(distDir, 'content'), { recursive: true });
+    await writeFile(path.join(distDir, 'content', name), data);
+    result[key] = `/content/${name}`;
+  }
+  return result;
+};
+
+const writePage = async (file, template, route, content) => {
+  const theme = renderTheme(content);
+  const html = template
+    .replace(TITLE_ELEMENT, () => renderHead(route, content))
+    .replace(THEME_FONTS_HREF, (_, start, end) => start + theme.fontsUrl + end)
+    .replace(HEAD_END, () => `  ${theme.style}\n  ${HEAD_END}`)
+    .replace(ROOT_ELEMENT, () => `<div id="root">${render(route, content)}</div>${staticContentScript(content)}`);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, html);
+  console.log(`prerender: ${path.relative(root, file)}`);
+};
+
+const template = await readFile(path.join(distDir, 'index.html'), 'utf8');
+if (!template.includes(ROOT_ELEMENT)) fail('dist/index.html is not a fresh client build. Run `vite build` first.');
+
+const content = await extractImages(await readContent());
+
+for (const [page, pagePath] of Object.entries(PAGE_PATHS)) {
+  // The sign-in page is not part of the static site
+  if (page === 'admin') continue;
+  await writePage(path.join(distDir, pagePath, 'index.html'), template, page, content);
+}
+// Pages created in edit mode, at the addresses given in the page registry
+for (const { id, path: pagePath } of customPageRoutes(readPageRegistry(content))) {
+  await writePage(path.join(distDir, pagePath, 'index.html'), template, id, content);
+}
+await writePage(path.join(distDir, '404.html'), template, null, content);
+
+// Sitemap URLs must be absolute, so it needs the site address from the SEO panel
+const siteUrl = normalizeSiteUrl(content[SEO_SITE_URL_KEY]);
+if (siteUrl) {
+  await writeFile(path.join(distDir, 'sitemap.xml'), buildSitemap(siteUrl, sitemapPaths(content)));
+  console.log('prerender: dist/sitemap.xml');
+} else {
+  console.warn('prerender: no site address set in the SEO panel; skipping sitemap.xml');
+}
+await writeFile(path.join(distDir, 'robots.txt'), buildRobots(siteUrl));
+console.log('prerender: dist/robots.txt');
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.ADMIN_PASSCODE_HASH': JSON.stringify(env.ADMIN_PASSCODE_HASH),
+        'process.env.EDITOR_PASSCODE_HASH': JSON.stringify(env.EDITOR_PASSCODE_HASH)
       },
       resolve: {
         alias: {